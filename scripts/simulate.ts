@@ -0,0 +1,102 @@
+// Headless runner for the simulation engines.
+//
+//   npm run simulate -- scenario.json [--tab drawdown] [--format summary|csv|json] [--data overrides.json] [--out file]
+//
+// The scenario is a profile as the app stores it in localStorage (`profile_<name>`);
+// missing settings take the app defaults. `--data` replaces any of the bundled
+// series (sp500, nasdaq100, intl, smallValue, reits, gold, bitcoin, tips, bonds,
+// tbills, inflation, cape) with the ones in the given JSON file; its `custom`
+// list adds custom assets, as saved on the Data tab.
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { DEFAULT_MARKET_DATA, type MarketData } from "../src/data/marketData";
+import { noComparableStartYears } from "../src/lib/capeConditioning";
+import { defaultScenario, migrateScenario, runScenario, runsToCsv, summarizeRuns, type Scenario, type ScenarioTab } from "../src/lib/scenario";
+
+const TABS: ScenarioTab[] = ["sp500", "nasdaq100", "portfolio", "drawdown"];
+const FORMATS = ["summary", "csv", "json"] as const;
+
+function fail(message: string): never {
+  console.error(`simulate: ${message}`);
+  process.exit(1);
+}
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    fail(`could not read ${path}: ${(err as Error).message}`);
+  }
+}
+
+function loadData(path: string | undefined): MarketData {
+  if (!path) return DEFAULT_MARKET_DATA;
+  const overrides = readJson(path) as Partial<MarketData>;
+  const unknown = Object.keys(overrides).filter(k => !(k in DEFAULT_MARKET_DATA));
+  if (unknown.length > 0) fail(`unknown data series in ${path}: ${unknown.join(", ")}`);
+  return { ...DEFAULT_MARKET_DATA, ...overrides };
+}
+
+function defaultStartYear(data: MarketData): number {
+  // Same as the app: the first year every asset has data for
+  const years = [data.nasdaq100, data.bitcoin, data.bonds].map(s => new Set(s.map(d => d.year)));
+  return Math.min(...data.sp500.map(d => d.year).filter(y => years.every(set => set.has(y))));
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    tab: { type: "string", default: "drawdown" },
+    format: { type: "string", default: "summary" },
+    data: { type: "string" },
+    out: { type: "string" },
+  },
+});
+
+if (positionals.length !== 1) fail("expected one scenario file, e.g. npm run simulate -- scenario.json");
+const tab = values.tab as ScenarioTab;
+if (!TABS.includes(tab)) fail(`--tab must be one of ${TABS.join(", ")}`);
+const format = values.format as (typeof FORMATS)[number];
+if (!FORMATS.includes(format)) fail(`--format must be one of ${FORMATS.join(", ")}`);
+
+const data = loadData(values.data);
+const scenario: Scenario = { ...defaultScenario(defaultStartYear(data)), ...migrateScenario(readJson(positionals[0]) as Record<string, unknown>) };
+const runs = runScenario(tab, scenario, data);
+if (scenario.mode === "cape-conditioned" && runs.length === 0) fail(noComparableStartYears(scenario.horizon));
+const summary = summarizeRuns(runs);
+
+let output: string;
+if (format === "csv") {
+  output = runsToCsv(runs);
+} else if (format === "json") {
+  output = JSON.stringify({ tab, scenario, summary, runs }, null, 2) + "\n";
+} else {
+  const usd = new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+  output = [
+    `Tab: ${tab} (${scenario.mode}, ${summary.runs} run${summary.runs !== 1 ? "s" : ""}, ${scenario.horizon} years)`,
+    `Success rate: ${(summary.successRate * 100).toFixed(1)}%`,
+    `Median ending balance: ${usd.format(summary.medianEndingBalance)}`,
+    `10th–90th percentile ending: ${usd.format(summary.p10EndingBalance)} – ${usd.format(summary.p90EndingBalance)}`,
+    `Median drawdown: ${(summary.medianDrawdown * 100).toFixed(1)}%`,
+    `Max drawdown: ${(summary.maxDrawdown * 100).toFixed(1)}%`,
+    `Worst low point: ${usd.format(summary.worstLowPoint)}`,
+    ...(summary.taxes
+      ? [
+        `Median 1st year after-tax spending: ${usd.format(summary.taxes.medianFirstYearAfterTax)}`,
+        `Median lifetime after-tax spending: ${usd.format(summary.taxes.medianLifetimeAfterTax)}`,
+        `Median lifetime taxes: ${usd.format(summary.taxes.medianLifetimeTaxes)}`,
+      ]
+      : []),
+  ].join("\n") + "\n";
+}
+
+if (values.out) {
+  writeFileSync(values.out, output);
+} else {
+  // Exit quietly when piped into something like `head` that stops reading early
+  process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+    if (err.code === "EPIPE") process.exit(0);
+    throw err;
+  });
+  process.stdout.write(output);
+}
@@ -10,6 +10,19 @@ import ProfileSelector, { type Profile } from "./components/ProfileSelector";
 import ThemeToggle from "./components/ThemeToggle";
 import DataTab from "./components/DataTab";
 import { useData } from "./data/DataContext";
+import type { CashRefillOptions, ThreeBucketOptions } from "./lib/buckets";
+import type { TaxOptions } from "./lib/taxes";
+import type { IncomeStream } from "./lib/income";
+import type { CashFlowEvent } from "./lib/cashFlows";
+import type { RebalanceOptions } from "./lib/rebalancing";
+import type { CashYieldOptions } from "./lib/cashYield";
+import type { BitcoinBackfillOptions } from "./lib/bitcoin";
+import type { ReturnModelOverrides } from "./lib/returnModel";
+import type { DrawdownStrategy } from "./lib/drawdown";
+import type { DrawdownStrategies, WithdrawalRuleParams } from "./lib/withdrawals";
+import { defaultScenario, migrateScenario } from "./lib/scenario";
+import type { AssetHoldings, SimulationMode } from "./lib/simulation";
+import { holdingsTotal } from "./lib/assets";
 
 export interface ChartState {
   minimized: boolean;
@@ -18,22 +31,6 @@ export interface ChartState {
   size: 'full' | 'half';
 }
 
-export type DrawdownStrategy =
-  | "cashFirst_spyThenQqq"
-  | "cashFirst_qqqThenSpy"
-  | "cashFirst_equalParts"
-  | "cashFirst_bestPerformer"
-  | "cashFirst_worstPerformer";
-
-export type DrawdownStrategies =
-  | "guytonKlinger"
-  | "floorAndCeiling"
-  | "capeBased"
-  | "fixedPercentage"
-  | "principalProtectionRule"
-  | "fourPercentRule"
-  | "fourPercentRuleUpwardReset";
-
 
 export default function App() {
   const round2 = (n: number) => Math.round(n * 100) / 100;
@@ -75,33 +72,13 @@ export default function App() {
       .sort((a, b) => a - b);
   }, [sp500, nasdaq100, bitcoinReturns, bondReturns]);
 
-  const defaultParams = {
-    startBalance: 1_000_000,
-    cash: 100_000,
-    spy: 450_000,
-    qqq: 450_000,
-    bitcoin: 0,
-    bonds: 0,
-    drawdownStrategy: "cashFirst_spyThenQqq" as DrawdownStrategy,
-    drawdownWithdrawalStrategy: "fourPercentRule" as DrawdownStrategies,
-    horizon: 30,
-    withdrawRate: 4,
-    initialWithdrawalAmount: Math.round(1_000_000 * (4 / 100)),
-    isFirstWithdrawLocked: false,
-    inflationAdjust: true,
-    inflationRate: 0.02,
-    useHistoricalInflation: true,
-    mode: "actual-seq-random-start" as "actual-seq" | "actual-seq-random-start" | "random-shuffle" | "bootstrap",
-    numRuns: 1000,
-    seed: "" as number | "",
-    startYear: years[0],
-  };
+  const defaultParams = defaultScenario(years[0]);
 
   const loadProfileData = (name: Profile) => {
     const stored = localStorage.getItem(`profile_${name}`);
     if (stored) {
       try {
-        return { ...defaultParams, ...JSON.parse(stored) };
+        return { ...defaultParams, ...migrateScenario(JSON.parse(stored)) };
       } catch {
         // ignore parse errors
       }
@@ -112,29 +89,43 @@ export default function App() {
   const [profile, setProfile] = useState<Profile>(() => (localStorage.getItem("activeProfile") as Profile) || "Default");
   const initialProfile = loadProfileData(profile);
 
-  const [cash, setCash] = useState(initialProfile.cash);
-  const [spy, setSpy] = useState(initialProfile.spy);
-  const [qqq, setQqq] = useState(initialProfile.qqq);
-  const [bitcoin, setBitcoin] = useState(initialProfile.bitcoin);
-  const [bonds, setBonds] = useState(initialProfile.bonds);
-  const portfolioStartBalance = useMemo(() => cash + spy + qqq + bitcoin + bonds, [cash, spy, qqq, bitcoin, bonds]);
+  const [holdings, setHoldings] = useState<AssetHoldings>(initialProfile.holdings);
+  const portfolioStartBalance = useMemo(() => holdingsTotal(holdings), [holdings]);
   const [startBalance, setStartBalance] = useState(initialProfile.startBalance);
   const [drawdownStrategy, setDrawdownStrategy] = useState<DrawdownStrategy>(initialProfile.drawdownStrategy);
   const [drawdownWithdrawalStrategy, setDrawdownWithdrawalStrategy] = useState<DrawdownStrategies>(initialProfile.drawdownWithdrawalStrategy);
+  const [withdrawalRuleParams, setWithdrawalRuleParams] = useState<WithdrawalRuleParams>(initialProfile.withdrawalRuleParams);
+  const [cashRefill, setCashRefill] = useState<CashRefillOptions>(initialProfile.cashRefill);
+  const [threeBucket, setThreeBucket] = useState<ThreeBucketOptions>(initialProfile.threeBucket);
+  const [rebalance, setRebalance] = useState<RebalanceOptions>(initialProfile.rebalance);
+  const [taxes, setTaxes] = useState<TaxOptions>(initialProfile.taxes);
+  const [cashYield, setCashYield] = useState<CashYieldOptions>(initialProfile.cashYield);
+  const [bitcoinBackfill, setBitcoinBackfill] = useState<BitcoinBackfillOptions>(initialProfile.bitcoinBackfill);
   const [horizon, setHorizon] = useState(initialProfile.horizon);
+  const [startAge, setStartAge] = useState(initialProfile.startAge);
+  const [incomeStreams, setIncomeStreams] = useState<IncomeStream[]>(initialProfile.incomeStreams);
+  const [cashFlows, setCashFlows] = useState<CashFlowEvent[]>(initialProfile.cashFlows);
   const [withdrawRate, setWithdrawRate] = useState(initialProfile.withdrawRate); // % of initial
   const [initialWithdrawalAmount, setInitialWithdrawalAmount] = useState(initialProfile.initialWithdrawalAmount);
   const [isFirstWithdrawLocked, setIsInitialAmountLocked] = useState(initialProfile.isFirstWithdrawLocked);
   const [inflationAdjust, setInflationAdjust] = useState(initialProfile.inflationAdjust);
   const [inflationRate, setInflationRate] = useState(initialProfile.inflationRate); // 2%
   const [useHistoricalInflation, setUseHistoricalInflation] = useState(initialProfile.useHistoricalInflation);
-  const [mode, setMode] = useState<"actual-seq" | "actual-seq-random-start" | "random-shuffle" | "bootstrap">(initialProfile.mode);
+  const [decorrelateInflation, setDecorrelateInflation] = useState(initialProfile.decorrelateInflation);
+  const [completeCohorts, setCompleteCohorts] = useState(initialProfile.completeCohorts);
+  const [mode, setMode] = useState<SimulationMode>(initialProfile.mode);
   const [numRuns, setNumRuns] = useState(initialProfile.numRuns);
   const [seed, setSeed] = useState<number | "">(initialProfile.seed);
+  const [blockLength, setBlockLength] = useState(initialProfile.blockLength);
+  const [returnModelOverrides, setReturnModelOverrides] = useState<ReturnModelOverrides>(initialProfile.returnModelOverrides);
+  const [currentCape, setCurrentCape] = useState<number | null>(initialProfile.currentCape);
+  const [regimeTransitions, setRegimeTransitions] = useState<number[][] | null>(initialProfile.regimeTransitions);
   const [refreshCounter, setRefreshCounter] = useState(0);
   const [startYear, setStartYear] = useState<number>(initialProfile.startYear);
   const [chartStates, setChartStates] = useState<Record<string, ChartState>>({
     "sp500-trajectory": { minimized: false, title: "Portfolio Trajectory Bands", tab: "sp500", size: 'full' },
+    "sp500-cohorts": { minimized: false, title: "Historical Cohorts", tab: "sp500", size: 'full' },
+    "sp500-safemax": { minimized: false, title: "SAFEMAX by Start Year", tab: "sp500", size: 'full' },
     "sp500-median-trajectory": { minimized: false, title: "Median Sample Run Trajectory", tab: "sp500", size: 'half' },
     "sp500-sample": { minimized: false, title: "Sample Run 1 Trajectory", tab: "sp500", size: 'half' },
     "sp500-sample-2-trajectory": { minimized: false, title: "Sample Run 2 Trajectory", tab: "sp500", size: 'half' },
@@ -142,6 +133,8 @@ export default function App() {
     "sp500-sample-4-trajectory": { minimized: false, title: "Sample Run 4 Trajectory", tab: "sp500", size: 'half' },
     "sp500-sample-5-trajectory": { minimized: false, title: "Sample Run 5 Trajectory", tab: "sp500", size: 'half' },
     "nasdaq100-trajectory": { minimized: false, title: "Portfolio Trajectory Bands", tab: "nasdaq100", size: 'full' },
+    "nasdaq100-cohorts": { minimized: false, title: "Historical Cohorts", tab: "nasdaq100", size: 'full' },
+    "nasdaq100-safemax": { minimized: false, title: "SAFEMAX by Start Year", tab: "nasdaq100", size: 'full' },
     "nasdaq100-median-trajectory": { minimized: false, title: "Median Sample Run Trajectory", tab: "nasdaq100", size: 'half' },
     "nasdaq100-sample": { minimized: false, title: "Sample Run 1 Trajectory", tab: "nasdaq100", size: 'half' },
     "nasdaq100-sample-2-trajectory": { minimized: false, title: "Sample Run 2 Trajectory", tab: "nasdaq100", size: 'half' },
@@ -149,13 +142,23 @@ export default function App() {
     "nasdaq100-sample-4-trajectory": { minimized: false, title: "Sample Run 4 Trajectory", tab: "nasdaq100", size: 'half' },
     "nasdaq100-sample-5-trajectory": { minimized: false, title: "Sample Run 5 Trajectory", tab: "nasdaq100", size: 'half' },
     "portfolio-trajectory": { minimized: false, title: "Portfolio Trajectory Bands", tab: "portfolio", size: 'full' },
+    "portfolio-cohorts": { minimized: false, title: "Historical Cohorts", tab: "portfolio", size: 'full' },
+    "portfolio-safemax": { minimized: false, title: "SAFEMAX by Start Year", tab: "portfolio", size: 'full' },
+    "portfolio-heatmap": { minimized: false, title: "Withdrawal Rate × Allocation", tab: "portfolio", size: 'full' },
     "portfolio-median-asset-allocation": { minimized: false, title: "Median Sample Run Asset Allocation", tab: "portfolio", size: 'half' },
     "portfolio-median-trajectory": { minimized: false, title: "Median Sample Run Trajectory", tab: "portfolio", size: 'half' },
     "portfolio-asset-allocation": { minimized: false, title: "Sample Run 1 Asset Allocation", tab: "portfolio", size: 'half' },
+    "portfolio-median-cash-coverage": { minimized: false, title: "Median Sample Run Cash Coverage", tab: "portfolio", size: 'half' },
+    "portfolio-cash-coverage": { minimized: false, title: "Sample Run 1 Cash Coverage", tab: "portfolio", size: 'half' },
     "drawdown-trajectory": { minimized: false, title: "Portfolio Trajectory Bands", tab: "drawdown", size: 'full' },
+    "drawdown-cohorts": { minimized: false, title: "Historical Cohorts", tab: "drawdown", size: 'full' },
+    "drawdown-safemax": { minimized: false, title: "SAFEMAX by Start Year", tab: "drawdown", size: 'full' },
+    "drawdown-heatmap": { minimized: false, title: "Withdrawal Rate × Allocation", tab: "drawdown", size: 'full' },
     "drawdown-median-asset-allocation": { minimized: false, title: "Median Sample Run Asset Allocation", tab: "drawdown", size: 'half' },
     "drawdown-median-trajectory": { minimized: false, title: "Median Sample Run Trajectory", tab: "drawdown", size: 'half' },
     "drawdown-asset-allocation": { minimized: false, title: "Sample Run 1 Asset Allocation", tab: "drawdown", size: 'half' },
+    "drawdown-median-cash-coverage": { minimized: false, title: "Median Sample Run Cash Coverage", tab: "drawdown", size: 'half' },
+    "drawdown-cash-coverage": { minimized: false, title: "Sample Run 1 Cash Coverage", tab: "drawdown", size: 'half' },
     "portfolio-sample-2-asset-allocation": { minimized: false, title: "Sample Run 2 Asset Allocation", tab: "portfolio", size: 'half' },
     "portfolio-sample-3-asset-allocation": { minimized: false, title: "Sample Run 3 Asset Allocation", tab: "portfolio", size: 'half' },
     "portfolio-sample-4-asset-allocation": { minimized: false, title: "Sample Run 4 Asset Allocation", tab: "portfolio", size: 'half' },
@@ -182,23 +185,37 @@ export default function App() {
       const next = { ...prev };
       const ensure = (id: string, state: ChartState) => { if (!next[id]) next[id] = state; };
       // SP500
+      ensure("sp500-cohorts", { minimized: false, title: "Historical Cohorts", tab: "sp500", size: 'full' });
+      ensure("sp500-safemax", { minimized: false, title: "SAFEMAX by Start Year", tab: "sp500", size: 'full' });
       ensure("sp500-median-trajectory", { minimized: false, title: "Median Sample Run Trajectory", tab: "sp500", size: 'half' });
       [2,3,4,5].forEach(i => ensure(`sp500-sample-${i}-trajectory`, { minimized: false, title: `Sample Run ${i} Trajectory`, tab: 'sp500', size: 'half' }));
       // Nasdaq100
+      ensure("nasdaq100-cohorts", { minimized: false, title: "Historical Cohorts", tab: "nasdaq100", size: 'full' });
+      ensure("nasdaq100-safemax", { minimized: false, title: "SAFEMAX by Start Year", tab: "nasdaq100", size: 'full' });
       ensure("nasdaq100-median-trajectory", { minimized: false, title: "Median Sample Run Trajectory", tab: "nasdaq100", size: 'half' });
       [2,3,4,5].forEach(i => ensure(`nasdaq100-sample-${i}-trajectory`, { minimized: false, title: `Sample Run ${i} Trajectory`, tab: 'nasdaq100', size: 'half' }));
       // Portfolio
+      ensure("portfolio-cohorts", { minimized: false, title: "Historical Cohorts", tab: "portfolio", size: 'full' });
+      ensure("portfolio-safemax", { minimized: false, title: "SAFEMAX by Start Year", tab: "portfolio", size: 'full' });
+      ensure("portfolio-heatmap", { minimized: false, title: "Withdrawal Rate × Allocation", tab: "portfolio", size: 'full' });
       ensure("portfolio-median-trajectory", { minimized: false, title: "Median Sample Run Trajectory", tab: "portfolio", size: 'half' });
       ensure("portfolio-median-asset-allocation", { minimized: false, title: "Median Sample Run Asset Allocation", tab: "portfolio", size: 'half' });
       ensure("portfolio-asset-allocation", { minimized: false, title: "Sample Run 1 Asset Allocation", tab: "portfolio", size: 'half' });
+      ensure("portfolio-median-cash-coverage", { minimized: false, title: "Median Sample Run Cash Coverage", tab: "portfolio", size: 'half' });
+      ensure("portfolio-cash-coverage", { minimized: false, title: "Sample Run 1 Cash Coverage", tab: "portfolio", size: 'half' });
       [2,3,4,5].forEach(i => {
         ensure(`portfolio-sample-${i}-trajectory`, { minimized: false, title: `Sample Run ${i} Trajectory`, tab: 'portfolio', size: 'half' });
         ensure(`portfolio-sample-${i}-asset-allocation`, { minimized: false, title: `Sample Run ${i} Asset Allocation`, tab: 'portfolio', size: 'half' });
       });
       // Drawdown
+      ensure("drawdown-cohorts", { minimized: false, title: "Historical Cohorts", tab: "drawdown", size: 'full' });
+      ensure("drawdown-safemax", { minimized: false, title: "SAFEMAX by Start Year", tab: "drawdown", size: 'full' });
+      ensure("drawdown-heatmap", { minimized: false, title: "Withdrawal Rate × Allocation", tab: "drawdown", size: 'full' });
       ensure("drawdown-median-trajectory", { minimized: false, title: "Median Sample Run Trajectory", tab: "drawdown", size: 'half' });
       ensure("drawdown-median-asset-allocation", { minimized: false, title: "Median Sample Run Asset Allocation", tab: "drawdown", size: 'half' });
       ensure("drawdown-asset-allocation", { minimized: false, title: "Sample Run 1 Asset Allocation", tab: "drawdown", size: 'half' });
+      ensure("drawdown-median-cash-coverage", { minimized: false, title: "Median Sample Run Cash Coverage", tab: "drawdown", size: 'half' });
+      ensure("drawdown-cash-coverage", { minimized: false, title: "Sample Run 1 Cash Coverage", tab: "drawdown", size: 'half' });
       [2,3,4,5].forEach(i => {
         ensure(`drawdown-sample-${i}-trajectory`, { minimized: false, title: `Sample Run ${i} Trajectory`, tab: 'drawdown', size: 'half' });
         ensure(`drawdown-sample-${i}-asset-allocation`, { minimized: false, title: `Sample Run ${i} Asset Allocation`, tab: 'drawdown', size: 'half' });
@@ -210,6 +227,8 @@ export default function App() {
   const [chartOrder, setChartOrder] = useState<Record<string, string[]>>({
     sp500: [
       "sp500-trajectory",
+      "sp500-cohorts",
+      "sp500-safemax",
       "sp500-median-trajectory",
       "sp500-sample",
       "sp500-sample-2-trajectory",
@@ -219,6 +238,8 @@ export default function App() {
     ],
     nasdaq100: [
       "nasdaq100-trajectory",
+      "nasdaq100-cohorts",
+      "nasdaq100-safemax",
       "nasdaq100-median-trajectory",
       "nasdaq100-sample",
       "nasdaq100-sample-2-trajectory",
@@ -227,13 +248,18 @@ export default function App() {
       "nasdaq100-sample-5-trajectory",
     ],
     // Portfolio: Trajectory Bands (full), then all others half-size.
-    // Order: Median Trajectory, Median Asset Allocation, then Sample X Trajectory, Sample X Asset Allocation.
+    // Order: Median Trajectory, Median Asset Allocation, Median Cash Coverage, then Sample X Trajectory, Sample X Asset Allocation.
     portfolio: [
       "portfolio-trajectory",
+      "portfolio-cohorts",
+      "portfolio-safemax",
+      "portfolio-heatmap",
       "portfolio-median-trajectory",
       "portfolio-median-asset-allocation",
+      "portfolio-median-cash-coverage",
       "portfolio-sample",
       "portfolio-asset-allocation",
+      "portfolio-cash-coverage",
       "portfolio-sample-2-trajectory",
       "portfolio-sample-2-asset-allocation",
       "portfolio-sample-3-trajectory",
@@ -246,10 +272,15 @@ export default function App() {
     // Drawdown: same ordering rules as Portfolio.
     drawdown: [
       "drawdown-trajectory",
+      "drawdown-cohorts",
+      "drawdown-safemax",
+      "drawdown-heatmap",
       "drawdown-median-trajectory",
       "drawdown-median-asset-allocation",
+      "drawdown-median-cash-coverage",
       "drawdown-sample",
       "drawdown-asset-allocation",
+      "drawdown-cash-coverage",
       "drawdown-sample-2-trajectory",
       "drawdown-sample-2-asset-allocation",
       "drawdown-sample-3-trajectory",
@@ -286,24 +317,36 @@ export default function App() {
   const handleProfileChange = (p: Profile) => {
     const data = loadProfileData(p);
     setProfile(p);
-    setCash(data.cash);
-    setSpy(data.spy);
-    setQqq(data.qqq);
-    setBitcoin(data.bitcoin);
-    setBonds(data.bonds);
+    setHoldings(data.holdings);
     setStartBalance(data.startBalance);
     setDrawdownStrategy(data.drawdownStrategy);
     setDrawdownWithdrawalStrategy(data.drawdownWithdrawalStrategy);
+    setWithdrawalRuleParams(data.withdrawalRuleParams);
+    setCashRefill(data.cashRefill);
+    setThreeBucket(data.threeBucket);
+    setRebalance(data.rebalance);
+    setTaxes(data.taxes);
+    setCashYield(data.cashYield);
+    setBitcoinBackfill(data.bitcoinBackfill);
     setHorizon(data.horizon);
+    setStartAge(data.startAge);
+    setIncomeStreams(data.incomeStreams);
+    setCashFlows(data.cashFlows);
     setWithdrawRate(data.withdrawRate);
     setInitialWithdrawalAmount(data.initialWithdrawalAmount);
     setIsInitialAmountLocked(data.isFirstWithdrawLocked);
     setInflationAdjust(data.inflationAdjust);
     setInflationRate(data.inflationRate);
     setUseHistoricalInflation(data.useHistoricalInflation);
+    setDecorrelateInflation(data.decorrelateInflation);
+    setCompleteCohorts(data.completeCohorts);
     setMode(data.mode);
     setNumRuns(data.numRuns);
     setSeed(data.seed);
+    setBlockLength(data.blockLength);
+    setReturnModelOverrides(data.returnModelOverrides);
+    setCurrentCape(data.currentCape);
+    setRegimeTransitions(data.regimeTransitions);
     setStartYear(data.startYear);
     localStorage.setItem("activeProfile", p);
   };
@@ -311,24 +354,22 @@ export default function App() {
   const handleParamChange = (param: string, value: unknown) => {
     switch (param) {
       case 'startBalance': setStartBalance(parseFloat(value as string)); break;
-      case 'cash': setCash(parseFloat(value as string)); break;
-      case 'spy': setSpy(parseFloat(value as string)); break;
-      case 'qqq': setQqq(parseFloat(value as string)); break;
-      case 'bitcoin': setBitcoin(parseFloat(value as string)); break;
-      case 'bonds': setBonds(parseFloat(value as string)); break;
       case 'allocation':
-        if (typeof value === 'object' && value !== null) {
-          const allocation = value as { cash: number; spy: number; qqq: number; bitcoin: number; bonds: number };
-          setCash(allocation.cash);
-          setSpy(allocation.spy);
-          setQqq(allocation.qqq);
-          setBitcoin(allocation.bitcoin);
-          setBonds(allocation.bonds);
-        }
+        if (typeof value === 'object' && value !== null) setHoldings(value as AssetHoldings);
         break;
       case 'drawdownStrategy': setDrawdownStrategy(value as DrawdownStrategy); break;
       case 'drawdownWithdrawalStrategy': setDrawdownWithdrawalStrategy(value as DrawdownStrategies); break;
+      case 'withdrawalRuleParams': setWithdrawalRuleParams(value as WithdrawalRuleParams); break;
+      case 'cashRefill': setCashRefill(value as CashRefillOptions); break;
+      case 'threeBucket': setThreeBucket(value as ThreeBucketOptions); break;
+      case 'rebalance': setRebalance(value as RebalanceOptions); break;
+      case 'taxes': setTaxes(value as TaxOptions); break;
+      case 'cashYield': setCashYield(value as CashYieldOptions); break;
+      case 'bitcoinBackfill': setBitcoinBackfill(value as BitcoinBackfillOptions); break;
       case 'horizon': setHorizon(parseFloat(value as string)); break;
+      case 'startAge': setStartAge(value as number); break;
+      case 'incomeStreams': setIncomeStreams(value as IncomeStream[]); break;
+      case 'cashFlows': setCashFlows(value as CashFlowEvent[]); break;
       case 'withdrawRate': {
         const newRate = round2(parseFloat(value as string));
         setWithdrawRate(newRate);
@@ -347,9 +388,15 @@ export default function App() {
       case 'inflationAdjust': setInflationAdjust(value as boolean); break;
       case 'inflationRate': setInflationRate(parseFloat(value as string)); break;
       case 'useHistoricalInflation': setUseHistoricalInflation(value as boolean); break;
-      case 'mode': setMode(value as "actual-seq" | "actual-seq-random-start" | "random-shuffle" | "bootstrap"); break;
+      case 'decorrelateInflation': setDecorrelateInflation(value as boolean); break;
+      case 'completeCohorts': setCompleteCohorts(value as boolean); break;
+      case 'mode': setMode(value as SimulationMode); break;
       case 'numRuns': setNumRuns(parseFloat(value as string)); break;
       case 'seed': setSeed(value === "" ? "" : parseFloat(value as string)); break;
+      case 'blockLength': setBlockLength(parseFloat(value as string)); break;
+      case 'returnModelOverrides': setReturnModelOverrides(value as ReturnModelOverrides); break;
+      case 'currentCape': setCurrentCape(value === null ? null : parseFloat(value as string)); break;
+      case 'regimeTransitions': setRegimeTransitions(value as number[][] | null); break;
       case 'startYear': setStartYear(parseFloat(value as string)); break;
     }
   };
@@ -357,28 +404,40 @@ export default function App() {
   useEffect(() => {
     const data = {
       startBalance,
-      cash,
-      spy,
-      qqq,
-      bitcoin,
-      bonds,
+      holdings,
       drawdownStrategy,
       drawdownWithdrawalStrategy,
+      withdrawalRuleParams,
+      cashRefill,
+      threeBucket,
+      rebalance,
+      taxes,
+      cashYield,
+      bitcoinBackfill,
       horizon,
+      startAge,
+      incomeStreams,
+      cashFlows,
       withdrawRate,
       initialWithdrawalAmount,
       isFirstWithdrawLocked,
       inflationAdjust,
       inflationRate,
       useHistoricalInflation,
+      decorrelateInflation,
+      completeCohorts,
       mode,
       numRuns,
       seed,
+      blockLength,
+      returnModelOverrides,
+      currentCape,
+      regimeTransitions,
       startYear,
     };
     localStorage.setItem(`profile_${profile}`, JSON.stringify(data));
     localStorage.setItem("activeProfile", profile);
-  }, [profile, startBalance, cash, spy, qqq, bitcoin, bonds, drawdownStrategy, drawdownWithdrawalStrategy, horizon, withdrawRate, initialWithdrawalAmount, isFirstWithdrawLocked, inflationAdjust, inflationRate, useHistoricalInflation, mode, numRuns, seed, startYear]);
+  }, [profile, startBalance, holdings, drawdownStrategy, drawdownWithdrawalStrategy, withdrawalRuleParams, cashRefill, threeBucket, rebalance, taxes, cashYield, bitcoinBackfill, horizon, startAge, incomeStreams, cashFlows, withdrawRate, initialWithdrawalAmount, isFirstWithdrawLocked, inflationAdjust, inflationRate, useHistoricalInflation, decorrelateInflation, completeCohorts, mode, numRuns, seed, blockLength, returnModelOverrides, currentCape, regimeTransitions, startYear]);
 
   const activeStartBalance = (activeTab === 'sp500' || activeTab === 'nasdaq100')
     ? startBalance
@@ -428,15 +487,24 @@ export default function App() {
           <SPTab
             startBalance={startBalance}
             horizon={horizon}
+            startAge={startAge}
+            incomeStreams={incomeStreams}
+            cashFlows={cashFlows}
             withdrawRate={withdrawRate}
             initialWithdrawalAmount={initialWithdrawalAmount}
             isInitialAmountLocked={isFirstWithdrawLocked}
             inflationAdjust={inflationAdjust}
             inflationRate={inflationRate}
             useHistoricalInflation={useHistoricalInflation}
+            decorrelateInflation={decorrelateInflation}
+            completeCohorts={completeCohorts}
             mode={mode}
             numRuns={numRuns}
             seed={seed}
+            blockLength={blockLength}
+            returnModelOverrides={returnModelOverrides}
+            currentCape={currentCape}
+            regimeTransitions={regimeTransitions}
             startYear={startYear}
             onRefresh={handleRefresh}
             onParamChange={handleParamChange}
@@ -454,15 +522,24 @@ export default function App() {
           <Nasdaq100Tab
             startBalance={startBalance}
             horizon={horizon}
+            startAge={startAge}
+            incomeStreams={incomeStreams}
+            cashFlows={cashFlows}
             withdrawRate={withdrawRate}
             initialWithdrawalAmount={initialWithdrawalAmount}
             isInitialAmountLocked={isFirstWithdrawLocked}
             inflationAdjust={inflationAdjust}
             inflationRate={inflationRate}
             useHistoricalInflation={useHistoricalInflation}
+            decorrelateInflation={decorrelateInflation}
+            completeCohorts={completeCohorts}
             mode={mode}
             numRuns={numRuns}
             seed={seed}
+            blockLength={blockLength}
+            returnModelOverrides={returnModelOverrides}
+            currentCape={currentCape}
+            regimeTransitions={regimeTransitions}
             startYear={startYear}
             onRefresh={handleRefresh}
             onParamChange={handleParamChange}
@@ -479,22 +556,35 @@ export default function App() {
         {activeTab === 'portfolio' && (
           <PortfolioTab
             startBalance={portfolioStartBalance}
-            cash={cash}
-            spy={spy}
-            qqq={qqq}
-            bitcoin={bitcoin}
-            bonds={bonds}
+            holdings={holdings}
             drawdownStrategy={drawdownStrategy}
+            drawdownWithdrawalStrategy={drawdownWithdrawalStrategy}
+            withdrawalRuleParams={withdrawalRuleParams}
+            cashRefill={cashRefill}
+            threeBucket={threeBucket}
+            rebalance={rebalance}
+            taxes={taxes}
+            cashYield={cashYield}
+            bitcoinBackfill={bitcoinBackfill}
             horizon={horizon}
+            startAge={startAge}
+            incomeStreams={incomeStreams}
+            cashFlows={cashFlows}
             withdrawRate={withdrawRate}
             initialWithdrawalAmount={initialWithdrawalAmount}
             isInitialAmountLocked={isFirstWithdrawLocked}
             inflationAdjust={inflationAdjust}
             inflationRate={inflationRate}
             useHistoricalInflation={useHistoricalInflation}
+            decorrelateInflation={decorrelateInflation}
+            completeCohorts={completeCohorts}
             mode={mode}
             numRuns={numRuns}
             seed={seed}
+            blockLength={blockLength}
+            returnModelOverrides={returnModelOverrides}
+            currentCape={currentCape}
+            regimeTransitions={regimeTransitions}
             startYear={startYear}
             onRefresh={handleRefresh}
             onParamChange={handleParamChange}
@@ -511,22 +601,35 @@ export default function App() {
         {activeTab === 'drawdown' && (
           <DrawdownTab
             drawdownWithdrawalStrategy={drawdownWithdrawalStrategy}
+            withdrawalRuleParams={withdrawalRuleParams}
+            drawdownStrategy={drawdownStrategy}
+            cashRefill={cashRefill}
+            threeBucket={threeBucket}
+            rebalance={rebalance}
+            taxes={taxes}
+            cashYield={cashYield}
+            bitcoinBackfill={bitcoinBackfill}
             startBalance={portfolioStartBalance}
-            cash={cash}
-            spy={spy}
-            qqq={qqq}
-            bitcoin={bitcoin}
-            bonds={bonds}
+            holdings={holdings}
             horizon={horizon}
+            startAge={startAge}
+            incomeStreams={incomeStreams}
+            cashFlows={cashFlows}
             withdrawRate={withdrawRate}
             initialWithdrawalAmount={initialWithdrawalAmount}
             isInitialAmountLocked={isFirstWithdrawLocked}
             inflationAdjust={inflationAdjust}
             inflationRate={inflationRate}
             useHistoricalInflation={useHistoricalInflation}
+            decorrelateInflation={decorrelateInflation}
+            completeCohorts={completeCohorts}
             mode={mode}
             numRuns={numRuns}
             seed={seed}
+            blockLength={blockLength}
+            returnModelOverrides={returnModelOverrides}
+            currentCape={currentCape}
+            regimeTransitions={regimeTransitions}
             startYear={startYear}
             onRefresh={handleRefresh}
             onParamChange={handleParamChange}
@@ -539,7 +642,7 @@ export default function App() {
             onReorderChartOrder={(order) => setChartOrder(prev => ({ ...prev, drawdown: order }))}
           />
         )}
-        {activeTab === 'data' && <DataTab />}
+        {activeTab === 'data' && <DataTab cashYield={cashYield} bitcoinBackfill={bitcoinBackfill} />}
         </div>
       </div>
     </div>
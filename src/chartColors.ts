@@ -3,7 +3,7 @@ export interface ChartColorClasses {
   chip: string;
 }
 
-const categories: Record<'trajectory' | 'trajectory-bands' | 'asset-allocation', ChartColorClasses> = {
+const categories: Record<'trajectory' | 'trajectory-bands' | 'asset-allocation' | 'cash-coverage', ChartColorClasses> = {
   trajectory: {
     chart: 'border-blue-400 dark:border-blue-600',
     chip: 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200',
@@ -16,10 +16,15 @@ const categories: Record<'trajectory' | 'trajectory-bands' | 'asset-allocation',
     chart: 'border-green-400 dark:border-green-600',
     chip: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200',
   },
+  'cash-coverage': {
+    chart: 'border-amber-400 dark:border-amber-600',
+    chip: 'bg-amber-100 dark:bg-amber-900 text-amber-800 dark:text-amber-200',
+  },
 };
 
 export function getChartColor(id: string): ChartColorClasses {
   if (id.includes('asset-allocation')) return categories['asset-allocation'];
+  if (id.includes('cash-coverage')) return categories['cash-coverage'];
   if (id.endsWith('-trajectory') && !id.includes('sample') && !id.includes('median')) {
     return categories['trajectory-bands'];
   }
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from "react";
+import type { AssetHoldings } from "../lib/simulation";
+import type { SimulationJob } from "../lib/simulationJob";
+import { assetRole, holdingsTotal, investedAssets } from "../lib/assets";
+import { SWEEP_CASH_SHARES, SWEEP_EQUITY_SHARES, SWEEP_RATES, summarizeCell, sweepCells, type SweepSummary } from "../lib/sweep";
+import { useJobSummaries } from "../hooks/useSimulation";
+import SimulationProgress from "./SimulationProgress";
+
+interface AllocationHeatmapProps {
+  job: SimulationJob;
+  withdrawRate: number; // current inputs, outlined on the grid
+  allocation: AssetHoldings;
+  onSelect: (withdrawRate: number, allocation: AssetHoldings) => void;
+}
+
+type Metric = "successRate" | "medianEndingBalance";
+
+const compact = new Intl.NumberFormat(undefined, { style: "currency", currency: "USD", notation: "compact", maximumFractionDigits: 1 });
+
+// Red for poor cells through amber to green for strong ones.
+function cellColor(summary: SweepSummary | undefined, metric: Metric, startBalance: number): string {
+  if (!summary) return "transparent";
+  const score = metric === "successRate"
+    ? summary.successRate
+    : Math.min(1, Math.max(0, startBalance > 0 ? summary.medianEndingBalance / startBalance / 2 : 0));
+  return `hsl(${Math.round(score * 120)}, 70%, 45%)`;
+}
+
+// Invested amounts split into the bond side and everything else.
+const sides = (a: AssetHoldings) => {
+  const invested = investedAssets(a);
+  const bonds = invested.filter(id => assetRole(id) === "bond").reduce((s, id) => s + a[id], 0);
+  return { equity: invested.reduce((s, id) => s + a[id], 0) - bonds, bonds };
+};
+
+const mixLabel = (a: AssetHoldings) => {
+  const total = holdingsTotal(a);
+  const { equity, bonds } = sides(a);
+  const pct = (v: number) => `${total > 0 ? Math.round((v / total) * 100) : 0}%`;
+  return `Equity ${pct(equity)} · Bonds ${pct(bonds)} · Cash ${pct(a.cash ?? 0)}`;
+};
+
+/**
+ * Success rate or median ending balance across withdrawal rates and
+ * equity/bond mixes, at the current cash or a chosen cash share. Click a
+ * cell to load its rate and all of its holdings.
+ */
+const AllocationHeatmap: React.FC<AllocationHeatmapProps> = ({ job, withdrawRate, allocation, onSelect }) => {
+  const [metric, setMetric] = useState<Metric>("successRate");
+  const [cashShare, setCashShare] = useState<number | null>(null); // null keeps the current cash amount
+  const cells = useMemo(() => sweepCells(job, SWEEP_RATES, SWEEP_EQUITY_SHARES, cashShare ?? undefined), [job, cashShare]);
+  const jobs = useMemo(() => cells.map(c => c.job), [cells]);
+  const { summaries, progress } = useJobSummaries(jobs, summarizeCell);
+  const { startBalance } = job.withdrawal.settings;
+
+  const { equity, bonds } = sides(allocation);
+  const equityShare = equity + bonds > 0 ? equity / (equity + bonds) : 0;
+  const total = holdingsTotal(allocation);
+  const currentCashShare = total > 0 ? (allocation.cash ?? 0) / total : 0;
+  const isCurrent = (rate: number, share: number) =>
+    Math.abs(rate - withdrawRate) < 0.25 && Math.abs(share - equityShare) < 0.05 && (cashShare === null || Math.abs(cashShare - currentCashShare) < 0.025);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div className="text-slate-600 dark:text-slate-400">
+          Every cell runs the same {job.yearSamples.length} return paths.{" "}
+          {cashShare === null ? `Cash stays at ${compact.format(allocation.cash ?? 0)}.` : `Cash is ${Math.round(cashShare * 100)}% of the portfolio.`}
+        </div>
+        <div className="flex gap-2">
+          <select
+            className="border rounded-xl p-1 bg-white dark:bg-slate-700 dark:border-slate-600"
+            value={cashShare ?? ""}
+            onChange={e => setCashShare(e.target.value === "" ? null : Number(e.target.value))}
+            aria-label="Heatmap cash share"
+          >
+            <option value="">Cash as now ({Math.round(currentCashShare * 100)}%)</option>
+            {SWEEP_CASH_SHARES.map(share => <option key={share} value={share}>Cash {Math.round(share * 100)}%</option>)}
+          </select>
+          <select
+            className="border rounded-xl p-1 bg-white dark:bg-slate-700 dark:border-slate-600"
+            value={metric}
+            onChange={e => setMetric(e.target.value as Metric)}
+            aria-label="Heatmap metric"
+          >
+            <option value="successRate">Success rate</option>
+            <option value="medianEndingBalance">Median ending balance</option>
+          </select>
+        </div>
+      </div>
+      {progress < 1 && <SimulationProgress progress={progress} />}
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs border-separate border-spacing-px">
+          <thead>
+            <tr>
+              <th className="px-2 py-1 text-left">Mix \ First withdrawal</th>
+              {SWEEP_RATES.map(rate => <th key={rate} className="px-2 py-1">{rate.toFixed(1)}%</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {SWEEP_EQUITY_SHARES.map((share, row) => (
+              <tr key={share}>
+                <th className="px-2 py-1 text-left font-normal whitespace-nowrap">{mixLabel(cells[row * SWEEP_RATES.length].allocation)}</th>
+                {SWEEP_RATES.map((rate, col) => {
+                  const index = row * SWEEP_RATES.length + col;
+                  const summary = summaries[index];
+                  const text = !summary ? "…" : metric === "successRate" ? `${Math.round(summary.successRate * 100)}%` : compact.format(summary.medianEndingBalance);
+                  return (
+                    <td key={rate} className="p-0">
+                      <button
+                        className={`w-full px-2 py-1 font-semibold rounded ${summary ? "text-white" : "text-slate-500"} ${isCurrent(rate, share) ? "ring-2 ring-slate-800 dark:ring-slate-200" : ""}`}
+                        style={{ backgroundColor: cellColor(summary, metric, startBalance) }}
+                        title={`${rate}% · ${mixLabel(cells[index].allocation)}`}
+                        onClick={() => onSelect(rate, cells[index].allocation)}
+                      >
+                        {text}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AllocationHeatmap;
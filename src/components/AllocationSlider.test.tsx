@@ -7,11 +7,7 @@ describe('AllocationSlider', () => {
     const onParamChange = vi.fn();
     render(
       <AllocationSlider
-        cash={25000}
-        spy={25000}
-        qqq={25000}
-        bitcoin={25000}
-        bonds={25000}
+        holdings={{ cash: 25000, spy: 25000, qqq: 25000, bitcoin: 25000, bonds: 25000 }}
         onParamChange={onParamChange}
       />
     );
@@ -1,49 +1,34 @@
 import React from 'react';
 import Slider from 'rc-slider';
 import 'rc-slider/assets/index.css';
+import type { AssetHoldings } from '../lib/simulation';
+import { assetsOf, holdingsTotal } from '../lib/assets';
+import { useAssetClasses } from '../data/DataContext';
 
 interface AllocationSliderProps {
-  cash: number;
-  spy: number;
-  qqq: number;
-  bitcoin: number;
-  bonds: number;
+  holdings: AssetHoldings;
   onParamChange: (param: string, value: unknown) => void;
 }
 
-const AllocationSlider: React.FC<AllocationSliderProps> = ({ cash, spy, qqq, bitcoin, bonds, onParamChange }) => {
-  const total = cash + spy + qqq + bitcoin + bonds;
+// One segment per held asset class, in registry order; the last one is the rail behind the handles.
+const AllocationSlider: React.FC<AllocationSliderProps> = ({ holdings, onParamChange }) => {
+  const { lookup } = useAssetClasses();
+  const assets = assetsOf(holdings);
+  const total = holdingsTotal(holdings);
 
   const handleChange = (newValues: number | number[]) => {
-    if (Array.isArray(newValues) && newValues.length === 5) {
-      const cashPct = newValues[1];
-      const spyPct = newValues[2] - newValues[1];
-      const qqqPct = newValues[3] - newValues[2];
-      const bitcoinPct = newValues[4] - newValues[3];
-
-      onParamChange('allocation', {
-        cash: total * (cashPct / 100),
-        spy: total * (spyPct / 100),
-        qqq: total * (qqqPct / 100),
-        bitcoin: total * (bitcoinPct / 100),
-        bonds: total * ((100 - newValues[4]) / 100),
-      });
+    if (Array.isArray(newValues) && newValues.length === assets.length) {
+      const bounds = [...newValues, 100];
+      onParamChange('allocation', Object.fromEntries(assets.map((a, i) => [a, total * ((bounds[i + 1] - bounds[i]) / 100)])));
     }
   };
 
-  const cashPct = total > 0 ? (cash / total) * 100 : 0;
-  const spyPct = total > 0 ? (spy / total) * 100 : 0;
-  const qqqPct = total > 0 ? (qqq / total) * 100 : 0;
-  const bitcoinPct = total > 0 ? (bitcoin / total) * 100 : 0;
-  const bondsPct = 100 - cashPct - spyPct - qqqPct - bitcoinPct;
+  const pcts = assets.map(a => (total > 0 ? (holdings[a] / total) * 100 : 0));
+  // Left edge of every segment; the first is pinned at 0 by a hidden handle
+  const sliderValues = pcts.slice(0, -1).reduce((edges, pct) => [...edges, edges[edges.length - 1] + pct], [0]);
+  const colors = assets.map(a => lookup(a).color);
 
-  const sliderValues = [
-    0,
-    cashPct,
-    cashPct + spyPct,
-    cashPct + spyPct + qqqPct,
-    cashPct + spyPct + qqqPct + bitcoinPct,
-  ];
+  if (assets.length === 0) return null;
 
   return (
     <div className="space-y-2">
@@ -53,41 +38,20 @@ const AllocationSlider: React.FC<AllocationSliderProps> = ({ cash, spy, qqq, bit
         max={100}
         value={sliderValues}
         onChange={handleChange}
-        trackStyle={[
-          { backgroundColor: '#8884d8' }, // Cash
-          { backgroundColor: '#82ca9d' }, // SPY
-          { backgroundColor: '#ff7f7f' }, // QQQ
-          { backgroundColor: '#f2a900' }  // Bitcoin
-        ]}
+        trackStyle={colors.slice(0, -1).map(backgroundColor => ({ backgroundColor }))}
         handleStyle={[
-            { display: 'none' }, // Handle at 0
-            { backgroundColor: '#8884d8', border: '2px solid white', boxShadow: '0 0 0 2px #6f6af2' },
-            { backgroundColor: '#82ca9d', border: '2px solid white', boxShadow: '0 0 0 2px #6ac189' },
-            { backgroundColor: '#ff7f7f', border: '2px solid white', boxShadow: '0 0 0 2px #e56767' },
-            { backgroundColor: '#f2a900', border: '2px solid white', boxShadow: '0 0 0 2px #d18e00' }]}
-        railStyle={{ backgroundColor: '#95a5a6' }} // Bonds
+          { display: 'none' }, // Handle at 0
+          ...colors.slice(0, -1).map(color => ({ backgroundColor: color, border: '2px solid white', boxShadow: `0 0 0 2px ${color}` })),
+        ]}
+        railStyle={{ backgroundColor: colors[colors.length - 1] }}
       />
-      <div className="flex justify-between text-xs text-slate-600 dark:text-slate-400">
-        <div className="flex items-center space-x-1">
-          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: '#8884d8' }}></div>
-          <span>Cash ({cashPct.toFixed(1)}%)</span>
-        </div>
-        <div className="flex items-center space-x-1">
-          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: '#82ca9d' }}></div>
-          <span>SPY ({spyPct.toFixed(1)}%)</span>
-        </div>
-        <div className="flex items-center space-x-1">
-          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: '#ff7f7f' }}></div>
-          <span>QQQ ({qqqPct.toFixed(1)}%)</span>
-        </div>
-        <div className="flex items-center space-x-1">
-          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: '#f2a900' }}></div>
-          <span>Bitcoin ({bitcoinPct.toFixed(1)}%)</span>
-        </div>
-        <div className="flex items-center space-x-1">
-          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: '#95a5a6' }}></div>
-          <span>Bonds ({bondsPct.toFixed(1)}%)</span>
-        </div>
+      <div className="flex flex-wrap justify-between gap-x-3 gap-y-1 text-xs text-slate-600 dark:text-slate-400">
+        {assets.map((a, i) => (
+          <div key={a} className="flex items-center space-x-1">
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: colors[i] }}></div>
+            <span>{lookup(a).short} ({(i === assets.length - 1 ? 100 - pcts.slice(0, -1).reduce((s, p) => s + p, 0) : pcts[i]).toFixed(1)}%)</span>
+          </div>
+        ))}
       </div>
     </div>
   );
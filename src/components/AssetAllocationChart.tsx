@@ -0,0 +1,69 @@
+import React, { useMemo } from "react";
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, CartesianGrid, ReferenceLine } from "recharts";
+import type { AssetHoldings } from "../lib/simulation";
+import { assetsOf, holdingsTotal } from "../lib/assets";
+import { useAssetClasses } from "../data/DataContext";
+
+interface AssetAllocationChartProps {
+  run: { balances: AssetHoldings[]; turnover?: number[] };
+  currency: Intl.NumberFormat;
+  target?: AssetHoldings; // target weights, drawn as guide lines when rebalancing
+}
+
+// Year-end holdings plus the year and the turnover behind them.
+interface AllocationPoint {
+  year: number;
+  turnover?: number;
+  holdings: AssetHoldings;
+}
+
+// Stacked share of each asset per year. Turnover is the rebalancing trade that produced that year-end mix.
+const AssetAllocationChart: React.FC<AssetAllocationChartProps> = ({ run, currency, target }) => {
+  const { lookup } = useAssetClasses();
+  const assets = useMemo(() => (run.balances.length > 0 ? assetsOf(run.balances[0]) : []), [run]);
+  const data: AllocationPoint[] = useMemo(() => run.balances.map((b, i) => ({
+    year: i,
+    holdings: Object.fromEntries(assets.map(a => [a, b[a]])),
+    turnover: i > 0 ? run.turnover?.[i - 1] : undefined,
+  })), [run, assets]);
+
+  // Boundaries between stacked areas at the target weights
+  const targetLines = useMemo(() => {
+    if (!target) return [];
+    let cumulative = 0;
+    return assets.slice(0, -1).map(k => (cumulative += target[k] ?? 0)).filter(v => v > 0.001 && v < 0.999);
+  }, [target, assets]);
+
+  return (
+    <div className="h-72">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={data} stackOffset="expand" margin={{ left: 32, right: 8, top: 8, bottom: 8 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="year" />
+          <YAxis tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} />
+          <Tooltip
+            formatter={(value: number, _: string, props: { payload?: AllocationPoint }) => {
+              const total = props.payload ? holdingsTotal(props.payload.holdings) : 0;
+              const pct = total === 0 ? 0 : (value / total) * 100;
+              return `${currency.format(value)} (${pct.toFixed(1)}%)`;
+            }}
+            labelFormatter={(year, payload) => {
+              const turnover = (payload?.[0]?.payload as AllocationPoint | undefined)?.turnover;
+              return turnover ? `Year ${year} · turnover ${(turnover * 100).toFixed(1)}%` : `Year ${year}`;
+            }}
+          />
+          <Legend />
+          {assets.map(a => {
+            const { short, color } = lookup(a);
+            return <Area key={a} type="monotone" dataKey={`holdings.${a}`} name={short} stackId="1" stroke={color} fill={color} />;
+          })}
+          {targetLines.map(y => (
+            <ReferenceLine key={y} y={y} stroke="#334155" strokeDasharray="4 4" />
+          ))}
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default AssetAllocationChart;
@@ -0,0 +1,60 @@
+import React from "react";
+import type { BitcoinBackfillMethod, BitcoinBackfillOptions } from "../lib/bitcoin";
+import NumericInput from "./NumericInput";
+
+interface BitcoinBackfillSettingsProps {
+  backfill: BitcoinBackfillOptions;
+  firstYear: number | null; // first year of Bitcoin data
+  onChange: (value: BitcoinBackfillOptions) => void;
+}
+
+const inputClass = "mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600";
+
+// How Bitcoin is modelled in the historical years before its price record.
+const BitcoinBackfillSettings: React.FC<BitcoinBackfillSettingsProps> = ({ backfill, firstYear, onChange }) => {
+  const update = (patch: Partial<BitcoinBackfillOptions>) => onChange({ ...backfill, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm">Bitcoin before {firstYear ?? "its data"}
+        <select
+          className={inputClass}
+          value={backfill.method}
+          onChange={e => update({ method: e.target.value as BitcoinBackfillMethod })}
+        >
+          <option value="cash">Treat as cash</option>
+          <option value="expected">Expected return and volatility</option>
+          <option value="haircut">Bitcoin's average return, haircut each year further back</option>
+          <option value="exclude">Leave those years out</option>
+        </select>
+      </label>
+      {backfill.method === "expected" && (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="block text-sm">Expected return (%)
+            <NumericInput className={inputClass} value={backfill.expectedPct} step={1} onChange={v => update({ expectedPct: v })} />
+          </label>
+          <label className="block text-sm">Volatility (%)
+            <NumericInput className={inputClass} value={backfill.volatilityPct} step={5} min={0} onChange={v => update({ volatilityPct: Math.max(0, v) })} />
+          </label>
+        </div>
+      )}
+      {backfill.method === "haircut" && (
+        <label className="block text-sm">Haircut per year back (% of the excess over cash)
+          <NumericInput
+            className={inputClass}
+            value={backfill.haircutPct}
+            step={5}
+            min={0}
+            max={100}
+            onChange={v => update({ haircutPct: Math.min(100, Math.max(0, v)) })}
+          />
+        </label>
+      )}
+      {backfill.method === "exclude" && (
+        <div className="text-xs text-slate-500">Runs only use years with Bitcoin data while Bitcoin is held.</div>
+      )}
+    </div>
+  );
+};
+
+export default BitcoinBackfillSettings;
@@ -0,0 +1,47 @@
+import React from "react";
+import NumericInput from "./NumericInput";
+import { CAPE_SIMILARITY, noComparableStartYears } from "../lib/capeConditioning";
+
+interface CapeConditionSettingsProps {
+  currentCape: number | null; // null follows the latest CAPE on record
+  latest: { year: number; cape: number } | null;
+  startYears: number[]; // the similar start years runs are drawn from
+  horizon: number;
+  onChange: (currentCape: number | null) => void;
+}
+
+// Current-valuation input for the CAPE-conditioned mode, with the start years it selects.
+const CapeConditionSettings: React.FC<CapeConditionSettingsProps> = ({ currentCape, latest, startYears, horizon, onChange }) => (
+  <div className="space-y-1 text-sm">
+    <label className="block">Current CAPE
+      <div className="mt-1 flex items-center gap-2">
+        <NumericInput
+          className="w-24 border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
+          value={currentCape ?? latest?.cape ?? 0}
+          step={1}
+          min={1}
+          precision={1}
+          onChange={onChange}
+        />
+        {latest && currentCape !== null && (
+          <button className="text-xs text-blue-600 dark:text-blue-400 underline" onClick={() => onChange(null)}>
+            Use latest ({latest.cape.toFixed(1)}, {latest.year})
+          </button>
+        )}
+      </div>
+    </label>
+    {startYears.length === 0 ? (
+      <div className="text-xs text-amber-700 dark:text-amber-400">{noComparableStartYears(horizon)}</div>
+    ) : (
+      <div className="text-xs text-slate-500">
+        Runs start in one of {startYears.length} year{startYears.length !== 1 ? "s" : ""} with a CAPE within ±{CAPE_SIMILARITY * 100}% of the current one and {horizon} years of history after it: {startYears.join(", ")}
+      </div>
+    )}
+    <div className="text-xs text-slate-500">
+      Runs replay what followed a similar start year instead of shifting returns by a regression of forward 10-year returns on CAPE:
+      every path actually happened, and a regression fitted to the few independent decades on record is too uncertain to lean on.
+    </div>
+  </div>
+);
+
+export default CapeConditionSettings;
@@ -0,0 +1,33 @@
+import React, { useMemo } from "react";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, CartesianGrid, ReferenceLine } from "recharts";
+import { cashCoverageYears } from "../lib/buckets";
+import type { AssetHoldings } from "../lib/simulation";
+
+interface CashCoverageChartProps {
+  run: { balances: AssetHoldings[]; withdrawals: number[] };
+  targetYears?: number;
+}
+
+// Years of spending held in cash at each year end, with the refill target as a guide line.
+const CashCoverageChart: React.FC<CashCoverageChartProps> = ({ run, targetYears }) => {
+  const data = useMemo(() => cashCoverageYears(run).map((coverage, year) => ({ year, coverage })), [run]);
+  return (
+    <div className="h-72">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="year" />
+          <YAxis tickFormatter={(v: number) => `${v.toFixed(1)}y`} />
+          <Tooltip formatter={(value: number) => [`${value.toFixed(2)} years`, "Cash coverage"]} />
+          <Legend />
+          <Line type="stepAfter" dataKey="coverage" name="Cash coverage (years)" dot={false} strokeWidth={2} stroke="#8884d8" />
+          {targetYears !== undefined && targetYears > 0 && (
+            <ReferenceLine y={targetYears} stroke="#82ca9d" strokeDasharray="4 4" label={{ value: "Target", position: "insideTopRight" }} />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default CashCoverageChart;
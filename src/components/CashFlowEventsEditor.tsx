@@ -0,0 +1,84 @@
+import React from "react";
+import { newCashFlowEvent, type CashFlowEvent, type CashFlowKind } from "../lib/cashFlows";
+import CurrencyInput from "./CurrencyInput";
+import NumericInput from "./NumericInput";
+
+interface CashFlowEventsEditorProps {
+  events: CashFlowEvent[];
+  horizon: number;
+  onChange: (events: CashFlowEvent[]) => void;
+}
+
+const inputClass = "mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600";
+
+// Lumpy expenses and windfalls, such as a new roof, college tuition, an inheritance or downsizing a home.
+const CashFlowEventsEditor: React.FC<CashFlowEventsEditorProps> = ({ events, horizon, onChange }) => {
+  const update = (id: string, patch: Partial<CashFlowEvent>) => onChange(events.map(e => (e.id === id ? { ...e, ...patch } : e)));
+
+  return (
+    <div className="space-y-3">
+      {events.map(e => (
+        <div key={e.id} className="space-y-2 rounded-xl border p-3 dark:border-slate-600">
+          <div className="flex items-center gap-2">
+            <input className="flex-1 border rounded-xl p-1 bg-white dark:bg-slate-700 dark:border-slate-600 text-sm font-semibold" value={e.name} onChange={ev => update(e.id, { name: ev.target.value })} aria-label="Name" />
+            <button
+              className="px-2 py-1 text-sm rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700"
+              onClick={() => onChange(events.filter(f => f.id !== e.id))}
+              aria-label={`Remove ${e.name}`}
+              title={`Remove ${e.name}`}
+            >
+              ✕
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <label className="block text-sm flex-1">Type
+              <select className={inputClass} value={e.kind} onChange={ev => update(e.id, { kind: ev.target.value as CashFlowKind })}>
+                <option value="expense">Expense</option>
+                <option value="windfall">Windfall</option>
+              </select>
+            </label>
+            <label className="block text-sm flex-1">Amount a year
+              <CurrencyInput className={inputClass} value={e.amount} step={1000} onChange={v => update(e.id, { amount: Math.max(0, v) })} />
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <label className="block text-sm flex-1">In year
+              <NumericInput
+                className={inputClass}
+                value={e.year}
+                step={1}
+                min={0}
+                max={Math.max(0, horizon - 1)}
+                onChange={(v) => update(e.id, { year: Math.max(0, Math.round(v)) })}
+              />
+            </label>
+            <label className="block text-sm flex-1">For (years)
+              <NumericInput
+                className={inputClass}
+                value={e.count}
+                step={1}
+                min={1}
+                onChange={(v) => update(e.id, { count: Math.max(1, Math.round(v)) })}
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={e.real} onChange={ev => update(e.id, { real: ev.target.checked })} />
+            In today's dollars (grows with inflation)
+          </label>
+        </div>
+      ))}
+      <button className="rounded bg-slate-200 px-2 py-1 text-sm dark:bg-slate-700" onClick={() => onChange([...events, newCashFlowEvent(events)])}>
+        Add event
+      </button>
+      {events.length > 0 && (
+        <div className="text-xs text-slate-500">
+          Year 0 is the first year of retirement. Expenses are withdrawn on top of the regular withdrawal; a windfall first covers that year's
+          withdrawal and the rest is invested in the starting allocation. Events are marked on the trajectory charts.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CashFlowEventsEditor;
@@ -0,0 +1,102 @@
+import React, { useState } from "react";
+import { BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from "recharts";
+import type { CohortOutcome } from "../lib/cohorts";
+
+interface CohortChartProps {
+  cohorts: CohortOutcome[];
+  horizon: number;
+  currency: Intl.NumberFormat;
+  selectedYear?: number; // cohort currently shown as the sample run
+  onSelect: (startYear: number) => void;
+}
+
+type Metric = "endingBalance" | "minBalance" | "yearsLasted";
+
+const METRIC_LABELS: Record<Metric, string> = {
+  endingBalance: "Ending balance",
+  minBalance: "Minimum balance",
+  yearsLasted: "Years lasted",
+};
+
+// Green for cohorts that end above their start, fading toward amber as they fall behind; red for failures.
+function cohortColor(c: CohortOutcome): string {
+  if (c.failedYear !== null) return "#dc2626";
+  const ratio = c.startBalance > 0 ? c.endingBalance / c.startBalance : 0;
+  if (ratio >= 1) return "#16a34a";
+  if (ratio >= 0.5) return "#84cc16";
+  return "#f59e0b";
+}
+
+// Outcome of every complete historical start year. Click a cohort to load it as the sample run.
+const CohortChart: React.FC<CohortChartProps> = ({ cohorts, horizon, currency, selectedYear, onSelect }) => {
+  const [metric, setMetric] = useState<Metric>("endingBalance");
+
+  if (cohorts.length === 0) {
+    return <p className="text-sm text-slate-500">No start year has {horizon} years of history after it.</p>;
+  }
+
+  const data = cohorts.map(c => ({ ...c, yearsLasted: c.failedYear !== null ? c.failedYear - 1 : horizon }));
+  const failures = cohorts.filter(c => c.failedYear !== null).length;
+  const format = (v: number) => (metric === "yearsLasted" ? `${v} years` : currency.format(v));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div>
+          {cohorts[0].startYear}–{cohorts[cohorts.length - 1].startYear} starts: <span className="font-semibold">{cohorts.length - failures} of {cohorts.length}</span> lasted {horizon} years
+        </div>
+        <select
+          className="border rounded-xl p-1 bg-white dark:bg-slate-700 dark:border-slate-600"
+          value={metric}
+          onChange={e => setMetric(e.target.value as Metric)}
+          aria-label="Cohort metric"
+        >
+          {(Object.keys(METRIC_LABELS) as Metric[]).map(m => (
+            <option key={m} value={m}>{METRIC_LABELS[m]}</option>
+          ))}
+        </select>
+      </div>
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} margin={{ left: 32, right: 8, top: 8, bottom: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="startYear" />
+            <YAxis tickFormatter={(v: number) => (metric === "yearsLasted" ? `${v}` : currency.format(v))} />
+            <Tooltip
+              formatter={(v: number) => [format(v), METRIC_LABELS[metric]]}
+              labelFormatter={(year, payload) => {
+                const c = payload?.[0]?.payload as CohortOutcome | undefined;
+                return c?.failedYear != null ? `Start ${year} · failed in year ${c.failedYear}` : `Start ${year}`;
+              }}
+            />
+            <Bar dataKey={metric} cursor="pointer">
+              {data.map(c => (
+                <Cell
+                  key={c.startYear}
+                  fill={cohortColor(c)}
+                  stroke={c.startYear === selectedYear ? "#1e293b" : undefined}
+                  strokeWidth={c.startYear === selectedYear ? 2 : 0}
+                  onClick={() => onSelect(c.startYear)}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="flex gap-px">
+        {data.map(c => (
+          <button
+            key={c.startYear}
+            className={`h-4 flex-1 min-w-0 ${c.startYear === selectedYear ? "ring-2 ring-slate-800 dark:ring-slate-200" : ""}`}
+            style={{ backgroundColor: cohortColor(c) }}
+            aria-label={`Load ${c.startYear} cohort`}
+            title={`${c.startYear}: ending ${currency.format(c.endingBalance)}, low ${currency.format(c.minBalance)}${c.failedYear !== null ? `, failed in year ${c.failedYear}` : ""}`}
+            onClick={() => onSelect(c.startYear)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CohortChart;
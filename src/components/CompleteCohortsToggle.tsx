@@ -0,0 +1,30 @@
+import React from "react";
+
+interface CompleteCohortsToggleProps {
+  id: string;
+  checked: boolean;
+  startYears: number[]; // the start years runs are drawn from
+  horizon: number;
+  limitedBy?: string; // a shorter record that limits the cohorts, e.g. "Bitcoin data starts in 2011"
+  onChange: (checked: boolean) => void;
+}
+
+// Limits random start years to those followed by a full horizon of real data, and says how many cohorts that leaves.
+const CompleteCohortsToggle: React.FC<CompleteCohortsToggleProps> = ({ id, checked, startYears, horizon, limitedBy, onChange }) => (
+  <div className="space-y-1 text-sm">
+    <div className="flex items-center gap-2">
+      <input id={id} type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} />
+      <label htmlFor={id}>Complete cohorts only (no wrap-around)</label>
+    </div>
+    <div className="text-xs text-slate-500">
+      {!checked
+        ? "Late start years run past the end of the data and wrap around to its first years."
+        : startYears.length > 0
+          ? `${startYears.length} distinct cohort${startYears.length !== 1 ? "s" : ""}, starting ${startYears[0]}–${startYears[startYears.length - 1]}.`
+          : `No start year is followed by ${horizon} years of data; shorten the horizon.`}
+      {checked && limitedBy && ` ${limitedBy}.`}
+    </div>
+  </div>
+);
+
+export default CompleteCohortsToggle;
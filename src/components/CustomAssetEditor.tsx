@@ -0,0 +1,75 @@
+import React, { useState } from "react";
+import type { CustomAsset } from "../data/marketData";
+import { CUSTOM_ASSET_COLORS, nextCustomAssetId, parseReturnSeries } from "../lib/customAssets";
+
+interface CustomAssetEditorProps {
+  assets: CustomAsset[];
+  onChange: (assets: CustomAsset[]) => void;
+}
+
+const inputClass = "mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600";
+
+// Adds a fund, annuity-like holding or managed account from a pasted or uploaded year→return column.
+const CustomAssetEditor: React.FC<CustomAssetEditorProps> = ({ assets, onChange }) => {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(CUSTOM_ASSET_COLORS[assets.length % CUSTOM_ASSET_COLORS.length]);
+  const [text, setText] = useState("");
+  const returns = parseReturnSeries(text);
+  const canAdd = name.trim() !== "" && returns.length > 0;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    if (name.trim() === "") setName(file.name.replace(/\.[^.]+$/, ""));
+  };
+
+  const add = () => {
+    onChange([...assets, { id: nextCustomAssetId(assets), name: name.trim(), color, returns }]);
+    setName("");
+    setText("");
+    setColor(CUSTOM_ASSET_COLORS[(assets.length + 1) % CUSTOM_ASSET_COLORS.length]);
+  };
+
+  const update = (id: string, patch: Partial<CustomAsset>) => onChange(assets.map(a => (a.id === id ? { ...a, ...patch } : a)));
+
+  return (
+    <div className="space-y-3 rounded-2xl bg-white p-4 shadow dark:bg-slate-800">
+      <h3 className="font-semibold">Custom assets</h3>
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Add your own return series, then allocate to it on the Portfolio and Drawdown tabs. A custom asset is held like gold or Bitcoin: it is
+        sold only by the drawdown order, never to refill cash. Holding it limits runs to the years it has returns for; parametric and
+        regime-switching runs give it its average return every year.
+      </p>
+      {assets.map(a => (
+        <div key={a.id} className="flex flex-wrap items-center gap-2 text-sm">
+          <input type="color" value={a.color} onChange={e => update(a.id, { color: e.target.value })} aria-label={`${a.name} colour`} />
+          <input className="border rounded-xl p-1 bg-white dark:bg-slate-700 dark:border-slate-600" value={a.name} onChange={e => update(a.id, { name: e.target.value })} aria-label="Name" />
+          <span className="text-slate-500">
+            {a.returns.length > 0 ? `${a.returns[a.returns.length - 1].year}–${a.returns[0].year}, ${a.returns.length} years` : "no returns"}
+          </span>
+          <button className="rounded bg-slate-200 px-2 py-1 dark:bg-slate-700" onClick={() => onChange(assets.filter(b => b.id !== a.id))}>Remove</button>
+        </div>
+      ))}
+      <div className="grid gap-2 md:grid-cols-[1fr_auto]">
+        <label className="block text-sm">Name
+          <input className={inputClass} value={name} placeholder="e.g. My managed account" onChange={e => setName(e.target.value)} />
+        </label>
+        <label className="block text-sm">Colour
+          <input type="color" className="mt-1 block h-10 w-16" value={color} onChange={e => setColor(e.target.value)} />
+        </label>
+      </div>
+      <label className="block text-sm">Yearly returns, one year per line in percent (e.g. "2020, 12.5")
+        <textarea className={`${inputClass} h-32 font-mono`} value={text} onChange={e => setText(e.target.value)} />
+      </label>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <input type="file" accept=".csv,.txt,.tsv" onChange={e => handleFile(e.target.files?.[0])} aria-label="Upload returns" />
+        <span className="text-slate-500">{returns.length} years read</span>
+        <button className="rounded bg-slate-200 px-2 py-1 disabled:opacity-50 dark:bg-slate-700" disabled={!canAdd} onClick={add}>
+          Add asset
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CustomAssetEditor;
@@ -1,43 +1,116 @@
 import { useMemo } from "react";
 import { useData } from "../data/DataContext";
+import { buildReturnTable, portfolioYears } from "../lib/simulationJob";
+import type { BitcoinBackfillOptions } from "../lib/bitcoin";
+import type { CashYieldOptions } from "../lib/cashYield";
+import CustomAssetEditor from "./CustomAssetEditor";
 
-export default function DataTab() {
-  const { sp500, nasdaq100, bitcoin, bonds, inflation, cape, updateSeries, reset } = useData();
+interface DataTabProps {
+  cashYield: CashYieldOptions;
+  bitcoinBackfill: BitcoinBackfillOptions; // how portfolio runs fill in Bitcoin before its record
+}
+
+type ReturnSeries = "sp500" | "nasdaq100" | "intl" | "smallValue" | "reits" | "gold" | "bitcoin" | "tips" | "bonds" | "tbills";
+
+// Return columns, left to right
+const RETURN_COLUMNS: { series: ReturnSeries; label: string }[] = [
+  { series: "sp500", label: "S&P 500" },
+  { series: "nasdaq100", label: "NASDAQ 100" },
+  { series: "intl", label: "International" },
+  { series: "smallValue", label: "Small Value" },
+  { series: "reits", label: "REITs" },
+  { series: "gold", label: "Gold" },
+  { series: "bitcoin", label: "Bitcoin" },
+  { series: "tips", label: "TIPS" },
+  { series: "bonds", label: "10Y Treasury" },
+  { series: "tbills", label: "3M T-Bill" },
+];
+
+interface PercentCellProps {
+  value: number | null;
+  placeholder?: string;
+  title?: string;
+  onChange: (value: number | null) => void;
+}
+
+function PercentCell({ value, placeholder, title, onChange }: PercentCellProps) {
+  return (
+    <td className="px-2 py-1 text-right">
+      <div className="flex items-center justify-end">
+        <input
+          type="number"
+          step="0.01"
+          className="w-20 bg-transparent text-right placeholder:italic"
+          value={value ?? ""}
+          placeholder={placeholder}
+          title={title}
+          onChange={e => onChange(e.target.value === "" ? null : Number(e.target.value))}
+        />
+        <span className="ml-1">%</span>
+      </div>
+    </td>
+  );
+}
+
+const BACKFILL_DESCRIPTIONS: Record<BitcoinBackfillOptions["method"], string> = {
+  cash: "it earns the cash yield",
+  expected: "each year is drawn from the expected return and volatility",
+  haircut: "it earns Bitcoin's average return, haircut more each year further back",
+  exclude: "those years are left out of runs",
+};
+
+export default function DataTab({ cashYield, bitcoinBackfill }: DataTabProps) {
+  const { marketData, updateSeries, setCustomAssets, reset } = useData();
+  const { bitcoin, inflation, cape, custom } = marketData;
+  // Synthetic Bitcoin returns (%) for the portfolio years before its record
+  const syntheticBitcoin = useMemo(() => {
+    const recorded = new Set(bitcoin.map(d => d.year));
+    const missing = portfolioYears(marketData).filter(y => !recorded.has(y));
+    const table = buildReturnTable(marketData, missing, true, cashYield, bitcoinBackfill);
+    return new Map([...table].map(([year, r]) => [year, (r.bitcoin - 1) * 100]));
+  }, [marketData, bitcoin, cashYield, bitcoinBackfill]);
+  const btcFirstYear = bitcoin.length > 0 ? Math.min(...bitcoin.map(d => d.year)) : null;
   const years = useMemo(() => {
     return Array.from(
       new Set([
-        ...sp500.map(d => d.year),
-        ...nasdaq100.map(d => d.year),
-        ...bitcoin.map(d => d.year),
-        ...bonds.map(d => d.year),
+        ...RETURN_COLUMNS.flatMap(c => marketData[c.series].map(d => d.year)),
+        ...custom.flatMap(a => a.returns.map(d => d.year)),
         ...inflation.map(d => d.year),
         ...Object.keys(cape).map(Number),
       ])
     ).sort((a, b) => b - a);
-  }, [sp500, nasdaq100, bitcoin, bonds, inflation, cape]);
+  }, [marketData, custom, inflation, cape]);
 
-  const rows = useMemo(
-    () =>
-      years.map(year => ({
-        year,
-        sp500: sp500.find(d => d.year === year)?.returnPct ?? null,
-        nasdaq100: nasdaq100.find(d => d.year === year)?.returnPct ?? null,
-        bitcoin: bitcoin.find(d => d.year === year)?.returnPct ?? null,
-        bonds: bonds.find(d => d.year === year)?.returnPct ?? null,
-        inflation: inflation.find(d => d.year === year)?.inflationPct ?? null,
-        cape: cape[year] ?? null,
-      })),
-    [years, sp500, nasdaq100, bitcoin, bonds, inflation, cape]
-  );
+  const rows = useMemo(() => {
+    const byYear = (series: ReturnSeries) => new Map(marketData[series].map(d => [d.year, d.returnPct]));
+    const returns = RETURN_COLUMNS.map(c => byYear(c.series));
+    const customReturns = custom.map(a => new Map(a.returns.map(d => [d.year, d.returnPct])));
+    const inflationByYear = new Map(inflation.map(d => [d.year, d.inflationPct]));
+    return years.map(year => ({
+      year,
+      returns: returns.map(r => r.get(year) ?? null),
+      custom: customReturns.map(r => r.get(year) ?? null),
+      syntheticBitcoin: syntheticBitcoin.get(year) ?? null,
+      inflation: inflationByYear.get(year) ?? null,
+      cape: cape[year] ?? null,
+    }));
+  }, [years, marketData, custom, inflation, cape, syntheticBitcoin]);
 
   const maxYear = years[0];
   const minYear = years[years.length - 1];
+  const update = (series: string, year: number) => (value: number | null) => updateSeries(series, year, value);
 
   return (
     <div className="space-y-4">
       <p className="text-sm">
-        Annual returns and metrics used for simulations. Data spans {minYear}–{maxYear}.
+        Annual returns and metrics used for simulations. Data spans {minYear}–{maxYear}; series with a shorter record are blank before it starts.
       </p>
+      {syntheticBitcoin.size > 0 && (
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          Bitcoin has no data before {btcFirstYear ?? "its first year"}. When a portfolio holds it, {BACKFILL_DESCRIPTIONS[bitcoinBackfill.method]}
+          {bitcoinBackfill.method !== "exclude" && "; those synthetic returns are shown in italics"}. Change this on the Portfolio tab, or type a return to replace it.
+        </p>
+      )}
       <button
         type="button"
         onClick={reset}
@@ -45,15 +118,14 @@ export default function DataTab() {
       >
         Reset to defaults
       </button>
+      <CustomAssetEditor assets={custom} onChange={setCustomAssets} />
       <div className="overflow-x-auto">
         <table className="min-w-full text-sm">
           <thead className="sticky top-0 bg-white dark:bg-slate-800">
             <tr>
               <th className="px-2 py-1 text-left">Year</th>
-              <th className="px-2 py-1 text-right">S&amp;P 500</th>
-              <th className="px-2 py-1 text-right">NASDAQ 100</th>
-              <th className="px-2 py-1 text-right">Bitcoin</th>
-              <th className="px-2 py-1 text-right">10Y Treasury</th>
+              {RETURN_COLUMNS.map(c => <th key={c.series} className="px-2 py-1 text-right">{c.label}</th>)}
+              {custom.map(a => <th key={a.id} className="px-2 py-1 text-right" style={{ color: a.color }}>{a.name}</th>)}
               <th className="px-2 py-1 text-right">Inflation</th>
               <th className="px-2 py-1 text-right">CAPE</th>
             </tr>
@@ -62,96 +134,19 @@ export default function DataTab() {
             {rows.map(r => (
               <tr key={r.year} className="border-b border-slate-200 dark:border-slate-700">
                 <td className="px-2 py-1 text-left">{r.year}</td>
-                <td className="px-2 py-1 text-right">
-                  <div className="flex items-center justify-end">
-                    <input
-                      type="number"
-                      step="0.01"
-                      className="w-20 bg-transparent text-right"
-                      value={r.sp500 ?? ""}
-                      onChange={e =>
-                        updateSeries(
-                          "sp500",
-                          r.year,
-                          e.target.value === "" ? null : Number(e.target.value)
-                        )
-                      }
-                    />
-                    <span className="ml-1">%</span>
-                  </div>
-                </td>
-                <td className="px-2 py-1 text-right">
-                  <div className="flex items-center justify-end">
-                    <input
-                      type="number"
-                      step="0.01"
-                      className="w-20 bg-transparent text-right"
-                      value={r.nasdaq100 ?? ""}
-                      onChange={e =>
-                        updateSeries(
-                          "nasdaq100",
-                          r.year,
-                          e.target.value === "" ? null : Number(e.target.value)
-                        )
-                      }
-                    />
-                    <span className="ml-1">%</span>
-                  </div>
-                </td>
-                <td className="px-2 py-1 text-right">
-                  <div className="flex items-center justify-end">
-                    <input
-                      type="number"
-                      step="0.01"
-                      className="w-20 bg-transparent text-right"
-                      value={r.bitcoin ?? ""}
-                      onChange={e =>
-                        updateSeries(
-                          "bitcoin",
-                          r.year,
-                          e.target.value === "" ? null : Number(e.target.value)
-                        )
-                      }
-                    />
-                    <span className="ml-1">%</span>
-                  </div>
-                </td>
-                <td className="px-2 py-1 text-right">
-                  <div className="flex items-center justify-end">
-                    <input
-                      type="number"
-                      step="0.01"
-                      className="w-20 bg-transparent text-right"
-                      value={r.bonds ?? ""}
-                      onChange={e =>
-                        updateSeries(
-                          "bonds",
-                          r.year,
-                          e.target.value === "" ? null : Number(e.target.value)
-                        )
-                      }
-                    />
-                    <span className="ml-1">%</span>
-                  </div>
-                </td>
-                <td className="px-2 py-1 text-right">
-                  <div className="flex items-center justify-end">
-                    <input
-                      type="number"
-                      step="0.01"
-                      className="w-20 bg-transparent text-right"
-                      value={r.inflation ?? ""}
-                      onChange={e =>
-                        updateSeries(
-                          "inflation",
-                          r.year,
-                          e.target.value === "" ? null : Number(e.target.value)
-                        )
-                      }
-                    />
-                    <span className="ml-1">%</span>
-                  </div>
-                </td>
+                {RETURN_COLUMNS.map((c, i) => c.series === "bitcoin" ? (
+                  <PercentCell
+                    key={c.series}
+                    value={r.returns[i]}
+                    placeholder={r.syntheticBitcoin === null ? undefined : bitcoinBackfill.method === "exclude" ? "excluded" : r.syntheticBitcoin.toFixed(2)}
+                    title={r.returns[i] === null && r.syntheticBitcoin !== null ? "Synthetic: no Bitcoin data for this year" : undefined}
+                    onChange={update("bitcoin", r.year)}
+                  />
+                ) : (
+                  <PercentCell key={c.series} value={r.returns[i]} onChange={update(c.series, r.year)} />
+                ))}
+                {custom.map((a, i) => <PercentCell key={a.id} value={r.custom[i]} onChange={update(a.id, r.year)} />)}
+                <PercentCell value={r.inflation} onChange={update("inflation", r.year)} />
                 <td className="px-2 py-1 text-right">
                   <input
                     type="number"
@@ -175,4 +170,3 @@ export default function DataTab() {
     </div>
   );
 }
-
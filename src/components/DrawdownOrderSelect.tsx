@@ -0,0 +1,35 @@
+import React from "react";
+import { drawdownOrder, type DrawdownStrategy } from "../lib/drawdown";
+import { useAssetClasses } from "../data/DataContext";
+
+interface DrawdownOrderSelectProps {
+  value: DrawdownStrategy;
+  assets: string[]; // invested assets in the portfolio, named in the options
+  onChange: (value: DrawdownStrategy) => void;
+}
+
+const DrawdownOrderSelect: React.FC<DrawdownOrderSelectProps> = ({ value, assets, onChange }) => {
+  const { lookup } = useAssetClasses();
+  const names = (ids: string[]) => ids.map(id => lookup(id).short);
+  const sequence = (strategy: DrawdownStrategy) => ["Cash 1st", ...names(drawdownOrder(assets, strategy, {}))].join(", then ");
+  const parts = names(drawdownOrder(assets, "cashFirst_spyThenQqq", {}));
+  const equalParts = parts.length > 1 ? `${parts.slice(0, -1).join(", ")} & ${parts[parts.length - 1]}` : parts.join("");
+
+  return (
+    <label className="block text-sm">Drawdown Order
+      <select
+        className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
+        value={value}
+        onChange={e => onChange(e.target.value as DrawdownStrategy)}
+      >
+        <option value="cashFirst_spyThenQqq">{sequence("cashFirst_spyThenQqq")}</option>
+        <option value="cashFirst_qqqThenSpy">{sequence("cashFirst_qqqThenSpy")}</option>
+        <option value="cashFirst_equalParts">Cash 1st, then equal parts {equalParts}</option>
+        <option value="cashFirst_bestPerformer">Cash 1st, then best performer of year</option>
+        <option value="cashFirst_worstPerformer">Cash 1st, then worst performer of year</option>
+      </select>
+    </label>
+  );
+};
+
+export default DrawdownOrderSelect;
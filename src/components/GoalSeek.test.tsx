@@ -0,0 +1,15 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import GoalSeek from './GoalSeek';
+
+describe('GoalSeek', () => {
+  it('shows why a search failed and lets it run again', async () => {
+    const onSolve = vi.fn().mockRejectedValue(new Error('worker crashed'));
+    render(<GoalSeek spending={40000} onSolve={onSolve} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Solve' }));
+
+    expect(await screen.findByText('The search failed: worker crashed')).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Solve' })).toHaveProperty('disabled', false);
+  });
+});
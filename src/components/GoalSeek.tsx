@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { SolveFor } from "../lib/goalSeek";
+import CurrencyInput from "./CurrencyInput";
+import NumericInput from "./NumericInput";
+
+interface GoalSeekProps {
+  spending: number; // current first withdrawal, the default spending when solving for the balance
+  /**
+   * Runs the search, applies the answer to the inputs and describes it; null
+   * when no value reaches the target. `signal` aborts when the search is
+   * cancelled or the panel unmounts.
+   */
+  onSolve: (solveFor: SolveFor, targetSuccess: number, spending: number, signal: AbortSignal) => Promise<string | null>;
+  unavailable?: string | null; // why the current rule can't be solved for, shown in place of the controls
+}
+
+// "Solve for" controls: find the first withdrawal or starting balance that gives a chosen success rate.
+const GoalSeek: React.FC<GoalSeekProps> = ({ spending, onSolve, unavailable }) => {
+  const [solveFor, setSolveFor] = useState<SolveFor>("withdrawal");
+  const [targetPct, setTargetPct] = useState(90);
+  const [desiredSpending, setDesiredSpending] = useState<number | null>(null); // null follows the first withdrawal
+  const [solving, setSolving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const search = useRef<AbortController | null>(null);
+
+  // A search still running when the tab closes would keep the pool busy
+  useEffect(() => () => search.current?.abort(), []);
+
+  const solve = async () => {
+    const controller = new AbortController();
+    search.current = controller;
+    setSolving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const result = await onSolve(solveFor, targetPct / 100, desiredSpending ?? spending, controller.signal);
+      setMessage(result ?? `Nothing in range reaches ${targetPct}% success.`);
+    } catch (e) {
+      if (controller.signal.aborted) setMessage("Search cancelled.");
+      else setError(`The search failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      if (search.current === controller) search.current = null;
+      setSolving(false);
+    }
+  };
+
+  if (unavailable) {
+    return (
+      <div className="pt-2 border-t space-y-2">
+        <h3 className="font-semibold">Solve For:</h3>
+        <p className="text-xs text-slate-600 dark:text-slate-400">{unavailable}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pt-2 border-t space-y-2">
+      <h3 className="font-semibold">Solve For:</h3>
+      <div className="flex flex-wrap items-end gap-2 text-sm">
+        <label className="block">Find
+          <select
+            className="mt-1 block border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
+            value={solveFor}
+            onChange={e => setSolveFor(e.target.value as SolveFor)}
+          >
+            <option value="withdrawal">First withdrawal</option>
+            <option value="startBalance">Starting balance</option>
+          </select>
+        </label>
+        <label className="block">Success rate
+          <div className="mt-1 inline-flex items-center">
+            <NumericInput
+              className="w-20 border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
+              value={targetPct}
+              step={1}
+              min={1}
+              max={100}
+              onChange={setTargetPct}
+            />
+            <span className="ml-2">%</span>
+          </div>
+        </label>
+        {solveFor === "startBalance" && (
+          <label className="block">Spending
+            <CurrencyInput
+              className="mt-1 block w-32 border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
+              value={desiredSpending ?? Math.round(spending)}
+              step={1000}
+              onChange={setDesiredSpending}
+            />
+          </label>
+        )}
+        <button
+          className="px-3 py-2 rounded-xl bg-blue-600 text-white dark:bg-blue-400 dark:text-slate-900 disabled:opacity-50"
+          onClick={solve}
+          disabled={solving}
+        >
+          {solving ? "Solving…" : "Solve"}
+        </button>
+        {solving && (
+          <button className="px-3 py-2 rounded-xl bg-slate-200 dark:bg-slate-700" onClick={() => search.current?.abort()}>
+            Cancel
+          </button>
+        )}
+      </div>
+      {message && <p className="text-xs text-slate-600 dark:text-slate-400">{message}</p>}
+      {error && <p className="text-xs text-amber-700 dark:text-amber-400">{error}</p>}
+    </div>
+  );
+};
+
+export default GoalSeek;
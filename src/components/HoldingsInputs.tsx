@@ -0,0 +1,57 @@
+import React from "react";
+import type { AssetHoldings } from "../lib/simulation";
+import { assetsOf } from "../lib/assets";
+import { useAssetClasses } from "../data/DataContext";
+import AllocationSlider from "./AllocationSlider";
+import CurrencyInput from "./CurrencyInput";
+
+interface HoldingsInputsProps {
+  holdings: AssetHoldings;
+  onParamChange: (param: string, value: unknown) => void;
+}
+
+const inputClass = "mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600";
+
+// Allocation slider plus an amount per asset class. Any asset but cash can be removed, and any missing one, custom ones included, added.
+const HoldingsInputs: React.FC<HoldingsInputsProps> = ({ holdings, onParamChange }) => {
+  const { classes, lookup } = useAssetClasses();
+  const assets = assetsOf(holdings);
+  const addable = classes.filter(a => !(a.id in holdings));
+  const update = (next: AssetHoldings) => onParamChange("allocation", next);
+  const remove = (id: string) => update(Object.fromEntries(Object.entries(holdings).filter(([k]) => k !== id)));
+
+  return (
+    <>
+      <div className="p-4">
+        <AllocationSlider holdings={holdings} onParamChange={onParamChange} />
+      </div>
+      {assets.map(id => (
+        <div key={id} className="flex items-end gap-2">
+          <label className="block text-sm flex-1">{lookup(id).label}
+            <CurrencyInput className={inputClass} value={holdings[id]} step={10000} onChange={v => update({ ...holdings, [id]: v })} />
+          </label>
+          {id !== "cash" && (
+            <button
+              className="mb-1 px-2 py-1 text-sm rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700"
+              onClick={() => remove(id)}
+              aria-label={`Remove ${lookup(id).short}`}
+              title={`Remove ${lookup(id).short}`}
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      ))}
+      {addable.length > 0 && (
+        <label className="block text-sm">Add asset class
+          <select className={inputClass} value="" onChange={e => e.target.value && update({ ...holdings, [e.target.value]: 0 })}>
+            <option value="">Choose…</option>
+            {addable.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+          </select>
+        </label>
+      )}
+    </>
+  );
+};
+
+export default HoldingsInputs;
@@ -0,0 +1,93 @@
+import React from "react";
+import { claimingAdjustment, FULL_RETIREMENT_AGE, INCOME_KINDS, newIncomeStream, type IncomeKind, type IncomeStream } from "../lib/income";
+import CurrencyInput from "./CurrencyInput";
+import NumericInput from "./NumericInput";
+
+interface IncomeStreamsEditorProps {
+  streams: IncomeStream[];
+  onChange: (streams: IncomeStream[]) => void;
+}
+
+const inputClass = "mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600";
+
+// Social Security, pensions, annuities, rent and work income that pay part of each year's spending.
+const IncomeStreamsEditor: React.FC<IncomeStreamsEditorProps> = ({ streams, onChange }) => {
+  const update = (id: string, patch: Partial<IncomeStream>) => onChange(streams.map(s => (s.id === id ? { ...s, ...patch } : s)));
+
+  return (
+    <div className="space-y-3">
+      {streams.map(s => {
+        const isSocialSecurity = s.kind === "socialSecurity";
+        return (
+          <div key={s.id} className="space-y-2 rounded-xl border p-3 dark:border-slate-600">
+            <div className="flex items-center gap-2">
+              <input className="flex-1 border rounded-xl p-1 bg-white dark:bg-slate-700 dark:border-slate-600 text-sm font-semibold" value={s.name} onChange={e => update(s.id, { name: e.target.value })} aria-label="Name" />
+              <button
+                className="px-2 py-1 text-sm rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700"
+                onClick={() => onChange(streams.filter(t => t.id !== s.id))}
+                aria-label={`Remove ${s.name}`}
+                title={`Remove ${s.name}`}
+              >
+                ✕
+              </button>
+            </div>
+            <label className="block text-sm">{isSocialSecurity ? `Yearly benefit at ${FULL_RETIREMENT_AGE}` : "Yearly amount"}
+              <CurrencyInput className={inputClass} value={s.amount} step={1000} onChange={v => update(s.id, { amount: Math.max(0, v) })} />
+            </label>
+            <div className="flex gap-2">
+              <label className="block text-sm flex-1">{isSocialSecurity ? "Claiming age" : "Start age"}
+                <NumericInput
+                  className={inputClass}
+                  value={s.startAge}
+                  step={1}
+                  min={isSocialSecurity ? 62 : 0}
+                  max={isSocialSecurity ? 70 : undefined}
+                  onChange={(v) => update(s.id, { startAge: Math.round(v) })}
+                />
+              </label>
+              <label className={`block text-sm flex-1 ${s.endAge === null ? 'opacity-50' : ''}`}>Ends at age
+                <NumericInput
+                  className={inputClass}
+                  value={s.endAge ?? 100}
+                  step={1}
+                  min={s.startAge + 1}
+                  disabled={s.endAge === null}
+                  onChange={(v) => update(s.id, { endAge: Math.round(v) })}
+                />
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={s.endAge === null} onChange={e => update(s.id, { endAge: e.target.checked ? null : Math.max(s.startAge + 1, 90) })} />
+                For life
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={s.inflationLinked} onChange={e => update(s.id, { inflationLinked: e.target.checked })} />
+                Inflation-linked (COLA)
+              </label>
+            </div>
+            {isSocialSecurity && (
+              <div className="text-xs text-slate-500">
+                Claiming at {s.startAge} pays {(claimingAdjustment(s.startAge) * 100).toFixed(1)}% of the full benefit.
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <label className="block text-sm">Add income
+        <select className={inputClass} value="" onChange={e => e.target.value && onChange([...streams, newIncomeStream(e.target.value as IncomeKind, streams)])}>
+          <option value="">Choose…</option>
+          {INCOME_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+        </select>
+      </label>
+      {streams.length > 0 && (
+        <div className="text-xs text-slate-500">
+          Amounts are in dollars of your first retirement year. Income pays that much of each year's spending and the portfolio pays the rest,
+          so the success rate and the withdrawals shown are the portfolio's share.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IncomeStreamsEditor;
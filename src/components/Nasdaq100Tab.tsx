@@ -1,74 +1,58 @@
 import React, { useMemo, useEffect, useRef } from "react";
-import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, Area, AreaChart, CartesianGrid } from "recharts";
+import { XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, Area, AreaChart, CartesianGrid } from "recharts";
 import { LayoutGroup, motion } from "framer-motion";
 import { useData } from "../data/DataContext";
-import { pctToMult, bootstrapSample, shuffle, percentile, calculateDrawdownStats } from "../lib/simulation";
-import { generateInflationSequence } from "../lib/inflation";
-import type { RunResult } from "../lib/simulation";
+import { percentile, calculateDrawdownStats, type SimulationMode } from "../lib/simulation";
+import { runIndexSimulation } from "../lib/indexSimulation";
+import { startYearPool } from "../lib/simulationJob";
+import { applyOverrides, fitReturnModel, isParametricMode, type ReturnModelOverrides } from "../lib/returnModel";
+import { fitRegimeModel, isSyntheticMode, pathGenerator, withTransitions } from "../lib/regimeModel";
+import { completeStartYears, runIndexCohorts } from "../lib/cohorts";
+import { indexRatePaths, latestCape, pathEvaluator } from "../lib/safemax";
+import { capeStartYears, noComparableStartYears } from "../lib/capeConditioning";
+import { solveIndexStartBalance, solveIndexWithdrawRate, successRate, type SolveFor } from "../lib/goalSeek";
+import { incomeFor, type IncomeStream } from "../lib/income";
+import type { CashFlowEvent } from "../lib/cashFlows";
 import CurrencyInput from "./CurrencyInput";
 import NumericInput from "./NumericInput";
 import Chart, { type ChartProps } from "./Chart";
 import type { ChartState } from "../App";
 import MinimizedChartsBar from "./MinimizedChartsBar";
-
-function simulatePath(
-  returns: number[], // multipliers for each year of the horizon
-  startBalance: number,
-  initialWithdrawalRate: number, // e.g., 0.04
-  inflationRate: number, // constant inflation for inflation-adjusted withdrawals
-  inflationAdjust: boolean,
-  inflationRates?: number[],
-): RunResult {
-  const horizon = returns.length;
-  const balances: number[] = new Array(horizon + 1).fill(0);
-  const withdrawals: number[] = new Array(horizon).fill(0);
-  let bal = startBalance;
-  const baseWithdrawal = startBalance * initialWithdrawalRate;
-  let withdrawalAmount = baseWithdrawal;
-  balances[0] = bal;
-  let failedYear: number | null = null;
-  for (let y = 0; y < horizon; y++) {
-    const withdrawal = inflationAdjust ? withdrawalAmount : baseWithdrawal;
-    withdrawals[y] = withdrawal;
-    bal = bal - withdrawal;
-    if (bal <= 0 && failedYear === null) {
-      failedYear = y + 1; // first year of failure
-      bal = 0;
-      balances[y + 1] = 0;
-      // continue filling zeros for the remaining years
-      for (let k = y + 1; k < horizon; k++) {
-        balances[k + 1] = 0;
-        withdrawals[k] = 0;
-      }
-      break;
-    }
-    // apply return for the year
-    bal = bal * returns[y];
-    balances[y + 1] = bal;
-    if (inflationAdjust) {
-      const rate = inflationRates ? inflationRates[y] : inflationRate;
-      withdrawalAmount *= (1 + rate);
-    }
-  }
-  // If never failed, balances filled to end
-  return { balances, failedYear, withdrawals };
-}
+import CohortChart from "./CohortChart";
+import SafeMaxChart from "./SafeMaxChart";
+import GoalSeek from "./GoalSeek";
+import CapeConditionSettings from "./CapeConditionSettings";
+import CompleteCohortsToggle from "./CompleteCohortsToggle";
+import ReturnModelEditor from "./ReturnModelEditor";
+import RegimeModelEditor from "./RegimeModelEditor";
+import IncomeStreamsEditor from "./IncomeStreamsEditor";
+import CashFlowEventsEditor from "./CashFlowEventsEditor";
+import TrajectoryChart from "./TrajectoryChart";
 
 interface NasdaqTabProps {
   startBalance: number;
   horizon: number;
+  startAge: number;
+  incomeStreams: IncomeStream[];
+  cashFlows: CashFlowEvent[];
   withdrawRate: number;
   initialWithdrawalAmount: number;
   isInitialAmountLocked: boolean;
   inflationAdjust: boolean;
   inflationRate: number;
   useHistoricalInflation: boolean;
-  mode: "actual-seq" | "actual-seq-random-start" | "random-shuffle" | "bootstrap";
+  decorrelateInflation: boolean;
+  completeCohorts: boolean;
+  mode: SimulationMode;
   numRuns: number;
   seed: number | "";
+  blockLength: number;
+  returnModelOverrides: ReturnModelOverrides;
+  currentCape: number | null;
+  regimeTransitions: number[][] | null;
   startYear: number;
   onRefresh: () => void;
-  onParamChange: (param: string, value: string | number | boolean) => void;
+  onParamChange: (param: string, value: unknown) => void;
   setIsInitialAmountLocked: (value: React.SetStateAction<boolean>) => void;
   refreshCounter: number;
   chartStates: Record<string, ChartState>;
@@ -81,15 +65,24 @@ interface NasdaqTabProps {
 const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
   startBalance,
   horizon,
+  startAge,
+  incomeStreams,
+  cashFlows,
   withdrawRate,
   initialWithdrawalAmount,
   isInitialAmountLocked,
   inflationAdjust,
   inflationRate,
   useHistoricalInflation,
+  decorrelateInflation,
+  completeCohorts,
   mode,
   numRuns,
   seed,
+  blockLength,
+  returnModelOverrides,
+  currentCape,
+  regimeTransitions,
   startYear,
   onRefresh,
   onParamChange,
@@ -101,14 +94,20 @@ const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
   chartOrder,
   onReorderChartOrder,
 }) => {
-  const { nasdaq100, inflation } = useData();
+  const { sp500, nasdaq100, bonds, bitcoin, inflation, cape } = useData();
   const years = useMemo(() => nasdaq100.map(d => d.year).sort((a, b) => a - b), [nasdaq100]);
-  const availableMultipliers = useMemo(() => nasdaq100.map(d => pctToMult(d.returnPct)), [nasdaq100]);
-  const inflationSorted = useMemo(() => inflation.slice().sort((a, b) => a.year - b.year), [inflation]);
-  const inflationYears = useMemo(() => inflationSorted.map(d => d.year), [inflationSorted]);
-  const inflationRatesChrono = useMemo(() => inflationSorted.map(d => d.inflationPct / 100), [inflationSorted]);
-  const availableInflationRates = useMemo(() => inflation.map(d => d.inflationPct / 100), [inflation]);
   const effectiveInflationRate = useHistoricalInflation ? 0 : inflationRate;
+  const fittedModel = useMemo(() => fitReturnModel({ sp500, nasdaq100, bonds, bitcoin, inflation }), [sp500, nasdaq100, bonds, bitcoin, inflation]);
+  const fittedRegimes = useMemo(() => fitRegimeModel({ sp500, nasdaq100, bonds, bitcoin, inflation }), [sp500, nasdaq100, bonds, bitcoin, inflation]);
+  const returnModel = useMemo(() => applyOverrides(fittedModel, returnModelOverrides), [fittedModel, returnModelOverrides]);
+  const regimeModel = useMemo(() => withTransitions(fittedRegimes, regimeTransitions), [fittedRegimes, regimeTransitions]);
+  const capeYears = useMemo(() => capeStartYears(years, cape, currentCape ?? latestCape(cape)?.cape, horizon), [years, cape, currentCape, horizon]);
+  const startYears = useMemo(
+    () => startYearPool(mode === 'cape-conditioned' ? capeYears : years, horizon, completeCohorts),
+    [mode, capeYears, years, horizon, completeCohorts]
+  );
+  // With no comparable start years the mode runs nothing, so say so rather than show stale or empty results
+  const noComparable = mode === 'cape-conditioned' && startYears.length === 0;
 
   const firstRender = useRef(true);
   useEffect(() => {
@@ -119,55 +118,24 @@ const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
     const id = setTimeout(onRefresh, 100);
     return () => clearTimeout(id);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [startBalance, horizon, withdrawRate, effectiveInflationRate, inflationAdjust, mode, numRuns, seed, startYear, useHistoricalInflation]);
-
-  const sims = useMemo(() => {
-    const initW = withdrawRate / 100;
-    const runs: RunResult[] = [];
-    const multipliers = availableMultipliers; // unsorted
-    const sortedReturns = nasdaq100.slice().sort((a, b) => a.year - b.year);
-    const multipliersChrono = sortedReturns.map(d => pctToMult(d.returnPct));
-    const yearsSorted = sortedReturns.map(d => d.year);
+  }, [startBalance, horizon, startAge, incomeStreams, cashFlows, withdrawRate, effectiveInflationRate, inflationAdjust, mode, numRuns, seed, blockLength, startYear, useHistoricalInflation, decorrelateInflation, completeCohorts, returnModelOverrides, currentCape, regimeTransitions]);
 
-    const numSimRuns = mode === 'actual-seq' ? 1 : numRuns;
-
-    for (let r = 0; r < numSimRuns; r++) {
-      let seq: number[] = [];
-      let yearSampleForInflation: number[] | undefined;
-      if (mode === 'actual-seq') {
-        let startIdx = yearsSorted.indexOf(startYear);
-        if (startIdx === -1) startIdx = 0;
-        seq = multipliersChrono.slice(startIdx, startIdx + horizon);
-        yearSampleForInflation = yearsSorted.slice(startIdx, startIdx + horizon);
-      } else if (mode === 'actual-seq-random-start') {
-        const startIdx = Math.floor(Math.random() * multipliersChrono.length);
-        seq = Array.from({ length: horizon }, (_, i) => multipliersChrono[(startIdx + i) % multipliersChrono.length]);
-        yearSampleForInflation = Array.from({ length: horizon }, (_, i) => yearsSorted[(startIdx + i) % yearsSorted.length]);
-      } else if (mode === "random-shuffle") {
-        const shuffled = shuffle(multipliers);
-        seq = Array.from({ length: horizon }, (_, i) => shuffled[i % shuffled.length]);
-      } else if (mode === "bootstrap") {
-        seq = bootstrapSample(multipliers, horizon);
-      }
-      if (seq.length > 0) {
-        let inflSeq: number[] | undefined;
-        if (useHistoricalInflation) {
-          inflSeq = generateInflationSequence(
-            mode,
-            horizon,
-            startYear,
-            inflationYears,
-            inflationRatesChrono,
-            availableInflationRates,
-            yearSampleForInflation,
-          );
-        }
-        runs.push(simulatePath(seq, startBalance, initW, inflationRate, inflationAdjust, inflSeq));
-      }
-    }
-    return runs;
+  const simSettings = {
+    startBalance, horizon, startAge, incomeStreams, cashFlows, withdrawRate, inflationAdjust, inflationRate, useHistoricalInflation, decorrelateInflation, completeCohorts, mode, numRuns, seed, blockLength, startYear,
+    synthetic: isSyntheticMode(mode) ? { generate: pathGenerator(mode, returnModel, regimeModel), asset: 'qqq' as const } : undefined,
+    startYears,
+  };
+  const sims = useMemo(
+    () => runIndexSimulation(nasdaq100, inflation, simSettings),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [nasdaq100, refreshCounter, useHistoricalInflation, inflation, seed, returnModel, regimeModel, startYears, cape]
+  );
+  // The same runs from any start year, to show what conditioning on CAPE changes
+  const unconditionedSuccess = useMemo(
+    () => (mode === 'cape-conditioned' ? successRate(runIndexSimulation(nasdaq100, inflation, { ...simSettings, mode: 'actual-seq-random-start', startYears: undefined })) : null),
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [availableMultipliers, nasdaq100, refreshCounter, useHistoricalInflation, inflation]);
+    [sims]
+  );
 
   const stats = useMemo(() => {
     if (sims.length === 0) return null;
@@ -196,6 +164,7 @@ const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
     const medianRun = {
       balances: [] as number[],
       withdrawals: [] as number[],
+      failedYear: null,
     };
     for (let t = 0; t <= horizon; t++) {
       medianRun.balances.push(percentile(sims.map(s => s.balances[t]), 0.5));
@@ -204,14 +173,45 @@ const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
       }
     }
 
+    const medianFirstWithdrawal = percentile(sims.map(s => s.withdrawals[0]), 0.5);
     const medianFifthYearWithdrawal = horizon >= 5 ? percentile(sims.map(s => s.withdrawals[4]), 0.5) : 0;
 
-    return { successRate, endingBalances, bands, ...drawdownStats, medianFifthYearWithdrawal, medianRun };
+    return { successRate, endingBalances, bands, ...drawdownStats, medianFirstWithdrawal, medianFifthYearWithdrawal, medianRun };
   }, [sims, horizon]);
 
   const sampleRun = sims[0];
+  const firstYearIncome = useMemo(() => incomeFor(incomeStreams, startAge, 1).total, [incomeStreams, startAge]);
+
+  const cohorts = useMemo(
+    () => runIndexCohorts(nasdaq100, inflation, { startBalance, horizon, startAge, incomeStreams, cashFlows, withdrawRate, inflationAdjust, inflationRate, useHistoricalInflation }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [nasdaq100, refreshCounter, inflation]
+  );
+  const safeMaxYears = useMemo(() => completeStartYears(years, horizon), [years, horizon]);
+  const rateEvaluator = useMemo(
+    () => pathEvaluator(indexRatePaths(nasdaq100, inflation, { startBalance, horizon, startAge, incomeStreams, cashFlows, inflationAdjust, inflationRate, useHistoricalInflation })),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [nasdaq100, refreshCounter, inflation]
+  );
   const currency = useMemo(() => new Intl.NumberFormat(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 0 }), []);
 
+  const handleSolve = async (solveFor: SolveFor, target: number, spending: number) => {
+    const settings = simSettings;
+    if (solveFor === 'withdrawal') {
+      const result = await solveIndexWithdrawRate(nasdaq100, inflation, settings, target);
+      if (!result) return null;
+      onParamChange('withdrawRate', result.value);
+      return `A ${result.value.toFixed(2)}% first withdrawal (${currency.format(startBalance * result.value / 100)}) succeeds in ${(result.successRate * 100).toFixed(1)}% of runs.`;
+    }
+    const result = await solveIndexStartBalance(nasdaq100, inflation, settings, spending, target);
+    if (!result) return null;
+    // Lock the spending so the new balance changes the rate, not the amount
+    setIsInitialAmountLocked(true);
+    onParamChange('initialWithdrawalAmount', spending);
+    onParamChange('startBalance', result.value);
+    return `${currency.format(result.value)} funds ${currency.format(spending)} a year in ${(result.successRate * 100).toFixed(1)}% of runs.`;
+  };
+
   const charts: Record<string, React.ReactElement<ChartProps>> = useMemo(() => ({
     'nasdaq100-trajectory': (
       <Chart
@@ -279,6 +279,49 @@ const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
         )}
       </Chart>
     ),
+    'nasdaq100-cohorts': (
+      <Chart
+        chartId="nasdaq100-cohorts"
+        title="Historical Cohorts"
+        onRefresh={onRefresh}
+        onMinimize={() => toggleMinimize('nasdaq100-cohorts')}
+        onToggleSize={() => toggleSize('nasdaq100-cohorts')}
+        onDragStart={() => setDraggingId('nasdaq100-cohorts')}
+        onDragEnd={() => { setDraggingId(null); setOverId(null); }}
+        size={chartStates['nasdaq100-cohorts']?.size ?? 'full'}
+        minimizable={true}
+      >
+        <CohortChart
+          cohorts={cohorts}
+          horizon={horizon}
+          currency={currency}
+          selectedYear={mode === 'actual-seq' ? startYear : undefined}
+          onSelect={(year) => { onParamChange('mode', 'actual-seq'); onParamChange('startYear', year); }}
+        />
+      </Chart>
+    ),
+    'nasdaq100-safemax': (
+      <Chart
+        chartId="nasdaq100-safemax"
+        title="SAFEMAX by Start Year"
+        onRefresh={onRefresh}
+        onMinimize={() => toggleMinimize('nasdaq100-safemax')}
+        onToggleSize={() => toggleSize('nasdaq100-safemax')}
+        onDragStart={() => setDraggingId('nasdaq100-safemax')}
+        onDragEnd={() => { setDraggingId(null); setOverId(null); }}
+        size={chartStates['nasdaq100-safemax']?.size ?? 'full'}
+        minimizable={true}
+      >
+        <SafeMaxChart
+          startYears={safeMaxYears}
+          evaluate={rateEvaluator}
+          capeData={cape}
+          startBalance={startBalance}
+          horizon={horizon}
+          currency={currency}
+        />
+      </Chart>
+    ),
     'nasdaq100-median-trajectory': (
       <Chart
         chartId="nasdaq100-median-trajectory"
@@ -291,34 +334,7 @@ const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
         size={chartStates['nasdaq100-median-trajectory']?.size ?? 'half'}
         minimizable={true}
       >
-        {stats?.medianRun && (
-          <div className="h-72">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart
-                data={stats.medianRun.balances.map((b, i) => ({
-                  year: i,
-                  balance: b,
-                  withdrawal: stats.medianRun.withdrawals[i],
-                }))}
-                margin={{ left: 32, right: 8, top: 8, bottom: 8 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="year" />
-                <YAxis yAxisId="left" tickFormatter={(v: number) => currency.format(v)} />
-                <YAxis yAxisId="right" orientation="right" tickFormatter={(v: number) => currency.format(v)} />
-                <Tooltip
-                  formatter={(value: number, name: string) => {
-                    return [`${currency.format(value)}`, name];
-                  }}
-                  itemSorter={(item) => (item.dataKey === "balance" ? -1 : 1)}
-                />
-                <Legend />
-                <Line type="monotone" dataKey="balance" yAxisId="left" name="Total Balance" dot={false} strokeWidth={2} stroke="#8884d8" />
-                <Line type="monotone" dataKey="withdrawal" yAxisId="right" name="Withdrawal" dot={false} strokeWidth={2} stroke="#82ca9d" />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-        )}
+        {stats?.medianRun && <TrajectoryChart run={stats.medianRun} currency={currency} events={cashFlows} />}
       </Chart>
     ),
     'nasdaq100-sample': (
@@ -333,34 +349,7 @@ const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
         size={chartStates['nasdaq100-sample']?.size ?? 'half'}
         minimizable={true}
       >
-        {sampleRun && (
-          <div className="h-72">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart
-                data={sampleRun.balances.map((b, i) => ({
-                  year: i,
-                  balance: b,
-                  withdrawal: sampleRun.withdrawals[i],
-                }))}
-                margin={{ left: 32, right: 8, top: 8, bottom: 8 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="year" />
-                <YAxis yAxisId="left" tickFormatter={(v: number) => currency.format(v)} />
-                <YAxis yAxisId="right" orientation="right" tickFormatter={(v: number) => currency.format(v)} />
-                <Tooltip
-                  formatter={(value: number, name: string) => {
-                    return [`${currency.format(value)}`, name];
-                  }}
-                  itemSorter={(item) => (item.dataKey === "balance" ? -1 : 1)}
-                />
-                <Legend />
-                <Line type="monotone" dataKey="balance" yAxisId="left" name="Balance" dot={false} strokeWidth={2} stroke="#8884d8" />
-                <Line type="monotone" dataKey="withdrawal" yAxisId="right" name="Withdrawal" dot={false} strokeWidth={2} stroke="#82ca9d" />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-        )}
+        {sampleRun && <TrajectoryChart run={sampleRun} currency={currency} events={cashFlows} />}
       </Chart>
     ),
     ...[2, 3, 4, 5].reduce((acc, i) => {
@@ -378,37 +367,12 @@ const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
           size={chartStates[`nasdaq100-sample-${i}-trajectory`]?.size ?? 'half'}
           minimizable={true}
         >
-          <div className="h-72">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart
-                data={run.balances.map((b, idx) => ({
-                  year: idx,
-                  balance: b,
-                  withdrawal: run.withdrawals[idx],
-                }))}
-                margin={{ left: 32, right: 8, top: 8, bottom: 8 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="year" />
-                <YAxis yAxisId="left" tickFormatter={(v: number) => currency.format(v)} />
-                <YAxis yAxisId="right" orientation="right" tickFormatter={(v: number) => currency.format(v)} />
-                <Tooltip
-                  formatter={(value: number, name: string) => {
-                    return [`${currency.format(value)}`, name];
-                  }}
-                  itemSorter={(item) => (item.dataKey === "balance" ? -1 : 1)}
-                />
-                <Legend />
-                <Line type="monotone" dataKey="balance" yAxisId="left" name="Total Balance" dot={false} strokeWidth={2} stroke="#8884d8" />
-                <Line type="monotone" dataKey="withdrawal" yAxisId="right" name="Withdrawal" dot={false} strokeWidth={2} stroke="#82ca9d" />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
+          <TrajectoryChart run={run} currency={currency} events={cashFlows} />
         </Chart>
       );
       return acc;
     }, {} as Record<string, React.ReactElement<ChartProps>>),
-  }), [chartStates, onRefresh, toggleMinimize, toggleSize, stats, sims, currency, sampleRun]);
+  }), [chartStates, onRefresh, toggleMinimize, toggleSize, stats, sims, currency, sampleRun, cashFlows, cohorts, safeMaxYears, rateEvaluator, cape, startBalance, horizon, mode, startYear, onParamChange]);
 
   const [draggingId, setDraggingId] = React.useState<string | null>(null);
   const [overId, setOverId] = React.useState<string | null>(null);
@@ -452,6 +416,23 @@ const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
                       onChange={(v) => onParamChange('horizon', Math.max(1, Math.round(v)))}
                     />
                 </label>
+                <label className="block text-sm">Age at retirement
+                    <NumericInput
+                      className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
+                      value={startAge}
+                      step={1}
+                      min={18}
+                      onChange={(v) => onParamChange('startAge', Math.max(18, Math.round(v)))}
+                    />
+                </label>
+                <div className="pt-2 border-t space-y-2">
+                    <h3 className="font-semibold">Income streams</h3>
+                    <IncomeStreamsEditor streams={incomeStreams} onChange={(v) => onParamChange('incomeStreams', v)} />
+                </div>
+                <div className="pt-2 border-t space-y-2">
+                    <h3 className="font-semibold">Expenses and windfalls</h3>
+                    <CashFlowEventsEditor events={cashFlows} horizon={horizon} onChange={(v) => onParamChange('cashFlows', v)} />
+                </div>
                 <h3 className="font-semibold">Starting Withdrawal Rate:</h3>
 
                 <div className="flex gap-4">
@@ -485,6 +466,12 @@ const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
                         </div>
                     </div>
                 </div>
+                {firstYearIncome > 0 && (
+                    <div className="text-xs text-slate-500">
+                        Income pays {currency.format(Math.min(firstYearIncome, initialWithdrawalAmount))} of this in the first year, so the portfolio's first withdrawal
+                        is {currency.format(Math.max(0, initialWithdrawalAmount - firstYearIncome))} ({(Math.max(0, initialWithdrawalAmount - firstYearIncome) / Math.max(1, startBalance) * 100).toFixed(2)}%).
+                    </div>
+                )}
                 <div className="flex items-center gap-2">
                     <input id="infl" type="checkbox" checked={inflationAdjust} onChange={e => onParamChange('inflationAdjust', e.target.checked)} />
                     <label htmlFor="infl" className="text-sm">Inflation-adjust withdrawals</label>
@@ -521,6 +508,17 @@ const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
                     <span className="ml-2">%</span>
                   </div>
                 </div>
+                <div className={`flex items-center gap-2 ${!inflationAdjust || !useHistoricalInflation || mode === 'actual-seq' || isSyntheticMode(mode) ? 'opacity-50' : ''}`}>
+                    <input
+                        id="decorrelate-nasdaq100"
+                        type="checkbox"
+                        checked={decorrelateInflation}
+                        onChange={e => onParamChange('decorrelateInflation', e.target.checked)}
+                        disabled={!inflationAdjust || !useHistoricalInflation || mode === 'actual-seq' || isSyntheticMode(mode)}
+                    />
+                    <label htmlFor="decorrelate-nasdaq100" className="text-sm">Draw inflation apart from returns (for comparison)</label>
+                </div>
+                <GoalSeek spending={initialWithdrawalAmount} onSolve={handleSolve} />
             </div>
 
             <div className="bg-white dark:bg-slate-800 rounded-2xl shadow p-4 space-y-3">
@@ -535,9 +533,15 @@ const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
                         ⟳
                     </button>
                 </div>
-                <div className="text-xs text-slate-500">
-                    Years: {Math.min(...years)}–{Math.max(...years)} (<a href="#data" className="text-blue-600 dark:text-blue-400 underline">Data</a>)
-                </div>
+                {years.length > 0 ? (
+                    <div className="text-xs text-slate-500">
+                        Years: {Math.min(...years)}–{Math.max(...years)} (<a href="#data" className="text-blue-600 dark:text-blue-400 underline">Data</a>)
+                    </div>
+                ) : (
+                    <div className="text-xs text-amber-700 dark:text-amber-400">
+                        No start years qualify: the index has no returns on record (<a href="#data" className="text-blue-600 dark:text-blue-400 underline">Data</a>).
+                    </div>
+                )}
                 <div className="space-y-2 text-sm">
                     <label className="flex items-center gap-2">
                         <input type="radio" name="mode" checked={mode === 'actual-seq-random-start'} onChange={() => onParamChange('mode', 'actual-seq-random-start')} />
@@ -575,8 +579,36 @@ const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
                         <input type="radio" name="mode" checked={mode === 'bootstrap'} onChange={() => onParamChange('mode', 'bootstrap')} />
                         Bootstrap (sample with replacement)
                     </label>
+                    <label className="flex items-center gap-2">
+                        <input type="radio" name="mode" checked={mode === 'block-bootstrap'} onChange={() => onParamChange('mode', 'block-bootstrap')} />
+                        Block bootstrap (runs of consecutive years)
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="radio" name="mode" checked={mode === 'stationary-bootstrap'} onChange={() => onParamChange('mode', 'stationary-bootstrap')} />
+                        Stationary bootstrap (random-length runs of years)
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="radio" name="mode" checked={mode === 'cape-conditioned'} onChange={() => onParamChange('mode', 'cape-conditioned')} />
+                        CAPE-conditioned (start years valued like today)
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="radio" name="mode" checked={mode === 'parametric-normal'} onChange={() => onParamChange('mode', 'parametric-normal')} />
+                        Parametric: normal returns (fitted model)
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="radio" name="mode" checked={mode === 'parametric-lognormal'} onChange={() => onParamChange('mode', 'parametric-lognormal')} />
+                        Parametric: lognormal returns (fitted model)
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="radio" name="mode" checked={mode === 'parametric-t'} onChange={() => onParamChange('mode', 'parametric-t')} />
+                        Parametric: fat-tailed Student-t returns (fitted model)
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="radio" name="mode" checked={mode === 'regime-switching'} onChange={() => onParamChange('mode', 'regime-switching')} />
+                        Regime switching (bull / bear / stagflation)
+                    </label>
                 </div>
-                {(mode === 'actual-seq-random-start' || mode === 'random-shuffle' || mode === 'bootstrap') && (
+                {mode !== 'actual-seq' && (
                     <>
                         <label className="block text-sm"># Monte Carlo runs
                             <input type="number" className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600" value={numRuns} onChange={e => onParamChange('numRuns', Math.max(1, Number(e.target.value)))} />
@@ -584,17 +616,42 @@ const Nasdaq100Tab: React.FC<NasdaqTabProps> = ({
                         <label className="block text-sm">Seed (optional)
                             <input type="number" className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600" value={seed} onChange={e => onParamChange('seed', e.target.value === '' ? '' : Number(e.target.value))} />
                         </label>
+                        {(mode === 'block-bootstrap' || mode === 'stationary-bootstrap') && (
+                            <label className="block text-sm">{mode === 'block-bootstrap' ? 'Block length (years)' : 'Mean block length (years)'}
+                                <NumericInput className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600" value={blockLength} step={1} min={1} onChange={v => onParamChange('blockLength', Math.max(1, v))} />
+                            </label>
+                        )}
+                        {(mode === 'actual-seq-random-start' || mode === 'cape-conditioned') && (
+                            <CompleteCohortsToggle id="complete-cohorts-nasdaq100" checked={completeCohorts} startYears={startYears} horizon={horizon} onChange={v => onParamChange('completeCohorts', v)} />
+                        )}
+                        {mode === 'cape-conditioned' && (
+                            <CapeConditionSettings currentCape={currentCape} latest={latestCape(cape)} startYears={startYears} horizon={horizon} onChange={v => onParamChange('currentCape', v)} />
+                        )}
+                        {isParametricMode(mode) && (
+                            <ReturnModelEditor fitted={fittedModel} overrides={returnModelOverrides} mode={mode} onChange={v => onParamChange('returnModelOverrides', v)} />
+                        )}
+                        {mode === 'regime-switching' && (
+                            <RegimeModelEditor fitted={fittedRegimes} transitions={regimeTransitions} onChange={v => onParamChange('regimeTransitions', v)} />
+                        )}
                     </>
                 )}
             </div>
 
             <div className="bg-white dark:bg-slate-800 rounded-2xl shadow p-4 space-y-3">
                 <h2 className="font-semibold">Results</h2>
-                {stats && (
+                {noComparable && <p className="text-sm text-amber-700 dark:text-amber-400">{noComparableStartYears(horizon)}</p>}
+                {stats && !noComparable && (
                     <div className="space-y-2 text-sm">
-                        <div>1st year withdrawal: <span className="font-semibold">{currency.format(initialWithdrawalAmount)}</span></div>
+                        {incomeStreams.length > 0 ? (
+                            <div>1st year median portfolio withdrawal: <span className="font-semibold">{currency.format(stats.medianFirstWithdrawal)}</span> ({(stats.medianFirstWithdrawal / Math.max(1, startBalance) * 100).toFixed(2)}% of the portfolio)</div>
+                        ) : (
+                            <div>1st year withdrawal: <span className="font-semibold">{currency.format(initialWithdrawalAmount)}</span></div>
+                        )}
                         {horizon >= 5 && <div>5th year median withdrawal: <span className="font-semibold">{currency.format(stats.medianFifthYearWithdrawal)}</span></div>}
                         <div>Success rate: <span className="font-semibold">{(stats.successRate * 100).toFixed(1)}%</span> ({sims.length} run{sims.length !== 1 ? 's' : ''})</div>
+                        {mode === 'cape-conditioned' && unconditionedSuccess != null && (
+                          <div>Unconditioned (any start year): <span className="font-semibold">{(unconditionedSuccess * 100).toFixed(1)}%</span> (CAPE conditioning: {stats.successRate >= unconditionedSuccess ? '+' : ''}{((stats.successRate - unconditionedSuccess) * 100).toFixed(1)} pts)</div>
+                        )}
                         <div>Median ending balance: <span className="font-semibold">{currency.format(percentile(stats.endingBalances, 0.5))}</span></div>
                         <div>10th–90th percentile ending: {currency.format(percentile(stats.endingBalances, 0.10))} – {currency.format(percentile(stats.endingBalances, 0.90))}</div>
                         <div className="border-t pt-2 mt-2">
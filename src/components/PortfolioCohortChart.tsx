@@ -0,0 +1,30 @@
+import React, { useMemo } from "react";
+import { portfolioCohortJob, portfolioCohortOutcomes } from "../lib/cohorts";
+import type { SimulationJob } from "../lib/simulationJob";
+import { useSimulation } from "../hooks/useSimulation";
+import CohortChart from "./CohortChart";
+import SimulationProgress from "./SimulationProgress";
+
+interface PortfolioCohortChartProps {
+  job: SimulationJob;
+  years: number[]; // years with returns for every held asset
+  currency: Intl.NumberFormat;
+  selectedYear?: number;
+  onSelect: (startYear: number) => void;
+}
+
+// Historical cohorts for a portfolio, run on the worker pool only while the chart is open.
+const PortfolioCohortChart: React.FC<PortfolioCohortChartProps> = ({ job, years, currency, selectedYear, onSelect }) => {
+  const cohortJob = useMemo(() => portfolioCohortJob(job, years), [job, years]);
+  const { runs, progress, running } = useSimulation(cohortJob);
+  // With no complete start years nothing runs, and the runs left over belong to an earlier job
+  const cohorts = useMemo(
+    () => (running || cohortJob.yearSamples.length === 0 ? [] : portfolioCohortOutcomes(cohortJob, runs)),
+    [running, cohortJob, runs]
+  );
+
+  if (running) return <SimulationProgress progress={progress} />;
+  return <CohortChart cohorts={cohorts} horizon={job.horizon} currency={currency} selectedYear={selectedYear} onSelect={onSelect} />;
+};
+
+export default PortfolioCohortChart;
@@ -1,208 +1,86 @@
 import React, { useMemo, useEffect, useRef } from "react";
-import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, Area, AreaChart, CartesianGrid } from "recharts";
+import { XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, Area, AreaChart, CartesianGrid } from "recharts";
 import { LayoutGroup, motion } from "framer-motion";
-import type { DrawdownStrategy } from "../App";
+import type { DrawdownStrategy } from "../lib/drawdown";
+import type { DrawdownStrategies, WithdrawalRuleParams } from "../lib/withdrawals";
 import { useData } from "../data/DataContext";
-import { pctToMult, bootstrapSample, shuffle, percentile, calculateDrawdownStats } from "../lib/simulation";
-import { bitcoinReturnMultiplier } from "../lib/bitcoin";
-import AllocationSlider from "./AllocationSlider";
+import type { CashYieldOptions, CashYieldSource } from "../lib/cashYield";
+import { drawBitcoinBackfill, type BitcoinBackfillOptions } from "../lib/bitcoin";
+import { percentile, calculateDrawdownStats, type AssetHoldings, type PortfolioRunResult, type SimulationMode } from "../lib/simulation";
+import { sampleYears, startYearPool, recordedYears, portfolioYears, buildReturnTable, historyLimit, type SimulationJob } from "../lib/simulationJob";
+import { assetsOf, heldAssets, investedAssets } from "../lib/assets";
+import { completeStartYears } from "../lib/cohorts";
+import { latestCape, portfolioRateEvaluator } from "../lib/safemax";
+import { capeStartYears, noComparableStartYears } from "../lib/capeConditioning";
+import { goalSeekUnavailable, solvePortfolioStartBalance, solvePortfolioWithdrawal, successRate, type SolveFor } from "../lib/goalSeek";
+import type { CashRefillOptions, CashRefillPolicy, ThreeBucketOptions } from "../lib/buckets";
+import { taxSummary, type TaxOptions } from "../lib/taxes";
+import { incomeFor, type IncomeStream } from "../lib/income";
+import type { CashFlowEvent } from "../lib/cashFlows";
+import { allocationWeights, type RebalanceOptions, type RebalanceMode } from "../lib/rebalancing";
+import HoldingsInputs from "./HoldingsInputs";
 import CurrencyInput from "./CurrencyInput";
 import NumericInput from "./NumericInput";
 import Chart, { type ChartProps } from "./Chart";
 import type { ChartState } from "../App";
 import MinimizedChartsBar from "./MinimizedChartsBar";
+import PortfolioCohortChart from "./PortfolioCohortChart";
+import SafeMaxChart from "./SafeMaxChart";
+import AllocationHeatmap from "./AllocationHeatmap";
+import GoalSeek from "./GoalSeek";
+import CapeConditionSettings from "./CapeConditionSettings";
+import CompleteCohortsToggle from "./CompleteCohortsToggle";
+import ReturnModelEditor from "./ReturnModelEditor";
+import RegimeModelEditor from "./RegimeModelEditor";
+import ThreeBucketSettings from "./ThreeBucketSettings";
+import TaxSettings from "./TaxSettings";
+import TrajectoryChart from "./TrajectoryChart";
+import IncomeStreamsEditor from "./IncomeStreamsEditor";
+import CashFlowEventsEditor from "./CashFlowEventsEditor";
+import BitcoinBackfillSettings from "./BitcoinBackfillSettings";
+import WithdrawalRuleSettings from "./WithdrawalRuleSettings";
+import DrawdownOrderSelect from "./DrawdownOrderSelect";
+import CashCoverageChart from "./CashCoverageChart";
+import AssetAllocationChart from "./AssetAllocationChart";
+import SimulationProgress from "./SimulationProgress";
+import { streamSeed } from "../lib/random";
+import { applyOverrides, fitReturnModel, isParametricMode, syntheticYears, type ReturnModelOverrides } from "../lib/returnModel";
+import { fitRegimeModel, isSyntheticMode, pathGenerator, withTransitions } from "../lib/regimeModel";
+import { runJob, runJobs, useJobSummaries, useSimulation } from "../hooks/useSimulation";
 
 // ... (imports)
 
-// Custom RunResult for portfolio simulation
-type PortfolioRunResult = {
-  balances: { total: number; cash: number; spy: number; qqq: number; bitcoin: number; bonds: number }[];
-  failedYear: number | null;
-  withdrawals: number[];
-};
-
-function simulatePortfolioPath(
-  spyReturns: number[],
-  qqqReturns: number[],
-  bitcoinReturns: number[],
-  bondReturns: number[],
-  initialCash: number,
-  initialSpy: number,
-  initialQqq: number,
-  initialBitcoin: number,
-  initialBonds: number,
-  horizon: number,
-  initialWithdrawalRate: number,
-  inflationRate: number,
-  inflationAdjust: boolean,
-  drawdownStrategy: DrawdownStrategy,
-  inflationRates?: number[],
-): PortfolioRunResult {
-  const balances = new Array(horizon + 1).fill(0).map(() => ({ total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 }));
-  const withdrawals: number[] = new Array(horizon).fill(0);
-  let cash = initialCash;
-  let spy = initialSpy;
-  let qqq = initialQqq;
-  let bitcoin = initialBitcoin;
-  let bonds = initialBonds;
-  const startBalance = initialCash + initialSpy + initialQqq + initialBitcoin + initialBonds;
-  const baseWithdrawal = startBalance * initialWithdrawalRate;
-  let withdrawalAmount = baseWithdrawal;
-
-  balances[0] = { total: startBalance, cash, spy, qqq, bitcoin, bonds };
-  let failedYear: number | null = null;
-
-  for (let y = 0; y < horizon; y++) {
-    const currentWithdrawal = inflationAdjust ? withdrawalAmount : baseWithdrawal;
-    withdrawals[y] = currentWithdrawal;
-
-    const fromCash = Math.min(currentWithdrawal, cash);
-    cash -= fromCash;
-    let remainingWithdrawal = currentWithdrawal - fromCash;
-
-    if (remainingWithdrawal > 0) {
-      if (drawdownStrategy === 'cashFirst_spyThenQqq') {
-        const fromSpy = Math.min(remainingWithdrawal, spy);
-        spy -= fromSpy;
-        remainingWithdrawal -= fromSpy;
-        if (remainingWithdrawal > 0) {
-          const fromQqq = Math.min(remainingWithdrawal, qqq);
-          qqq -= fromQqq;
-          remainingWithdrawal -= fromQqq;
-        }
-        if (remainingWithdrawal > 0) {
-          const fromBitcoin = Math.min(remainingWithdrawal, bitcoin);
-          bitcoin -= fromBitcoin;
-          remainingWithdrawal -= fromBitcoin;
-        }
-        if (remainingWithdrawal > 0) {
-          const fromBonds = Math.min(remainingWithdrawal, bonds);
-          bonds -= fromBonds;
-          remainingWithdrawal -= fromBonds;
-        }
-      } else if (drawdownStrategy === 'cashFirst_qqqThenSpy') {
-        const fromQqq = Math.min(remainingWithdrawal, qqq);
-        qqq -= fromQqq;
-        remainingWithdrawal -= fromQqq;
-        if (remainingWithdrawal > 0) {
-          const fromSpy = Math.min(remainingWithdrawal, spy);
-          spy -= fromSpy;
-          remainingWithdrawal -= fromSpy;
-        }
-        if (remainingWithdrawal > 0) {
-          const fromBitcoin = Math.min(remainingWithdrawal, bitcoin);
-          bitcoin -= fromBitcoin;
-          remainingWithdrawal -= fromBitcoin;
-        }
-        if (remainingWithdrawal > 0) {
-          const fromBonds = Math.min(remainingWithdrawal, bonds);
-          bonds -= fromBonds;
-          remainingWithdrawal -= fromBonds;
-        }
-      } else if (drawdownStrategy === 'cashFirst_equalParts') {
-        const part = remainingWithdrawal / 4;
-        const fromSpy = Math.min(part, spy);
-        spy -= fromSpy;
-        remainingWithdrawal -= fromSpy;
-        const fromQqq = Math.min(part, qqq);
-        qqq -= fromQqq;
-        remainingWithdrawal -= fromQqq;
-        const fromBitcoin = Math.min(part, bitcoin);
-        bitcoin -= fromBitcoin;
-        remainingWithdrawal -= fromBitcoin;
-        const fromBonds = Math.min(part, bonds);
-        bonds -= fromBonds;
-        remainingWithdrawal -= fromBonds;
-        const order = [
-          { bal: spy, set: (v: number) => { spy -= v; } },
-          { bal: qqq, set: (v: number) => { qqq -= v; } },
-          { bal: bitcoin, set: (v: number) => { bitcoin -= v; } },
-          { bal: bonds, set: (v: number) => { bonds -= v; } },
-        ];
-        for (const asset of order) {
-          if (remainingWithdrawal <= 0) break;
-          const take = Math.min(remainingWithdrawal, asset.bal);
-          asset.set(take);
-          remainingWithdrawal -= take;
-        }
-      } else if (drawdownStrategy === 'cashFirst_bestPerformer') {
-        const perf = [
-          { key: 'spy', ret: spyReturns[y], bal: spy },
-          { key: 'qqq', ret: qqqReturns[y], bal: qqq },
-          { key: 'bitcoin', ret: bitcoinReturns[y], bal: bitcoin },
-          { key: 'bonds', ret: bondReturns[y], bal: bonds },
-        ].sort((a, b) => b.ret - a.ret);
-        for (const p of perf) {
-          if (remainingWithdrawal <= 0) break;
-          const take = Math.min(remainingWithdrawal, p.bal);
-          if (p.key === 'spy') spy -= take;
-          else if (p.key === 'qqq') qqq -= take;
-          else if (p.key === 'bitcoin') bitcoin -= take;
-          else bonds -= take;
-          remainingWithdrawal -= take;
-        }
-      } else if (drawdownStrategy === 'cashFirst_worstPerformer') {
-        const perf = [
-          { key: 'spy', ret: spyReturns[y], bal: spy },
-          { key: 'qqq', ret: qqqReturns[y], bal: qqq },
-          { key: 'bitcoin', ret: bitcoinReturns[y], bal: bitcoin },
-          { key: 'bonds', ret: bondReturns[y], bal: bonds },
-        ].sort((a, b) => a.ret - b.ret);
-        for (const p of perf) {
-          if (remainingWithdrawal <= 0) break;
-          const take = Math.min(remainingWithdrawal, p.bal);
-          if (p.key === 'spy') spy -= take;
-          else if (p.key === 'qqq') qqq -= take;
-          else if (p.key === 'bitcoin') bitcoin -= take;
-          else bonds -= take;
-          remainingWithdrawal -= take;
-        }
-      }
-    }
-
-    const totalBeforeGrowth = cash + spy + qqq + bitcoin + bonds;
-    if (totalBeforeGrowth <= 0 && failedYear === null) {
-      failedYear = y + 1;
-      balances[y + 1] = { total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 };
-      continue;
-    }
-
-    spy *= spyReturns[y];
-    qqq *= qqqReturns[y];
-    bitcoin *= bitcoinReturns[y];
-    bonds *= bondReturns[y];
-
-    const totalAfterGrowth = cash + spy + qqq + bitcoin + bonds;
-    balances[y + 1] = { total: totalAfterGrowth, cash, spy, qqq, bitcoin, bonds };
-
-    if (inflationAdjust) {
-      const rate = inflationRates ? inflationRates[y] : inflationRate;
-      withdrawalAmount *= (1 + rate);
-    }
-  }
-
-  return { balances, failedYear, withdrawals };
-}
-
-
 interface PortfolioTabProps {
   startBalance: number;
-  cash: number;
-  spy: number;
-  qqq: number;
-  bitcoin: number;
-  bonds: number;
+  holdings: AssetHoldings;
   drawdownStrategy: DrawdownStrategy;
+  drawdownWithdrawalStrategy: DrawdownStrategies;
+  withdrawalRuleParams: WithdrawalRuleParams;
+  cashRefill: CashRefillOptions;
+  threeBucket: ThreeBucketOptions;
+  taxes: TaxOptions;
+  rebalance: RebalanceOptions;
+  cashYield: CashYieldOptions;
+  bitcoinBackfill: BitcoinBackfillOptions;
   horizon: number;
+  startAge: number;
+  incomeStreams: IncomeStream[];
+  cashFlows: CashFlowEvent[];
   withdrawRate: number;
   initialWithdrawalAmount: number;
   isInitialAmountLocked: boolean;
   inflationAdjust: boolean;
   inflationRate: number;
   useHistoricalInflation: boolean;
-  mode: "actual-seq" | "actual-seq-random-start" | "random-shuffle" | "bootstrap";
+  decorrelateInflation: boolean;
+  completeCohorts: boolean;
+  mode: SimulationMode;
   numRuns: number;
   seed: number | "";
+  blockLength: number;
+  returnModelOverrides: ReturnModelOverrides;
+  currentCape: number | null;
+  regimeTransitions: number[][] | null;
   startYear: number;
   onRefresh: () => void;
   onParamChange: (param: string, value: unknown) => void;
@@ -217,22 +95,35 @@ interface PortfolioTabProps {
 
 const PortfolioTab: React.FC<PortfolioTabProps> = ({
   startBalance,
-  cash,
-  spy,
-  qqq,
-  bitcoin,
-  bonds,
+  holdings,
   drawdownStrategy,
+  drawdownWithdrawalStrategy,
+  withdrawalRuleParams,
+  cashRefill,
+  threeBucket,
+  taxes,
+  rebalance,
+  cashYield,
+  bitcoinBackfill,
   horizon,
+  startAge,
+  incomeStreams,
+  cashFlows,
   withdrawRate,
   initialWithdrawalAmount,
   isInitialAmountLocked,
   inflationAdjust,
   inflationRate,
   useHistoricalInflation,
+  decorrelateInflation,
+  completeCohorts,
   mode,
   numRuns,
   seed,
+  blockLength,
+  returnModelOverrides,
+  currentCape,
+  regimeTransitions,
   startYear,
   onRefresh,
   onParamChange,
@@ -247,37 +138,47 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
   const currency = useMemo(() => new Intl.NumberFormat(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 0 }), []);
   const [draggingId, setDraggingId] = React.useState<string | null>(null);
   const [overId, setOverId] = React.useState<string | null>(null);
-  const { sp500, nasdaq100, bitcoin: btcReturns, bonds: bondReturns, inflation } = useData();
-
-  const years = useMemo(() => {
-    const spyYears = new Set(sp500.map(d => d.year));
-    const qqqYears = new Set(nasdaq100.map(d => d.year));
-    const bondYears = new Set(bondReturns.map(d => d.year));
-    return Array.from(spyYears)
-      .filter(y => qqqYears.has(y) && bondYears.has(y))
-      .sort((a, b) => a - b);
-  }, [sp500, nasdaq100, bondReturns]);
+  const { marketData } = useData();
+  const { bitcoin: btcReturns, cape, inflation } = marketData;
+  const held = useMemo(() => heldAssets(holdings), [holdings]);
+  const holdsBitcoin = (holdings.bitcoin ?? 0) > 0;
+
+  const years = useMemo(
+    () => recordedYears(portfolioYears(marketData, held), marketData, holdsBitcoin && bitcoinBackfill.method === 'exclude'),
+    [marketData, held, holdsBitcoin, bitcoinBackfill.method]
+  );
+  const limit = useMemo(() => historyLimit(marketData, held), [marketData, held]);
+  const btcFirstYear = useMemo(() => (btcReturns.length > 0 ? Math.min(...btcReturns.map(d => d.year)) : null), [btcReturns]);
 
-  const returnsByYear = useMemo(() => {
-    const map = new Map<number, { spy: number; qqq: number; bitcoin: number; bonds: number }>();
-    const spyReturnsMap = new Map(sp500.map(d => [d.year, pctToMult(d.returnPct)]));
-    const qqqReturnsMap = new Map(nasdaq100.map(d => [d.year, pctToMult(d.returnPct)]));
-    const bondReturnsMap = new Map(bondReturns.map(d => [d.year, pctToMult(d.returnPct)]));
-    const btcReturnsMap = new Map(btcReturns.map(d => [d.year, pctToMult(d.returnPct)]));
-    for (const year of years) {
-      map.set(year, {
-        spy: spyReturnsMap.get(year)!,
-        qqq: qqqReturnsMap.get(year)!,
-        bitcoin: bitcoin > 0 ? (btcReturnsMap.get(year) ?? bitcoinReturnMultiplier(year)) : 1.0,
-        bonds: bondReturnsMap.get(year)!,
-      });
-    }
-    return map;
-  }, [years, bitcoin, sp500, nasdaq100, btcReturns, bondReturns]);
+  const returnsByYear = useMemo(
+    () => buildReturnTable(marketData, years, holdsBitcoin, cashYield, bitcoinBackfill),
+    [years, holdsBitcoin, marketData, cashYield, bitcoinBackfill]
+  );
 
-  const inflationSorted = useMemo(() => inflation.slice().sort((a, b) => a.year - b.year), [inflation]);
-  const inflationYears = useMemo(() => inflationSorted.map(d => d.year), [inflationSorted]);
-  const inflationRatesChrono = useMemo(() => inflationSorted.map(d => d.inflationPct / 100), [inflationSorted]);
+  const inflationMap = useMemo(() => new Map(inflation.map(d => [d.year, d.inflationPct / 100])), [inflation]);
+  const inflationYears = useMemo(() => inflation.map(d => d.year).sort((a, b) => a - b), [inflation]);
+  const fittedModel = useMemo(
+    () => fitReturnModel(marketData),
+    [marketData]
+  );
+  const fittedRegimes = useMemo(
+    () => fitRegimeModel(marketData),
+    [marketData]
+  );
+  const returnModel = useMemo(() => applyOverrides(fittedModel, returnModelOverrides), [fittedModel, returnModelOverrides]);
+  const regimeModel = useMemo(() => withTransitions(fittedRegimes, regimeTransitions), [fittedRegimes, regimeTransitions]);
+  // Complete cohorts need real data for every held asset, so holding Bitcoin rules out starts before its record
+  const realYears = useMemo(() => recordedYears(years, marketData, holdsBitcoin), [years, marketData, holdsBitcoin]);
+  const capeYears = useMemo(
+    () => capeStartYears(years, cape, currentCape ?? latestCape(cape)?.cape, horizon, realYears),
+    [years, cape, currentCape, horizon, realYears]
+  );
+  const startYears = useMemo(
+    () => startYearPool(mode === 'cape-conditioned' ? capeYears : years, horizon, completeCohorts, realYears),
+    [mode, capeYears, years, horizon, completeCohorts, realYears]
+  );
+  // With no comparable start years the mode runs nothing, so say so rather than show stale or empty results
+  const noComparable = mode === 'cape-conditioned' && startYears.length === 0;
   const effectiveInflationRate = useHistoricalInflation ? 0 : inflationRate;
 
   const firstRender = useRef(true);
@@ -289,52 +190,44 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
     const id = setTimeout(onRefresh, 100);
     return () => clearTimeout(id);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [startBalance, cash, spy, qqq, bitcoin, bonds, drawdownStrategy, horizon, withdrawRate, initialWithdrawalAmount, inflationAdjust, effectiveInflationRate, useHistoricalInflation, mode, numRuns, seed, startYear]);
-
-  const sims = useMemo(() => {
-    const runs: PortfolioRunResult[] = [];
-    const initialW = initialWithdrawalAmount / startBalance;
-
-    const inflationFromYears = (ys: number[]) => ys.map(y => {
-      const idx = inflationYears.indexOf(y);
-      return idx === -1 ? 0 : inflationRatesChrono[idx];
-    });
-
-    if (mode === "actual-seq") {
-      let startIdx = years.indexOf(startYear);
-      if (startIdx === -1) startIdx = 0;
-      const yearSample = years.slice(startIdx, startIdx + horizon);
-      const spyReturns = yearSample.map(y => returnsByYear.get(y)!.spy);
-      const qqqReturns = yearSample.map(y => returnsByYear.get(y)!.qqq);
-      const bitcoinReturns = yearSample.map(y => returnsByYear.get(y)!.bitcoin);
-      const bondReturns = yearSample.map(y => returnsByYear.get(y)!.bonds);
-      const inflSeq = useHistoricalInflation ? inflationFromYears(yearSample) : undefined;
-      runs.push(simulatePortfolioPath(spyReturns, qqqReturns, bitcoinReturns, bondReturns, cash, spy, qqq, bitcoin, bonds, horizon, initialW, inflationRate, inflationAdjust, drawdownStrategy, inflSeq));
-    } else {
-      // Monte Carlo modes
-      for (let i = 0; i < numRuns; i++) {
-        let yearSample: number[] = [];
-        if (mode === 'bootstrap') {
-          yearSample = bootstrapSample(years, horizon);
-        } else if (mode === 'random-shuffle') {
-          const shuffled = shuffle(years);
-          yearSample = Array.from({ length: horizon }, (_, j) => shuffled[j % shuffled.length]);
-        } else if (mode === 'actual-seq-random-start') {
-          const startIdx = Math.floor(Math.random() * years.length);
-          yearSample = Array.from({ length: horizon }, (_, j) => years[(startIdx + j) % years.length]);
-        }
-        const spyReturns = yearSample.map(y => returnsByYear.get(y)!.spy);
-        const qqqReturns = yearSample.map(y => returnsByYear.get(y)!.qqq);
-        const bitcoinReturns = yearSample.map(y => returnsByYear.get(y)!.bitcoin);
-        const bondReturns = yearSample.map(y => returnsByYear.get(y)!.bonds);
-        const inflSeq = useHistoricalInflation ? inflationFromYears(yearSample) : undefined;
-        runs.push(simulatePortfolioPath(spyReturns, qqqReturns, bitcoinReturns, bondReturns, cash, spy, qqq, bitcoin, bonds, horizon, initialW, inflationRate, inflationAdjust, drawdownStrategy, inflSeq));
-      }
-    }
-    return runs;
+  }, [startBalance, holdings, drawdownStrategy, drawdownWithdrawalStrategy, withdrawalRuleParams, cashRefill, threeBucket, rebalance, taxes, startAge, incomeStreams, cashFlows, cashYield, bitcoinBackfill, horizon, withdrawRate, initialWithdrawalAmount, inflationAdjust, effectiveInflationRate, useHistoricalInflation, mode, numRuns, seed, blockLength, startYear, decorrelateInflation, completeCohorts, returnModelOverrides, currentCape, regimeTransitions]);
+
+  const job: SimulationJob = useMemo(() => {
+    const history = isSyntheticMode(mode)
+      ? syntheticYears(pathGenerator(mode, returnModel, regimeModel), horizon, numRuns, seed, returnsByYear, useHistoricalInflation ? inflationMap : undefined, holdsBitcoin)
+      : {
+        yearSamples: sampleYears(mode, years, horizon, numRuns, seed, startYear, blockLength, startYears),
+        returnsByYear,
+        inflationByYear: useHistoricalInflation ? inflationMap : undefined,
+        inflationYearSamples: useHistoricalInflation && decorrelateInflation
+          ? sampleYears(mode, inflationYears, horizon, numRuns, streamSeed(seed, 1), startYear, blockLength, startYearPool(inflationYears, horizon, completeCohorts))
+          : undefined,
+      };
+    return {
+      ...history,
+      // Each run makes up its own Bitcoin returns for the years before its record
+      bitcoinDraws: !isSyntheticMode(mode) && holdsBitcoin ? drawBitcoinBackfill(history.yearSamples, realYears, bitcoinBackfill, streamSeed(seed, 2)) : undefined,
+      initial: holdings,
+      horizon,
+      withdrawal: {
+        strategy: drawdownWithdrawalStrategy,
+        params: withdrawalRuleParams,
+        settings: { startBalance, initialWithdrawalAmount, inflationAdjust, inflationRate, capeData: cape },
+      },
+      options: { drawdownStrategy, cashRefill, threeBucket, rebalance, taxes, startAge, income: incomeStreams, cashFlows },
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [refreshCounter, returnsByYear, useHistoricalInflation, inflationYears, inflationRatesChrono, years, cash, spy, qqq, bitcoin, bonds, horizon, startYear, initialWithdrawalAmount, startBalance, effectiveInflationRate, inflationAdjust, drawdownStrategy, mode, numRuns]);
-
+  }, [refreshCounter, returnsByYear, useHistoricalInflation, inflationMap, years, holdings, horizon, startYear, initialWithdrawalAmount, startBalance, effectiveInflationRate, inflationAdjust, drawdownStrategy, drawdownWithdrawalStrategy, withdrawalRuleParams, cape, cashRefill, threeBucket, rebalance, taxes, startAge, incomeStreams, cashFlows, mode, numRuns, seed, blockLength, inflationYears, decorrelateInflation, completeCohorts, returnModel, regimeModel, startYears, holdsBitcoin, realYears, bitcoinBackfill]);
+  const { runs: sims, progress, running } = useSimulation(job);
+  // The same runs from any start year, to show what conditioning on CAPE changes
+  const unconditionedJobs = useMemo(() => {
+    if (mode !== 'cape-conditioned') return [];
+    const yearSamples = sampleYears('actual-seq-random-start', years, horizon, numRuns, seed, startYear, blockLength, startYearPool(years, horizon, completeCohorts, realYears));
+    return [{ ...job, yearSamples, bitcoinDraws: job.bitcoinDraws && drawBitcoinBackfill(yearSamples, realYears, bitcoinBackfill, streamSeed(seed, 2)) }];
+    // Follows the job, which rebuilds whenever an input read here changes; the CAPE and cohort settings reach it through startYears
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [job]);
+  const { summaries: [unconditionedSuccess] } = useJobSummaries(unconditionedJobs, successRate);
 
   const stats = useMemo(() => {
     if (sims.length === 0) return null;
@@ -353,6 +246,8 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
       balances: [],
       failedYear: null,
       withdrawals: [],
+      guardrailTriggers: [],
+      turnover: [],
     };
 
     for (let t = 0; t <= horizon; t++) {
@@ -368,22 +263,49 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
 
       medianRun.balances.push({
         total: percentile(sims.map(s => s.balances[t].total), 0.5),
-        cash: percentile(sims.map(s => s.balances[t].cash), 0.5),
-        spy: percentile(sims.map(s => s.balances[t].spy), 0.5),
-        qqq: percentile(sims.map(s => s.balances[t].qqq), 0.5),
-        bitcoin: percentile(sims.map(s => s.balances[t].bitcoin), 0.5),
-        bonds: percentile(sims.map(s => s.balances[t].bonds), 0.5),
+        ...Object.fromEntries(assetsOf(holdings).map(a => [a, percentile(sims.map(s => s.balances[t][a] ?? 0), 0.5)])),
       });
 
       if (t < horizon) {
         medianRun.withdrawals.push(percentile(sims.map(s => s.withdrawals[t]), 0.5));
+        medianRun.turnover.push(percentile(sims.map(s => s.turnover[t]), 0.5));
       }
     }
+    if (sims[0].income) medianRun.income = sims[0].income.map((_, t) => percentile(sims.map(s => s.income?.[t] ?? 0), 0.5));
+    if (sims[0].rmds) medianRun.rmds = sims[0].rmds.map((_, t) => percentile(sims.map(s => s.rmds?.[t] ?? 0), 0.5));
+    const medianFirstWithdrawal = percentile(sims.map(s => s.withdrawals[0]), 0.5);
     const medianFifthYearWithdrawal = horizon >= 5 ? percentile(sims.map(s => s.withdrawals[4]), 0.5) : 0;
-    return { successRate, endingBalances, bands, ...drawdownStats, medianFifthYearWithdrawal, medianRun };
-  }, [sims, horizon]);
+    return { successRate, endingBalances, bands, ...drawdownStats, medianFirstWithdrawal, medianFifthYearWithdrawal, medianRun, taxes: taxSummary(sims) };
+  }, [sims, horizon, holdings]);
 
   const sampleRun = sims[0];
+  const firstYearIncome = useMemo(() => incomeFor(incomeStreams, startAge, 1).total, [incomeStreams, startAge]);
+
+  const safeMaxYears = useMemo(() => completeStartYears(years, horizon), [years, horizon]);
+  const rateEvaluator = useMemo(() => portfolioRateEvaluator(job, runJobs), [job]);
+
+  // Searches reuse the job's year samples, so every trial faces the same markets
+  const handleSolve = async (solveFor: SolveFor, target: number, spending: number, signal: AbortSignal) => {
+    if (solveFor === 'withdrawal') {
+      const result = await solvePortfolioWithdrawal(job, target, trial => runJob(trial, signal));
+      if (!result) return null;
+      onParamChange('initialWithdrawalAmount', result.value);
+      return `A ${currency.format(result.value)} first withdrawal (${(result.value / startBalance * 100).toFixed(2)}%) succeeds in ${(result.successRate * 100).toFixed(1)}% of runs.`;
+    }
+    const result = await solvePortfolioStartBalance(job, spending, target, trial => runJob(trial, signal));
+    if (!result) return null;
+    const factor = result.value / startBalance;
+    // Lock the spending so the new balance changes the rate, not the amount
+    setIsInitialAmountLocked(true);
+    onParamChange('initialWithdrawalAmount', spending);
+    onParamChange('allocation', Object.fromEntries(Object.entries(holdings).map(([a, v]) => [a, Math.round(v * factor)])));
+    return `${currency.format(result.value)}, split as today, funds ${currency.format(spending)} a year in ${(result.successRate * 100).toFixed(1)}% of runs.`;
+  };
+
+  const rebalanceTarget = useMemo(
+    () => (rebalance.mode !== 'none' && !threeBucket.enabled ? allocationWeights(holdings) : undefined),
+    [rebalance.mode, threeBucket.enabled, holdings]
+  );
 
   const charts: Record<string, React.ReactElement<ChartProps>> = useMemo(() => ({
     'portfolio-trajectory': (
@@ -461,34 +383,71 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
         size={chartStates['portfolio-median-asset-allocation']?.size ?? 'half'}
         minimizable={true}
       >
-        {stats?.medianRun && (
-          <div className="h-72">
-            <ResponsiveContainer width="100%" height="100%">
-              <AreaChart
-                data={stats.medianRun.balances.map((b, i) => ({ year: i, cash: b.cash, spy: b.spy, qqq: b.qqq, bitcoin: b.bitcoin, bonds: b.bonds }))}
-                stackOffset="expand"
-                margin={{ left: 32, right: 8, top: 8, bottom: 8 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="year" />
-                <YAxis tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} />
-                <Tooltip
-                  formatter={(value: number, _: string, props: { payload?: { cash: number; spy: number; qqq: number; bitcoin: number; bonds: number } }) => {
-                    const total = props.payload ? props.payload.cash + props.payload.spy + props.payload.qqq + props.payload.bitcoin + props.payload.bonds : 0;
-                    const pct = total === 0 ? 0 : (value / total) * 100;
-                    return `${currency.format(value)} (${pct.toFixed(1)}%)`;
-                  }}
-                />
-                <Legend />
-                <Area type="monotone" dataKey="cash" name="Cash" stackId="1" stroke="#8884d8" fill="#8884d8" />
-                <Area type="monotone" dataKey="spy" name="SPY" stackId="1" stroke="#82ca9d" fill="#82ca9d" />
-                <Area type="monotone" dataKey="qqq" name="QQQ" stackId="1" stroke="#ff7f7f" fill="#ff7f7f" />
-                <Area type="monotone" dataKey="bitcoin" name="Bitcoin" stackId="1" stroke="#f2a900" fill="#f2a900" />
-                <Area type="monotone" dataKey="bonds" name="Bonds" stackId="1" stroke="#95a5a6" fill="#95a5a6" />
-              </AreaChart>
-            </ResponsiveContainer>
-          </div>
-        )}
+        {stats?.medianRun && <AssetAllocationChart run={stats.medianRun} currency={currency} target={rebalanceTarget} />}
+      </Chart>
+    ),
+    'portfolio-cohorts': (
+      <Chart
+        chartId="portfolio-cohorts"
+        title="Historical Cohorts"
+        onRefresh={onRefresh}
+        onMinimize={() => toggleMinimize('portfolio-cohorts')}
+        onToggleSize={() => toggleSize('portfolio-cohorts')}
+        onDragStart={() => setDraggingId('portfolio-cohorts')}
+        onDragEnd={() => { setDraggingId(null); setOverId(null); }}
+        size={chartStates['portfolio-cohorts']?.size ?? 'full'}
+        minimizable={true}
+      >
+        <PortfolioCohortChart
+          job={job}
+          years={years}
+          currency={currency}
+          selectedYear={mode === 'actual-seq' ? startYear : undefined}
+          onSelect={(year) => { onParamChange('mode', 'actual-seq'); onParamChange('startYear', year); }}
+        />
+      </Chart>
+    ),
+    'portfolio-safemax': (
+      <Chart
+        chartId="portfolio-safemax"
+        title="SAFEMAX by Start Year"
+        onRefresh={onRefresh}
+        onMinimize={() => toggleMinimize('portfolio-safemax')}
+        onToggleSize={() => toggleSize('portfolio-safemax')}
+        onDragStart={() => setDraggingId('portfolio-safemax')}
+        onDragEnd={() => { setDraggingId(null); setOverId(null); }}
+        size={chartStates['portfolio-safemax']?.size ?? 'full'}
+        minimizable={true}
+      >
+        <SafeMaxChart
+          startYears={safeMaxYears}
+          evaluate={rateEvaluator}
+          capeData={cape}
+          startBalance={startBalance}
+          horizon={horizon}
+          currency={currency}
+          note="The allocation and drawdown settings apply; the withdrawal rule is replaced by these fixed withdrawals."
+        />
+      </Chart>
+    ),
+    'portfolio-heatmap': (
+      <Chart
+        chartId="portfolio-heatmap"
+        title="Withdrawal Rate × Allocation"
+        onRefresh={onRefresh}
+        onMinimize={() => toggleMinimize('portfolio-heatmap')}
+        onToggleSize={() => toggleSize('portfolio-heatmap')}
+        onDragStart={() => setDraggingId('portfolio-heatmap')}
+        onDragEnd={() => { setDraggingId(null); setOverId(null); }}
+        size={chartStates['portfolio-heatmap']?.size ?? 'full'}
+        minimizable={true}
+      >
+        <AllocationHeatmap
+          job={job}
+          withdrawRate={withdrawRate}
+          allocation={holdings}
+          onSelect={(rate, allocation) => { onParamChange('allocation', allocation); onParamChange('withdrawRate', rate); }}
+        />
       </Chart>
     ),
     'portfolio-median-trajectory': (
@@ -504,32 +463,7 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
         minimizable={true}
       >
         {stats?.medianRun && (
-          <div className="h-72">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart
-                data={stats.medianRun.balances.map((b, i) => ({
-                  year: i,
-                  balance: b.total,
-                  withdrawal: stats.medianRun.withdrawals[i],
-                }))}
-                margin={{ left: 32, right: 8, top: 8, bottom: 8 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="year" />
-                <YAxis yAxisId="left" tickFormatter={(v: number) => currency.format(v)} />
-                <YAxis yAxisId="right" orientation="right" tickFormatter={(v: number) => currency.format(v)} />
-                <Tooltip
-                  formatter={(value: number, name: string) => {
-                    return [`${currency.format(value)}`, name];
-                  }}
-                  itemSorter={(item) => (item.dataKey === "balance" ? -1 : 1)}
-                />
-                <Legend />
-                <Line type="monotone" dataKey="balance" yAxisId="left" name="Total Balance" dot={false} strokeWidth={2} stroke="#8884d8" />
-                <Line type="monotone" dataKey="withdrawal" yAxisId="right" name="Withdrawal" dot={false} strokeWidth={2} stroke="#82ca9d" />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
+          <TrajectoryChart run={stats.medianRun} currency={currency} events={cashFlows} />
         )}
       </Chart>
     ),
@@ -545,34 +479,37 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
         size={chartStates['portfolio-asset-allocation']?.size ?? 'half'}
         minimizable={true}
       >
-        {sampleRun && (
-          <div className="h-72">
-            <ResponsiveContainer width="100%" height="100%">
-              <AreaChart
-                data={sampleRun.balances.map((b, i) => ({ year: i, cash: b.cash, spy: b.spy, qqq: b.qqq, bitcoin: b.bitcoin, bonds: b.bonds }))}
-                stackOffset="expand"
-                margin={{ left: 32, right: 8, top: 8, bottom: 8 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="year" />
-                <YAxis tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} />
-                <Tooltip
-                  formatter={(value: number, _: string, props: { payload?: { cash: number; spy: number; qqq: number; bitcoin: number; bonds: number } }) => {
-                    const total = props.payload ? props.payload.cash + props.payload.spy + props.payload.qqq + props.payload.bitcoin + props.payload.bonds : 0;
-                    const pct = total === 0 ? 0 : (value / total) * 100;
-                    return `${currency.format(value)} (${pct.toFixed(1)}%)`;
-                  }}
-                />
-                <Legend />
-                <Area type="monotone" dataKey="cash" name="Cash" stackId="1" stroke="#8884d8" fill="#8884d8" />
-                <Area type="monotone" dataKey="spy" name="SPY" stackId="1" stroke="#82ca9d" fill="#82ca9d" />
-                <Area type="monotone" dataKey="qqq" name="QQQ" stackId="1" stroke="#ff7f7f" fill="#ff7f7f" />
-                <Area type="monotone" dataKey="bitcoin" name="Bitcoin" stackId="1" stroke="#f2a900" fill="#f2a900" />
-                <Area type="monotone" dataKey="bonds" name="Bonds" stackId="1" stroke="#95a5a6" fill="#95a5a6" />
-              </AreaChart>
-            </ResponsiveContainer>
-          </div>
-        )}
+        {sampleRun && <AssetAllocationChart run={sampleRun} currency={currency} target={rebalanceTarget} />}
+      </Chart>
+    ),
+    'portfolio-median-cash-coverage': (
+      <Chart
+        chartId="portfolio-median-cash-coverage"
+        title={chartStates['portfolio-median-cash-coverage']?.title ?? 'Median Sample Run Cash Coverage'}
+        onRefresh={onRefresh}
+        onMinimize={() => toggleMinimize('portfolio-median-cash-coverage')}
+        onToggleSize={() => toggleSize('portfolio-median-cash-coverage')}
+        onDragStart={() => setDraggingId('portfolio-median-cash-coverage')}
+        onDragEnd={() => { setDraggingId(null); setOverId(null); }}
+        size={chartStates['portfolio-median-cash-coverage']?.size ?? 'half'}
+        minimizable={true}
+      >
+        {stats?.medianRun && <CashCoverageChart run={stats.medianRun} targetYears={threeBucket.enabled ? threeBucket.nearYears : cashRefill.policy !== 'never' ? cashRefill.years : undefined} />}
+      </Chart>
+    ),
+    'portfolio-cash-coverage': (
+      <Chart
+        chartId="portfolio-cash-coverage"
+        title={chartStates['portfolio-cash-coverage']?.title ?? 'Sample Run 1 Cash Coverage'}
+        onRefresh={onRefresh}
+        onMinimize={() => toggleMinimize('portfolio-cash-coverage')}
+        onToggleSize={() => toggleSize('portfolio-cash-coverage')}
+        onDragStart={() => setDraggingId('portfolio-cash-coverage')}
+        onDragEnd={() => { setDraggingId(null); setOverId(null); }}
+        size={chartStates['portfolio-cash-coverage']?.size ?? 'half'}
+        minimizable={true}
+      >
+        {sampleRun && <CashCoverageChart run={sampleRun} targetYears={threeBucket.enabled ? threeBucket.nearYears : cashRefill.policy !== 'never' ? cashRefill.years : undefined} />}
       </Chart>
     ),
     'portfolio-sample': (
@@ -588,32 +525,7 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
         minimizable={true}
       >
         {sampleRun && (
-          <div className="h-72">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart
-                data={sampleRun.balances.map((b, i) => ({
-                  year: i,
-                  balance: b.total,
-                  withdrawal: sampleRun.withdrawals[i],
-                }))}
-                margin={{ left: 32, right: 8, top: 8, bottom: 8 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="year" />
-                <YAxis yAxisId="left" tickFormatter={(v) => currency.format(v as number)} />
-                <YAxis yAxisId="right" orientation="right" tickFormatter={(v) => currency.format(v as number)} />
-                <Tooltip
-                  formatter={(value: number, name: string) => {
-                    return [`${currency.format(value)}`, name];
-                  }}
-                  itemSorter={(item) => (item.dataKey === "balance" ? -1 : 1)}
-                />
-                <Legend />
-                <Line type="monotone" dataKey="balance" yAxisId="left" name="Total Balance" dot={false} strokeWidth={2} stroke="#8884d8" />
-                <Line type="monotone" dataKey="withdrawal" yAxisId="right" name="Withdrawal" dot={false} strokeWidth={2} stroke="#82ca9d" />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
+          <TrajectoryChart run={sampleRun} currency={currency} events={cashFlows} />
         )}
       </Chart>
     ),
@@ -632,32 +544,7 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
           size={chartStates[`portfolio-sample-${i}-asset-allocation`]?.size ?? 'half'}
           minimizable={true}
         >
-          <div className="h-72">
-            <ResponsiveContainer width="100%" height="100%">
-              <AreaChart
-                data={sampleRun.balances.map((b, i) => ({ year: i, cash: b.cash, spy: b.spy, qqq: b.qqq, bitcoin: b.bitcoin, bonds: b.bonds }))}
-                stackOffset="expand"
-                margin={{ left: 32, right: 8, top: 8, bottom: 8 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="year" />
-                <YAxis tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} />
-                <Tooltip
-                  formatter={(value: number, _: string, props: { payload?: { cash: number; spy: number; qqq: number; bitcoin: number; bonds: number } }) => {
-                    const total = props.payload ? props.payload.cash + props.payload.spy + props.payload.qqq + props.payload.bitcoin + props.payload.bonds : 0;
-                    const pct = total === 0 ? 0 : (value / total) * 100;
-                    return `${currency.format(value)} (${pct.toFixed(1)}%)`;
-                  }}
-                />
-                <Legend />
-                <Area type="monotone" dataKey="cash" name="Cash" stackId="1" stroke="#8884d8" fill="#8884d8" />
-                <Area type="monotone" dataKey="spy" name="SPY" stackId="1" stroke="#82ca9d" fill="#82ca9d" />
-                <Area type="monotone" dataKey="qqq" name="QQQ" stackId="1" stroke="#ff7f7f" fill="#ff7f7f" />
-                <Area type="monotone" dataKey="bitcoin" name="Bitcoin" stackId="1" stroke="#f2a900" fill="#f2a900" />
-                <Area type="monotone" dataKey="bonds" name="Bonds" stackId="1" stroke="#95a5a6" fill="#95a5a6" />
-              </AreaChart>
-            </ResponsiveContainer>
-          </div>
+          <AssetAllocationChart run={sampleRun} currency={currency} />
         </Chart>
       );
       acc[`portfolio-sample-${i}-trajectory`] = (
@@ -672,64 +559,25 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
           size={chartStates[`portfolio-sample-${i}-trajectory`]?.size ?? 'half'}
           minimizable={true}
         >
-          <div className="h-72">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart
-                data={sampleRun.balances.map((b, i) => ({
-                  year: i,
-                  balance: b.total,
-                  withdrawal: sampleRun.withdrawals[i],
-                }))}
-                margin={{ left: 32, right: 8, top: 8, bottom: 8 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="year" />
-                <YAxis yAxisId="left" tickFormatter={(v) => currency.format(v as number)} />
-                <YAxis yAxisId="right" orientation="right" tickFormatter={(v) => currency.format(v as number)} />
-                <Tooltip
-                  formatter={(value: number, name: string) => {
-                    return [`${currency.format(value)}`, name];
-                  }}
-                  itemSorter={(item) => (item.dataKey === "balance" ? -1 : 1)}
-                />
-                <Legend />
-                <Line type="monotone" dataKey="balance" yAxisId="left" name="Total Balance" dot={false} strokeWidth={2} stroke="#8884d8" />
-                <Line type="monotone" dataKey="withdrawal" yAxisId="right" name="Withdrawal" dot={false} strokeWidth={2} stroke="#82ca9d" />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
+          <TrajectoryChart run={sampleRun} currency={currency} events={cashFlows} />
         </Chart>
       );
       return acc;
     }, {} as Record<string, React.ReactNode>),
-  }), [chartStates, onRefresh, toggleMinimize, toggleSize, stats, sims, currency, sampleRun]);
+  }), [chartStates, onRefresh, toggleMinimize, toggleSize, stats, sims, currency, sampleRun, years, safeMaxYears, rateEvaluator, cape, job, withdrawRate, holdings, startBalance, horizon, mode, startYear, onParamChange, cashRefill, threeBucket, rebalanceTarget, cashFlows]);
 
   return (
     <div className="space-y-6">
-      <div className="text-sm text-slate-600 dark:text-slate-400">Data: S&P 500, NASDAQ 100, Bitcoin, and 10-year Treasury total return</div>
+      <div className="text-sm text-slate-600 dark:text-slate-400">
+        Data: total returns for each asset class held, from the Data tab
+        {limit && ` · ${limit.asset} data starts in ${limit.year}, so runs only use years from then on`}
+      </div>
 
       <section className="grid md:grid-cols-3 gap-4 auto-rows-fr">
         <div className="bg-white dark:bg-slate-800 rounded-2xl shadow p-4 space-y-3">
           <h2 className="font-semibold">Inputs</h2>
           <h3 className="font-semibold">Portfolio Allocation:</h3>
-          <div className="p-4">
-            <AllocationSlider cash={cash} spy={spy} qqq={qqq} bitcoin={bitcoin} bonds={bonds} onParamChange={onParamChange} />
-          </div>
-          <label className="block text-sm">Cash
-            <CurrencyInput className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600" value={cash} step={10000} onChange={v => onParamChange('cash', v)} />
-          </label>
-          <label className="block text-sm">SPY (S&P 500)
-            <CurrencyInput className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600" value={spy} step={10000} onChange={v => onParamChange('spy', v)} />
-          </label>
-          <label className="block text-sm">QQQ (NASDAQ 100)
-            <CurrencyInput className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600" value={qqq} step={10000} onChange={v => onParamChange('qqq', v)} />
-          </label>
-          <label className="block text-sm">Bitcoin (BTC)
-            <CurrencyInput className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600" value={bitcoin} step={10000} onChange={v => onParamChange('bitcoin', v)} />
-          </label>
-          <label className="block text-sm">Bonds (10Y Treasury)
-            <CurrencyInput className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600" value={bonds} step={10000} onChange={v => onParamChange('bonds', v)} />
-          </label>
+          <HoldingsInputs holdings={holdings} onParamChange={onParamChange} />
           <div className="text-sm font-semibold">Total: {currency.format(startBalance)}</div>
 
           <h3 className="font-semibold">Starting Withdrawal Rate:</h3>
@@ -764,6 +612,12 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
               </div>
             </div>
           </div>
+          {firstYearIncome > 0 && (
+            <div className="text-xs text-slate-500">
+              Income pays {currency.format(Math.min(firstYearIncome, initialWithdrawalAmount))} of this in the first year, so the portfolio's first withdrawal
+              is {currency.format(Math.max(0, initialWithdrawalAmount - firstYearIncome))} ({(Math.max(0, initialWithdrawalAmount - firstYearIncome) / Math.max(1, startBalance) * 100).toFixed(2)}%).
+            </div>
+          )}
           <div className="flex items-center gap-2">
             <input id="infl" type="checkbox" checked={inflationAdjust} onChange={e => onParamChange('inflationAdjust', e.target.checked)} />
             <label htmlFor="infl" className="text-sm">Inflation-adjust withdrawals</label>
@@ -800,6 +654,17 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
               <span className="ml-2">%</span>
             </div>
           </div>
+          <div className={`flex items-center gap-2 ${!inflationAdjust || !useHistoricalInflation || mode === 'actual-seq' || isSyntheticMode(mode) ? 'opacity-50' : ''}`}>
+            <input
+              id="decorrelate-portfolio"
+              type="checkbox"
+              checked={decorrelateInflation}
+              onChange={e => onParamChange('decorrelateInflation', e.target.checked)}
+              disabled={!inflationAdjust || !useHistoricalInflation || mode === 'actual-seq' || isSyntheticMode(mode)}
+            />
+            <label htmlFor="decorrelate-portfolio" className="text-sm">Draw inflation apart from returns (for comparison)</label>
+          </div>
+          <GoalSeek spending={initialWithdrawalAmount} onSolve={handleSolve} unavailable={goalSeekUnavailable(drawdownWithdrawalStrategy)} />
         </div>
 
         <div className="bg-white dark:bg-slate-800 rounded-2xl shadow p-4 space-y-3">
@@ -814,22 +679,98 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
               ⟳
             </button>
           </div>
-          <div className="text-xs text-slate-500">
-            Years: {Math.min(...years)}–{Math.max(...years)} (<a href="#data" className="text-blue-600 dark:text-blue-400 underline">Data</a>)
+          {years.length > 0 ? (
+            <div className="text-xs text-slate-500">
+              Years: {Math.min(...years)}–{Math.max(...years)} (<a href="#data" className="text-blue-600 dark:text-blue-400 underline">Data</a>)
+            </div>
+          ) : (
+            <div className="text-xs text-amber-700 dark:text-amber-400">
+              No start years qualify: no year has returns for every held asset (<a href="#data" className="text-blue-600 dark:text-blue-400 underline">Data</a>).
+            </div>
+          )}
+          <WithdrawalRuleSettings
+            strategy={drawdownWithdrawalStrategy}
+            params={withdrawalRuleParams}
+            onStrategyChange={(v) => onParamChange('drawdownWithdrawalStrategy', v)}
+            onParamsChange={(v) => onParamChange('withdrawalRuleParams', v)}
+          />
+          <div className="pt-2 border-t">
+            <ThreeBucketSettings threeBucket={threeBucket} onChange={(v) => onParamChange('threeBucket', v)} />
           </div>
-          <label className="block text-sm">Drawdown Order
+          <div className="pt-2 border-t">
+            <TaxSettings taxes={taxes} onChange={(v) => onParamChange('taxes', v)} />
+          </div>
+          {!threeBucket.enabled && (
+            <>
+              <DrawdownOrderSelect value={drawdownStrategy} assets={investedAssets(holdings)} onChange={(v) => onParamChange('drawdownStrategy', v)} />
+              <label className="block text-sm">Cash Bucket Refill
+                <select
+                  className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
+                  value={cashRefill.policy}
+                  onChange={e => onParamChange('cashRefill', { ...cashRefill, policy: e.target.value as CashRefillPolicy })}
+                >
+                  <option value="never">Never refill</option>
+                  <option value="afterGains">Refill after SPY/QQQ gains</option>
+                  <option value="aboveHigh">Refill only when SPY/QQQ above prior high</option>
+                </select>
+              </label>
+              {cashRefill.policy !== 'never' && (
+                <label className="block text-sm">Refill cash to (years of spending)
+                  <NumericInput
+                    className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
+                    value={cashRefill.years}
+                    step={0.5}
+                    min={0}
+                    onChange={(v) => onParamChange('cashRefill', { ...cashRefill, years: Math.max(0, v) })}
+                  />
+                </label>
+              )}
+              <label className="block text-sm">Rebalancing
+                <select
+                  className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
+                  value={rebalance.mode}
+                  onChange={e => onParamChange('rebalance', { ...rebalance, mode: e.target.value as RebalanceMode })}
+                >
+                  <option value="none">None (let allocation drift)</option>
+                  <option value="annual">Annually to target</option>
+                  <option value="bands">When outside tolerance bands</option>
+                  <option value="withdrawals">Through withdrawals only</option>
+                </select>
+              </label>
+              {rebalance.mode === 'bands' && (
+                <label className="block text-sm">Tolerance band (± %)
+                  <NumericInput
+                    className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
+                    value={rebalance.band * 100}
+                    step={1}
+                    min={0}
+                    onChange={(v) => onParamChange('rebalance', { ...rebalance, band: Math.max(0, v) / 100 })}
+                  />
+                </label>
+              )}
+            </>
+          )}
+          <label className="block text-sm">Cash Yield
             <select
               className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
-              value={drawdownStrategy}
-              onChange={e => onParamChange('drawdownStrategy', e.target.value)}
+              value={cashYield.source}
+              onChange={e => onParamChange('cashYield', { ...cashYield, source: e.target.value as CashYieldSource })}
             >
-              <option value="cashFirst_spyThenQqq">Cash 1st, then SPY, then QQQ, then Bonds</option>
-              <option value="cashFirst_qqqThenSpy">Cash 1st, then QQQ, then SPY, then Bonds</option>
-              <option value="cashFirst_equalParts">Cash 1st, then equal parts SPY, QQQ & Bonds</option>
-              <option value="cashFirst_bestPerformer">Cash 1st, then best performer of year</option>
-              <option value="cashFirst_worstPerformer">Cash 1st, then worst performer of year</option>
+              <option value="tbills">Historical 3-month T-bill returns</option>
+              <option value="fixed">Fixed yield</option>
             </select>
           </label>
+          <label className="block text-sm">{cashYield.source === 'fixed' ? 'Cash yield (%)' : 'Fallback yield for missing years (%)'}
+            <NumericInput
+              className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
+              value={cashYield.fixedPct}
+              step={0.1}
+              onChange={(v) => onParamChange('cashYield', { ...cashYield, fixedPct: v })}
+            />
+          </label>
+          {holdsBitcoin && (
+            <BitcoinBackfillSettings backfill={bitcoinBackfill} firstYear={btcFirstYear} onChange={v => onParamChange('bitcoinBackfill', v)} />
+          )}
           <label className="block text-sm">Horizon (years)
             <NumericInput
               className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
@@ -839,6 +780,23 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
               onChange={(v) => onParamChange('horizon', Math.max(1, Math.round(v)))}
             />
           </label>
+          <label className="block text-sm">Age at retirement
+            <NumericInput
+              className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
+              value={startAge}
+              step={1}
+              min={18}
+              onChange={(v) => onParamChange('startAge', Math.max(18, Math.round(v)))}
+            />
+          </label>
+          <div className="pt-2 border-t space-y-2">
+            <h3 className="font-semibold">Income streams</h3>
+            <IncomeStreamsEditor streams={incomeStreams} onChange={(v) => onParamChange('incomeStreams', v)} />
+          </div>
+          <div className="pt-2 border-t space-y-2">
+            <h3 className="font-semibold">Expenses and windfalls</h3>
+            <CashFlowEventsEditor events={cashFlows} horizon={horizon} onChange={(v) => onParamChange('cashFlows', v)} />
+          </div>
           <div className="space-y-2 text-sm">
             <label className="flex items-center gap-2">
               <input type="radio" name="mode" checked={mode === 'actual-seq-random-start'} onChange={() => onParamChange('mode', 'actual-seq-random-start')} />
@@ -876,8 +834,36 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
               <input type="radio" name="mode" checked={mode === 'bootstrap'} onChange={() => onParamChange('mode', 'bootstrap')} />
               Bootstrap (sample with replacement)
             </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="mode" checked={mode === 'block-bootstrap'} onChange={() => onParamChange('mode', 'block-bootstrap')} />
+              Block bootstrap (runs of consecutive years)
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="mode" checked={mode === 'stationary-bootstrap'} onChange={() => onParamChange('mode', 'stationary-bootstrap')} />
+              Stationary bootstrap (random-length runs of years)
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="mode" checked={mode === 'cape-conditioned'} onChange={() => onParamChange('mode', 'cape-conditioned')} />
+              CAPE-conditioned (start years valued like today)
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="mode" checked={mode === 'parametric-normal'} onChange={() => onParamChange('mode', 'parametric-normal')} />
+              Parametric: normal returns (fitted model)
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="mode" checked={mode === 'parametric-lognormal'} onChange={() => onParamChange('mode', 'parametric-lognormal')} />
+              Parametric: lognormal returns (fitted model)
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="mode" checked={mode === 'parametric-t'} onChange={() => onParamChange('mode', 'parametric-t')} />
+              Parametric: fat-tailed Student-t returns (fitted model)
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="mode" checked={mode === 'regime-switching'} onChange={() => onParamChange('mode', 'regime-switching')} />
+              Regime switching (bull / bear / stagflation)
+            </label>
           </div>
-          {(mode === 'actual-seq-random-start' || mode === 'random-shuffle' || mode === 'bootstrap') && (
+          {mode !== 'actual-seq' && (
             <>
               <label className="block text-sm"># Monte Carlo runs
                 <input type="number" className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600" value={numRuns} onChange={e => onParamChange('numRuns', Math.max(1, Number(e.target.value)))} />
@@ -885,17 +871,57 @@ const PortfolioTab: React.FC<PortfolioTabProps> = ({
               <label className="block text-sm">Seed (optional)
                 <input type="number" className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600" value={seed} onChange={e => onParamChange('seed', e.target.value === '' ? '' : Number(e.target.value))} />
               </label>
+              {(mode === 'block-bootstrap' || mode === 'stationary-bootstrap') && (
+                <label className="block text-sm">{mode === 'block-bootstrap' ? 'Block length (years)' : 'Mean block length (years)'}
+                  <NumericInput className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600" value={blockLength} step={1} min={1} onChange={v => onParamChange('blockLength', Math.max(1, v))} />
+                </label>
+              )}
+              {(mode === 'actual-seq-random-start' || mode === 'cape-conditioned') && (
+                <CompleteCohortsToggle
+                  id="complete-cohorts-portfolio"
+                  checked={completeCohorts}
+                  startYears={startYears}
+                  horizon={horizon}
+                  limitedBy={holdsBitcoin && btcFirstYear !== null ? `Holding Bitcoin limits them to its data from ${btcFirstYear}` : undefined}
+                  onChange={v => onParamChange('completeCohorts', v)}
+                />
+              )}
+              {mode === 'cape-conditioned' && (
+                <CapeConditionSettings currentCape={currentCape} latest={latestCape(cape)} startYears={startYears} horizon={horizon} onChange={v => onParamChange('currentCape', v)} />
+              )}
+              {isParametricMode(mode) && (
+                <ReturnModelEditor fitted={fittedModel} overrides={returnModelOverrides} mode={mode} onChange={v => onParamChange('returnModelOverrides', v)} />
+              )}
+              {mode === 'regime-switching' && (
+                <RegimeModelEditor fitted={fittedRegimes} transitions={regimeTransitions} onChange={v => onParamChange('regimeTransitions', v)} />
+              )}
             </>
           )}
         </div>
 
         <div className="bg-white dark:bg-slate-800 rounded-2xl shadow p-4 space-y-3">
           <h2 className="font-semibold">Results</h2>
-          {stats && (
+          {running && <SimulationProgress progress={progress} />}
+          {noComparable && <p className="text-sm text-amber-700 dark:text-amber-400">{noComparableStartYears(horizon)}</p>}
+          {stats && !noComparable && (
             <div className="space-y-2 text-sm">
-              <div>1st year withdrawal: <span className="font-semibold">{currency.format(initialWithdrawalAmount)}</span></div>
+              {incomeStreams.length > 0 ? (
+                <div>1st year median portfolio withdrawal: <span className="font-semibold">{currency.format(stats.medianFirstWithdrawal)}</span> ({(stats.medianFirstWithdrawal / Math.max(1, startBalance) * 100).toFixed(2)}% of the portfolio)</div>
+              ) : (
+                <div>1st year withdrawal: <span className="font-semibold">{currency.format(initialWithdrawalAmount)}</span></div>
+              )}
               {horizon >= 5 && <div>5th year median withdrawal: <span className="font-semibold">{currency.format(stats.medianFifthYearWithdrawal)}</span></div>}
+              {stats.taxes && (
+                <>
+                  <div>1st year median after-tax spending: <span className="font-semibold">{currency.format(stats.taxes.medianFirstYearAfterTax)}</span></div>
+                  <div>Median lifetime after-tax spending: <span className="font-semibold">{currency.format(stats.taxes.medianLifetimeAfterTax)}</span></div>
+                  <div>Median lifetime taxes: <span className="font-semibold">{currency.format(stats.taxes.medianLifetimeTaxes)}</span></div>
+                </>
+              )}
               <div>Success rate: <span className="font-semibold">{(stats.successRate * 100).toFixed(1)}%</span> ({sims.length} run{sims.length !== 1 ? 's' : ''})</div>
+              {mode === 'cape-conditioned' && unconditionedSuccess != null && (
+                <div>Unconditioned (any start year): <span className="font-semibold">{(unconditionedSuccess * 100).toFixed(1)}%</span> (CAPE conditioning: {stats.successRate >= unconditionedSuccess ? '+' : ''}{((stats.successRate - unconditionedSuccess) * 100).toFixed(1)} pts)</div>
+              )}
               <div>Median ending balance: <span className="font-semibold">{currency.format(percentile(stats.endingBalances, 0.5))}</span></div>
               <div>10th–90th percentile ending: {currency.format(percentile(stats.endingBalances, 0.10))} – {currency.format(percentile(stats.endingBalances, 0.90))}</div>
               <div className="border-t pt-2 mt-2">
@@ -0,0 +1,109 @@
+import React from "react";
+import { REGIMES, withTransitions, type Regime, type RegimeModel } from "../lib/regimeModel";
+import NumericInput from "./NumericInput";
+
+interface RegimeModelEditorProps {
+  fitted: RegimeModel; // estimated from the Data tab series
+  transitions: number[][] | null; // edited weights; null uses the estimate
+  onChange: (transitions: number[][] | null) => void;
+}
+
+const REGIME_LABELS: Record<Regime, string> = {
+  bull: "Bull",
+  bear: "Bear",
+  stagflation: "Stagflation",
+};
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+// Per-state summary and the editable transition matrix of the regime-switching mode. Raising a state's stay-put weight makes its spells longer.
+const RegimeModelEditor: React.FC<RegimeModelEditorProps> = ({ fitted, transitions, onChange }) => {
+  const effective = withTransitions(fitted, transitions).transitions;
+  const weights = transitions ?? fitted.transitions;
+  const setWeight = (from: number, to: number, value: number) =>
+    onChange(weights.map((row, i) => (i === from ? row.map((w, j) => (j === to ? Math.max(0, value) / 100 : w)) : row.slice())));
+  const inputClass = "w-16 border rounded-xl p-1 bg-white dark:bg-slate-700 dark:border-slate-600";
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Market Regimes</h3>
+        <button
+          className="text-xs text-blue-600 dark:text-blue-400 underline disabled:opacity-50 disabled:no-underline"
+          onClick={() => onChange(null)}
+          disabled={transitions === null}
+        >
+          Reset to history
+        </button>
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left">
+            <th className="py-1">State</th>
+            <th className="py-1">Years</th>
+            <th className="py-1">S&P 500</th>
+            <th className="py-1">Bonds</th>
+            <th className="py-1">Inflation</th>
+            <th className="py-1">Avg. spell</th>
+          </tr>
+        </thead>
+        <tbody>
+          {REGIMES.map((regime, i) => {
+            const { means } = fitted.states[regime];
+            const stay = effective[i][i];
+            return (
+              <tr key={regime}>
+                <td className="py-1">{REGIME_LABELS[regime]}</td>
+                <td className="py-1">{fitted.years[regime].length}</td>
+                <td className="py-1">{pct(means.spy)}</td>
+                <td className="py-1">{pct(means.bonds)}</td>
+                <td className="py-1">{pct(means.inflation)}</td>
+                <td className="py-1">{stay < 1 ? `${(1 / (1 - stay)).toFixed(1)} yrs` : "∞"}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="text-xs text-slate-600 dark:text-slate-400">Chance of moving from each state (row) to the next (column). Rows are rescaled to 100%.</div>
+      <table className="text-xs">
+        <thead>
+          <tr>
+            <th className="pr-2 text-left font-normal">From \ To</th>
+            {REGIMES.map(regime => <th key={regime} className="px-1 font-normal">{REGIME_LABELS[regime]}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {REGIMES.map((from, i) => (
+            <tr key={from}>
+              <th className="pr-2 text-left font-normal">{REGIME_LABELS[from]}</th>
+              {REGIMES.map((to, j) => (
+                <td key={to} className="px-1 py-0.5">
+                  <NumericInput
+                    className={inputClass}
+                    value={Math.round(weights[i][j] * 1000) / 10}
+                    step={5}
+                    min={0}
+                    precision={1}
+                    onChange={v => setWeight(i, j, v)}
+                    aria-label={`${REGIME_LABELS[from]} to ${REGIME_LABELS[to]}`}
+                    title={`From history: ${pct(fitted.transitions[i][j])}`}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <details>
+        <summary className="cursor-pointer text-xs text-slate-600 dark:text-slate-400">Historical years in each state</summary>
+        <div className="mt-1 space-y-1 text-xs">
+          {REGIMES.map(regime => (
+            <div key={regime}><span className="font-semibold">{REGIME_LABELS[regime]}:</span> {fitted.years[regime].join(", ") || "none"}</div>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default RegimeModelEditor;
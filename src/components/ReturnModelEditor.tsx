@@ -0,0 +1,114 @@
+import React from "react";
+import { MODEL_ASSETS, type ModelAsset, type ParametricMode, type ReturnModel, type ReturnModelOverrides } from "../lib/returnModel";
+import NumericInput from "./NumericInput";
+
+interface ReturnModelEditorProps {
+  fitted: ReturnModel; // fitted to the Data tab, before overrides
+  overrides: ReturnModelOverrides;
+  mode: ParametricMode;
+  onChange: (overrides: ReturnModelOverrides) => void;
+}
+
+const ASSET_LABELS: Record<ModelAsset, string> = {
+  spy: "S&P 500",
+  qqq: "Nasdaq 100",
+  bonds: "Bonds",
+  bitcoin: "Bitcoin",
+  intl: "International",
+  smallValue: "Small Value",
+  reits: "REITs",
+  gold: "Gold",
+  tips: "TIPS",
+  inflation: "Inflation",
+};
+
+const pct = (v: number) => Math.round(v * 10000) / 100;
+
+// Means and volatilities of the parametric modes, prefilled from the fit. Edits are kept as overrides so the rest tracks the data.
+const ReturnModelEditor: React.FC<ReturnModelEditorProps> = ({ fitted, overrides, mode, onChange }) => {
+  const setField = (field: "means" | "vols", asset: ModelAsset, value: number) =>
+    onChange({ ...overrides, [field]: { ...overrides[field], [asset]: value / 100 } });
+  const edited = Object.keys(overrides.means ?? {}).length + Object.keys(overrides.vols ?? {}).length > 0 || overrides.degreesOfFreedom !== undefined;
+  const inputClass = "w-20 border rounded-xl p-1 bg-white dark:bg-slate-700 dark:border-slate-600";
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Return Model</h3>
+        <button
+          className="text-xs text-blue-600 dark:text-blue-400 underline disabled:opacity-50 disabled:no-underline"
+          onClick={() => onChange({})}
+          disabled={!edited}
+        >
+          Reset to fitted
+        </button>
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left">
+            <th className="py-1">Series</th>
+            <th className="py-1">Mean (%/yr)</th>
+            <th className="py-1">Volatility (%)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {MODEL_ASSETS.map(asset => (
+            <tr key={asset}>
+              <td className="py-1">{ASSET_LABELS[asset]}</td>
+              {(["means", "vols"] as const).map(field => (
+                <td key={field} className="py-1">
+                  <NumericInput
+                    className={`${inputClass} ${overrides[field]?.[asset] !== undefined ? "text-blue-700 dark:text-blue-300 font-semibold" : ""}`}
+                    value={pct(overrides[field]?.[asset] ?? fitted[field][asset])}
+                    step={0.5}
+                    precision={2}
+                    min={field === "vols" ? 0 : undefined}
+                    onChange={v => setField(field, asset, v)}
+                    aria-label={`${ASSET_LABELS[asset]} ${field === "means" ? "mean" : "volatility"}`}
+                    title={`Fitted: ${pct(fitted[field][asset])}%`}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {mode === "parametric-t" && (
+        <label className="block">Degrees of freedom (lower = fatter tails)
+          <NumericInput
+            className="mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600"
+            value={overrides.degreesOfFreedom ?? fitted.degreesOfFreedom}
+            step={1}
+            min={3}
+            max={100}
+            onChange={v => onChange({ ...overrides, degreesOfFreedom: Math.round(v) })}
+          />
+        </label>
+      )}
+      <div className="text-xs text-slate-500">With historical inflation selected, inflation is drawn from the model too.</div>
+      <details>
+        <summary className="cursor-pointer text-xs text-slate-600 dark:text-slate-400">Fitted correlations</summary>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs mt-1">
+            <thead>
+              <tr>
+                <th />
+                {MODEL_ASSETS.map(asset => <th key={asset} className="px-1 text-right font-normal">{ASSET_LABELS[asset]}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {MODEL_ASSETS.map((asset, i) => (
+                <tr key={asset}>
+                  <th className="pr-1 text-left font-normal">{ASSET_LABELS[asset]}</th>
+                  {fitted.correlations[i].map((c, j) => <td key={j} className="px-1 text-right">{c.toFixed(2)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default ReturnModelEditor;
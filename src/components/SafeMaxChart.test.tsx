@@ -0,0 +1,13 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import SafeMaxChart from './SafeMaxChart';
+
+describe('SafeMaxChart', () => {
+  it('shows why solving failed', async () => {
+    const evaluate = vi.fn().mockRejectedValue(new Error('worker crashed'));
+    const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+    render(<SafeMaxChart startYears={[1966]} evaluate={evaluate} capeData={{}} startBalance={1000000} horizon={30} currency={currency} />);
+
+    expect(await screen.findByText('Solving SAFEMAX failed: worker crashed')).toBeTruthy();
+  });
+});
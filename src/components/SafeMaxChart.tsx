@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ScatterChart, Scatter, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid, ReferenceLine } from "recharts";
+import { latestCape, solveStartYears, summarizeSafeMax, type RateEvaluator, type StartYearRates } from "../lib/safemax";
+import CurrencyInput from "./CurrencyInput";
+import SimulationProgress from "./SimulationProgress";
+
+interface SafeMaxChartProps {
+  startYears: number[]; // complete start years for the current horizon
+  evaluate: RateEvaluator;
+  capeData: { [year: number]: number };
+  startBalance: number;
+  horizon: number;
+  currency: Intl.NumberFormat;
+  note?: string;
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(2)}%`;
+
+type SolveRequest = { startYears: number[]; evaluate: RateEvaluator; target: number; capeData: { [year: number]: number } };
+
+/**
+ * SAFEMAX and perfect withdrawal rate for every start year, plotted against
+ * the CAPE the retiree started at. Solving starts when the chart opens; the
+ * last solved rows stay up while new inputs re-solve.
+ */
+const SafeMaxChart: React.FC<SafeMaxChartProps> = ({ startYears, evaluate, capeData, startBalance, horizon, currency, note }) => {
+  const [legacy, setLegacy] = useState<number | null>(null); // null follows the start balance
+  const target = legacy ?? startBalance;
+
+  const request = useMemo<SolveRequest>(() => ({ startYears, evaluate, target, capeData }), [startYears, evaluate, target, capeData]);
+  const [solved, setSolved] = useState<{ request: SolveRequest; rows: StartYearRates[] } | null>(null);
+  const [progress, setProgress] = useState<{ request: SolveRequest; value: number } | null>(null);
+  const [failed, setFailed] = useState<{ request: SolveRequest; message: string } | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    solveStartYears(request.startYears, request.evaluate, request.target, request.capeData, value => setProgress({ request, value }), controller.signal)
+      .then(rows => setSolved({ request, rows }))
+      .catch(e => {
+        if (!controller.signal.aborted) setFailed({ request, message: e instanceof Error ? e.message : String(e) });
+      });
+    return () => controller.abort();
+  }, [request]);
+
+  const rows = useMemo(() => solved?.rows ?? [], [solved]);
+  const current = useMemo(() => latestCape(capeData), [capeData]);
+  const summary = useMemo(() => summarizeSafeMax(rows, current?.cape), [rows, current]);
+  const error = failed?.request === request ? `Solving SAFEMAX failed: ${failed.message}` : null;
+  const solving = solved?.request !== request && !error;
+
+  if (startYears.length === 0) {
+    return <p className="text-sm text-slate-500">No start year has {horizon} years of history after it.</p>;
+  }
+  if (!solved && error) return <p className="text-sm text-amber-700 dark:text-amber-400">{error}</p>;
+  if (!solved) return <SimulationProgress progress={progress?.request === request ? progress.value : 0} />;
+
+  const points = rows.filter(r => r.cape !== null);
+  const capes = points.map(r => r.cape!);
+  const fitLine = summary.fit && capes.length > 0
+    ? Array.from({ length: 40 }, (_, i) => {
+        const lo = Math.min(...capes, current?.cape ?? Infinity);
+        const hi = Math.max(...capes, current?.cape ?? -Infinity);
+        const cape = lo + ((hi - lo) * i) / 39;
+        return { cape, rate: summary.fit!.intercept + summary.fit!.slope / cape };
+      })
+    : [];
+
+  return (
+    <div className="space-y-3">
+      {solving && <SimulationProgress progress={progress?.request === request ? progress.value : 0} />}
+      {error && <p className="text-sm text-amber-700 dark:text-amber-400">{error}</p>}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm">
+        <div>Lowest SAFEMAX: <span className="font-semibold">{pct(summary.min)}</span> ({summary.minYear})</div>
+        <div>Median SAFEMAX: <span className="font-semibold">{pct(summary.median)}</span></div>
+        <div>
+          At today's CAPE{current ? ` (${current.cape.toFixed(1)}, ${current.year})` : ""}:{" "}
+          <span className="font-semibold">{summary.estimate !== null ? pct(summary.estimate) : "n/a"}</span>
+        </div>
+      </div>
+      <label className="flex flex-wrap items-center gap-2 text-sm">
+        Legacy target for the perfect withdrawal rate
+        <CurrencyInput
+          className="border rounded-xl p-1 w-36 bg-white dark:bg-slate-700 dark:border-slate-600"
+          value={target}
+          onChange={setLegacy}
+          aria-label="Legacy target"
+        />
+      </label>
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <ScatterChart margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" dataKey="cape" name="Starting CAPE" domain={["auto", "auto"]} tickFormatter={(v: number) => v.toFixed(0)} />
+            <YAxis type="number" dataKey="rate" name="Withdrawal rate" tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} />
+            <Tooltip
+              formatter={(v: number, name: string) => (name === "Withdrawal rate" ? pct(v) : v.toFixed(1))}
+              labelFormatter={() => ""}
+            />
+            <Legend />
+            <Scatter name="SAFEMAX" data={points.map(r => ({ cape: r.cape, rate: r.safeMax, year: r.startYear }))} fill="#2563eb" />
+            <Scatter name={`Perfect rate (${currency.format(target)} left)`} data={points.map(r => ({ cape: r.cape, rate: r.perfectRate, year: r.startYear }))} fill="#16a34a" />
+            {fitLine.length > 0 && (
+              <Scatter name="SAFEMAX fit (1 / CAPE)" data={fitLine} line={{ stroke: "#64748b", strokeDasharray: "4 4" }} shape={() => <g />} legendType="plainline" fill="#64748b" />
+            )}
+            {current && <ReferenceLine x={current.cape} stroke="#dc2626" strokeDasharray="3 3" label={{ value: "Today", position: "top" }} />}
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-slate-500">
+        Each point is one start year withdrawing a fixed share of the start balance, raised with inflation.
+        {note ? ` ${note}` : ""}
+      </p>
+      <details>
+        <summary className="cursor-pointer select-none text-sm">Show as table</summary>
+        <div className="overflow-x-auto mt-2">
+          <table className="min-w-full text-xs">
+            <thead>
+              <tr>
+                <th className="px-2 py-1 text-left">Start year</th>
+                <th className="px-2 py-1 text-left">CAPE</th>
+                <th className="px-2 py-1 text-left">SAFEMAX</th>
+                <th className="px-2 py-1 text-left">Perfect rate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(r => (
+                <tr key={r.startYear} className="odd:bg-slate-100 dark:odd:bg-slate-700">
+                  <td className="px-2 py-1">{r.startYear}</td>
+                  <td className="px-2 py-1">{r.cape !== null ? r.cape.toFixed(1) : "–"}</td>
+                  <td className="px-2 py-1">{pct(r.safeMax)}</td>
+                  <td className="px-2 py-1">{pct(r.perfectRate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default SafeMaxChart;
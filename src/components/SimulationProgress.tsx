@@ -0,0 +1,16 @@
+import React from "react";
+
+interface SimulationProgressProps {
+  progress: number; // 0–1
+}
+
+const SimulationProgress: React.FC<SimulationProgressProps> = ({ progress }) => (
+  <div className="space-y-1" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(progress * 100)}>
+    <div className="text-xs text-slate-500">Simulating… {Math.round(progress * 100)}%</div>
+    <div className="h-1.5 w-full rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+      <div className="h-full bg-blue-600 dark:bg-blue-400 transition-[width]" style={{ width: `${progress * 100}%` }} />
+    </div>
+  </div>
+);
+
+export default SimulationProgress;
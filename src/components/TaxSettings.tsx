@@ -0,0 +1,93 @@
+import React from "react";
+import { ACCOUNT_TYPES, TAX_YEAR, type AccountType, type FilingStatus, type TaxOptions } from "../lib/taxes";
+import NumericInput from "./NumericInput";
+
+interface TaxSettingsProps {
+  taxes: TaxOptions;
+  onChange: (value: TaxOptions) => void;
+}
+
+const inputClass = "mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600";
+
+const label = (id: AccountType) => ACCOUNT_TYPES.find(a => a.id === id)?.label ?? id;
+
+const TaxSettings: React.FC<TaxSettingsProps> = ({ taxes, onChange }) => {
+  const update = (patch: Partial<TaxOptions>) => onChange({ ...taxes, ...patch });
+  const order = [...taxes.sourcingOrder, ...ACCOUNT_TYPES.map(a => a.id).filter(id => !taxes.sourcingOrder.includes(id))];
+  const shareTotal = ACCOUNT_TYPES.reduce((s, a) => s + taxes.accounts[a.id], 0);
+
+  const move = (index: number, by: number) => {
+    const next = order.slice();
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    update({ sourcingOrder: next });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={taxes.enabled} onChange={e => update({ enabled: e.target.checked })} />
+        Federal income tax on withdrawals
+      </label>
+      {taxes.enabled && (
+        <div className="space-y-3 pl-6">
+          <label className="block text-sm">Filing status
+            <select className={inputClass} value={taxes.filingStatus} onChange={e => update({ filingStatus: e.target.value as FilingStatus })}>
+              <option value="single">Single</option>
+              <option value="married">Married filing jointly</option>
+            </select>
+          </label>
+          {ACCOUNT_TYPES.map(a => (
+            <label key={a.id} className="block text-sm">{a.label} (% of portfolio)
+              <NumericInput
+                className={inputClass}
+                value={taxes.accounts[a.id]}
+                step={5}
+                min={0}
+                max={100}
+                onChange={(v) => update({ accounts: { ...taxes.accounts, [a.id]: Math.max(0, v) } })}
+              />
+            </label>
+          ))}
+          {shareTotal !== 100 && <div className="text-xs text-amber-600">Shares add to {shareTotal}%; they are scaled to 100%.</div>}
+          <label className="block text-sm">Taxable cost basis (% of its value)
+            <NumericInput
+              className={inputClass}
+              value={taxes.taxableBasisPct}
+              step={5}
+              min={0}
+              max={100}
+              onChange={(v) => update({ taxableBasisPct: Math.min(100, Math.max(0, v)) })}
+            />
+          </label>
+          <label className="block text-sm">Required minimum distributions begin at
+            <select className={inputClass} value={taxes.rmdStartAge} onChange={e => update({ rmdStartAge: Number(e.target.value) })}>
+              <option value={72}>72 (born 1950 or earlier)</option>
+              <option value={73}>73 (born 1951–1959)</option>
+              <option value={75}>75 (born 1960 or later)</option>
+            </select>
+          </label>
+          <div className="text-sm">Withdraw from
+            <ol className="mt-1 space-y-1">
+              {order.map((id, i) => (
+                <li key={id} className="flex items-center gap-2">
+                  <span className="flex-1">{i + 1}. {label(id)}</span>
+                  <button className="px-2 rounded-lg hover:bg-slate-100 disabled:opacity-30 dark:hover:bg-slate-700" disabled={i === 0} onClick={() => move(i, -1)} aria-label={`Move ${label(id)} up`}>↑</button>
+                  <button className="px-2 rounded-lg hover:bg-slate-100 disabled:opacity-30 dark:hover:bg-slate-700" disabled={i === order.length - 1} onClick={() => move(i, 1)} aria-label={`Move ${label(id)} down`}>↓</button>
+                </li>
+              ))}
+            </ol>
+          </div>
+          <div className="text-xs text-slate-500">
+            {TAX_YEAR} federal brackets, long-term capital gains rates and standard deduction, indexed to the simulated inflation. Traditional
+            withdrawals are ordinary income, taxable sales pay tax on their gain over cost basis, and Roth and HSA withdrawals are tax-free.
+            Taxes on each withdrawal are paid out of it, so they lower after-tax spending rather than the balances.
+            From the RMD age, at least the IRS Uniform Lifetime Table minimum leaves the traditional account each year; what it pays beyond
+            the withdrawal is taxed and reinvested in the taxable account, so only that tax lowers the portfolio.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaxSettings;
@@ -0,0 +1,72 @@
+import React from "react";
+import type { BucketCascadeRule, ThreeBucketOptions } from "../lib/buckets";
+import NumericInput from "./NumericInput";
+
+interface ThreeBucketSettingsProps {
+  threeBucket: ThreeBucketOptions;
+  onChange: (value: ThreeBucketOptions) => void;
+}
+
+const inputClass = "mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600";
+
+const ThreeBucketSettings: React.FC<ThreeBucketSettingsProps> = ({ threeBucket, onChange }) => {
+  const update = (patch: Partial<ThreeBucketOptions>) => onChange({ ...threeBucket, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={threeBucket.enabled} onChange={e => update({ enabled: e.target.checked })} />
+        Three-bucket strategy (cash → bonds → equities)
+      </label>
+      {threeBucket.enabled && (
+        <div className="space-y-3 pl-6">
+          <label className="block text-sm">Bucket 1: cash (years of spending)
+            <NumericInput
+              className={inputClass}
+              value={threeBucket.nearYears}
+              step={0.5}
+              min={0}
+              onChange={(v) => update({ nearYears: Math.max(0, v) })}
+            />
+          </label>
+          <label className="block text-sm">Bucket 2: bonds (years of spending)
+            <NumericInput
+              className={inputClass}
+              value={threeBucket.midYears}
+              step={1}
+              min={0}
+              onChange={(v) => update({ midYears: Math.max(0, v) })}
+            />
+          </label>
+          <label className="block text-sm">Bonds refill cash
+            <select
+              className={inputClass}
+              value={threeBucket.nearCascade}
+              onChange={e => update({ nearCascade: e.target.value as BucketCascadeRule })}
+            >
+              <option value="always">Every year</option>
+              <option value="afterGains">After bond gains</option>
+              <option value="aboveHigh">Only when bonds above prior high</option>
+            </select>
+          </label>
+          <label className="block text-sm">Equities refill bonds
+            <select
+              className={inputClass}
+              value={threeBucket.midCascade}
+              onChange={e => update({ midCascade: e.target.value as BucketCascadeRule })}
+            >
+              <option value="always">Every year</option>
+              <option value="afterGains">After equity gains</option>
+              <option value="aboveHigh">Only when equities above prior high</option>
+            </select>
+          </label>
+          <div className="text-xs text-slate-500">
+            Spending comes from cash, then bonds, then equities. Buckets are refilled toward their sizes at each year end.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThreeBucketSettings;
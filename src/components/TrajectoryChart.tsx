@@ -0,0 +1,84 @@
+import React, { useMemo } from "react";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, CartesianGrid, ReferenceDot } from "recharts";
+import type { PortfolioRunResult, RunResult } from "../lib/simulation";
+import { eventYears, type CashFlowEvent } from "../lib/cashFlows";
+
+interface TrajectoryChartProps {
+  run: PortfolioRunResult | RunResult; // a single index's runs carry plain balances
+  currency: Intl.NumberFormat;
+  showGuardrails?: boolean; // mark the years a guardrail changed the withdrawal
+  events?: CashFlowEvent[]; // marked on the balance line in each year they happen
+}
+
+// Total balance against each year's withdrawal, plus income and the required minimum distribution once the run has any.
+const TrajectoryChart: React.FC<TrajectoryChartProps> = ({ run, currency, showGuardrails, events = [] }) => {
+  const rmds = "rmds" in run ? run.rmds : undefined;
+  const guardrailTriggers = "guardrailTriggers" in run ? run.guardrailTriggers : [];
+  const showRmds = rmds?.some(r => r > 0) ?? false;
+  const showIncome = run.income?.some(v => v > 0) ?? false;
+  const totals = useMemo(() => run.balances.map(b => (typeof b === "number" ? b : b.total)), [run]);
+  const data = useMemo(() => totals.map((total, i) => ({
+    year: i,
+    balance: total,
+    withdrawal: run.withdrawals[i],
+    rmd: showRmds ? rmds?.[i] : undefined,
+    income: showIncome ? run.income?.[i] : undefined,
+  })), [run, totals, rmds, showRmds, showIncome]);
+  // Each year an event happens, labelled with its name the first time; years past the end of the run are left out
+  const markers = useMemo(() => events.flatMap(event => eventYears(event)
+    .filter(year => year < run.balances.length)
+    .map((year, i) => ({ key: `${event.id}-${year}`, year, event, label: i === 0 ? event.name : undefined }))), [events, run]);
+
+  return (
+    <div className="h-72">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ left: 32, right: 8, top: 8, bottom: 8 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="year" />
+          <YAxis yAxisId="left" tickFormatter={(v: number) => currency.format(v)} />
+          <YAxis yAxisId="right" orientation="right" tickFormatter={(v: number) => currency.format(v)} />
+          <Tooltip
+            formatter={(value: number, name: string) => {
+              return [`${currency.format(value)}`, name];
+            }}
+            itemSorter={(item) => (item.dataKey === "balance" ? -1 : 1)}
+          />
+          <Legend />
+          <Line type="monotone" dataKey="balance" yAxisId="left" name="Total Balance" dot={false} strokeWidth={2} stroke="#8884d8" />
+          <Line type="monotone" dataKey="withdrawal" yAxisId="right" name="Withdrawal" dot={false} strokeWidth={2} stroke="#82ca9d" />
+          {showIncome && (
+            <Line type="monotone" dataKey="income" yAxisId="right" name="Income" dot={false} strokeWidth={2} stroke="#0ea5e9" />
+          )}
+          {showRmds && (
+            <Line type="monotone" dataKey="rmd" yAxisId="right" name="RMD" dot={false} strokeWidth={2} strokeDasharray="5 3" stroke="#f59e0b" />
+          )}
+          {showGuardrails && guardrailTriggers.map((year) => (
+            <ReferenceDot
+              key={year}
+              x={year}
+              y={totals[year]}
+              r={5}
+              fill="red"
+              stroke="white"
+              name="Guardrail Trigger"
+            />
+          ))}
+          {markers.map(({ key, year, event, label }) => (
+            <ReferenceDot
+              key={key}
+              x={year}
+              y={totals[year]}
+              yAxisId="left"
+              r={5}
+              fill={event.kind === "expense" ? "#f97316" : "#22c55e"}
+              stroke="white"
+              label={label ? { value: label, position: "top", fontSize: 11 } : undefined}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default TrajectoryChart;
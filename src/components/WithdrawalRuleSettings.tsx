@@ -0,0 +1,112 @@
+import React from "react";
+import type { DrawdownStrategies, WithdrawalRuleParams } from "../lib/withdrawals";
+
+interface WithdrawalRuleSettingsProps {
+  strategy: DrawdownStrategies;
+  params: WithdrawalRuleParams;
+  onStrategyChange: (value: DrawdownStrategies) => void;
+  onParamsChange: (value: WithdrawalRuleParams) => void;
+}
+
+const inputClass = "mt-1 w-full border rounded-xl p-2 bg-white dark:bg-slate-700 dark:border-slate-600";
+
+// Rule selector plus the description and parameters of the selected rule.
+const WithdrawalRuleSettings: React.FC<WithdrawalRuleSettingsProps> = ({ strategy, params, onStrategyChange, onParamsChange }) => {
+  const { guytonKlinger, floorAndCeiling, capeBased, fixedPercentage } = params;
+  const update = <K extends keyof WithdrawalRuleParams>(key: K, patch: Partial<WithdrawalRuleParams[K]>) =>
+    onParamsChange({ ...params, [key]: { ...params[key], ...patch } });
+
+  return (
+    <>
+      <label className="block text-sm">Withdrawal Rule
+        <select
+          className={inputClass}
+          value={strategy}
+          onChange={e => onStrategyChange(e.target.value as DrawdownStrategies)}
+        >
+          <option value="fourPercentRule">4% Rule</option>
+          <option value="fourPercentRuleUpwardReset">4% Rule – Upward Reset</option>
+          <option value="guytonKlinger">Guyton-Klinger</option>
+          <option value="floorAndCeiling">Floor and Ceiling</option>
+          <option value="capeBased">CAPE-Based</option>
+          <option value="fixedPercentage">Fixed % Drawdown</option>
+          <option value="principalProtectionRule">Principal Protection Rule</option>
+        </select>
+      </label>
+
+      {strategy === 'fourPercentRule' && (
+        <div className="text-sm border-t pt-2">
+          <h3 className="font mb-2">Withdraw 4% of starting porfolio and adjust for inflation each year.</h3>
+        </div>
+      )}
+
+      {strategy === 'fourPercentRuleUpwardReset' && (
+        <div className="text-sm border-t pt-2">
+          <h3 className="font mb-2">Same as 4%, but if the portfolio grows, reset withdrawals to 4% of the new balance. Spending never goes down—only holds steady or resets upward—providing a growing income when markets rise while protecting against cuts in down years.</h3>
+        </div>
+      )}
+
+      {strategy === 'guytonKlinger' && (
+        <div className="text-sm border-t pt-2">
+          <h3 className="font-semibold mb-2">Guyton-Klinger allows for starting with a higher withdrawal rate. Around 4.5%, and ajusts bases on guardrails.</h3>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">Guardrail Lower (%)
+              <input type="number" className={inputClass} value={guytonKlinger.guardrailLower * 100} onChange={e => update('guytonKlinger', { guardrailLower: parseFloat(e.target.value) / 100 })} />
+            </label>
+            <label className="block">Guardrail Upper (%)
+              <input type="number" className={inputClass} value={guytonKlinger.guardrailUpper * 100} onChange={e => update('guytonKlinger', { guardrailUpper: parseFloat(e.target.value) / 100 })} />
+            </label>
+            <label className="block">Raise Percentage (%)
+              <input type="number" className={inputClass} value={guytonKlinger.raisePercentage * 100} onChange={e => update('guytonKlinger', { raisePercentage: parseFloat(e.target.value) / 100 })} />
+            </label>
+            <label className="block">Cut Percentage (%)
+              <input type="number" className={inputClass} value={guytonKlinger.cutPercentage * 100} onChange={e => update('guytonKlinger', { cutPercentage: parseFloat(e.target.value) / 100 })} />
+            </label>
+          </div>
+        </div>
+      )}
+
+      {strategy === 'fixedPercentage' && (
+        <div className="space-y-2 text-sm border-t pt-2">
+          <h3 className="font-semibold">Fixed % Parameters</h3>
+          <label className="block">Withdrawal Rate (%)
+            <input type="number" className={inputClass} value={fixedPercentage.withdrawalRate * 100} onChange={e => update('fixedPercentage', { withdrawalRate: parseFloat(e.target.value) / 100 })} />
+          </label>
+        </div>
+      )}
+
+      {strategy === 'principalProtectionRule' && (
+        <div className="text-sm border-t pt-2">
+          <h3 className="font-semibold mb-2">Parameters</h3>
+          <p className="text-xs text-slate-600">This strategy uses the global initial withdrawal amount and inflation settings.</p>
+        </div>
+      )}
+
+      {strategy === 'floorAndCeiling' && (
+        <div className="space-y-2 text-sm border-t pt-2">
+          <h3 className="font-semibold">Floor and Ceiling Parameters</h3>
+          <label className="block">Floor (%)
+            <input type="number" className={inputClass} value={floorAndCeiling.floor * 100} step={1} onChange={e => update('floorAndCeiling', { floor: parseFloat(e.target.value) / 100 })} />
+          </label>
+          <label className="block">Ceiling (%)
+            <input type="number" className={inputClass} value={floorAndCeiling.ceiling * 100} step={1} onChange={e => update('floorAndCeiling', { ceiling: parseFloat(e.target.value) / 100 })} />
+          </label>
+        </div>
+      )}
+
+      {strategy === 'capeBased' && (
+        <div className="space-y-2 text-sm border-t pt-2">
+          <h3 className="font-semibold">CAPE-Based Parameters</h3>
+          <label className="block">Base Percentage (%)
+            <input type="number" className={inputClass} value={capeBased.basePercentage * 100} onChange={e => update('capeBased', { basePercentage: parseFloat(e.target.value) / 100 })} />
+          </label>
+          <label className="block">CAPE Fraction
+            <input type="number" className={inputClass} value={capeBased.capeFraction} step={0.1} onChange={e => update('capeBased', { capeFraction: parseFloat(e.target.value) })} />
+          </label>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default WithdrawalRuleSettings;
@@ -1,41 +1,34 @@
-import { createContext, useContext, useState, type ReactNode } from "react";
-import { SP500_TOTAL_RETURNS, NASDAQ100_TOTAL_RETURNS, BITCOIN_TOTAL_RETURNS } from "./returns";
-import { TEN_YEAR_TREASURY_TOTAL_RETURNS } from "./bonds";
-import { INFLATION_RATES } from "./inflation";
-import { CAPE_DATA } from "./cape";
+import { createContext, useCallback, useContext, useMemo, useState, type ReactNode } from "react";
+import { DEFAULT_MARKET_DATA, type CustomAsset, type MarketData } from "./marketData";
+import { usePersistentState } from "../hooks/usePersistentState";
+import { ASSET_CLASSES, assetClass, customAssetClass, type AssetClass } from "../lib/assets";
+import { setCustomReturn } from "../lib/customAssets";
 
-interface DataState {
-  sp500: { year: number; returnPct: number }[];
-  nasdaq100: { year: number; returnPct: number }[];
-  bitcoin: { year: number; returnPct: number }[];
-  bonds: { year: number; returnPct: number }[];
-  inflation: { year: number; inflationPct: number }[];
-  cape: { [year: number]: number };
-}
+type DataState = MarketData;
+type BundledData = Omit<MarketData, "custom">;
 
 interface DataContextValue extends DataState {
-  updateSeries: (series: keyof DataState, year: number, value: number | null) => void;
+  marketData: DataState; // the same series as one object, which only changes when they are edited
+  // `series` is a bundled series key or a custom asset id
+  updateSeries: (series: string, year: number, value: number | null) => void;
+  setCustomAssets: (assets: CustomAsset[]) => void;
   reset: () => void;
 }
 
 const DataContext = createContext<DataContextValue | undefined>(undefined);
 
-const defaultData: DataState = {
-  sp500: SP500_TOTAL_RETURNS.map(d => ({ ...d })),
-  nasdaq100: NASDAQ100_TOTAL_RETURNS.map(d => ({ ...d })),
-  bitcoin: BITCOIN_TOTAL_RETURNS.map(d => ({ ...d })),
-  bonds: TEN_YEAR_TREASURY_TOTAL_RETURNS.map(d => ({ ...d })),
-  inflation: INFLATION_RATES.map(d => ({ ...d })),
-  cape: { ...CAPE_DATA },
-};
+// The bundled series; custom assets are kept in their own persisted state
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+const { custom: _custom, ...defaultData }: MarketData = DEFAULT_MARKET_DATA;
+
+// A fresh copy of the bundled data, so edits never touch the defaults.
+const copyDefaults = (): BundledData => structuredClone(defaultData);
 
 export function DataProvider({ children }: { children: ReactNode }) {
-  const [sp500, setSp500] = useState(defaultData.sp500);
-  const [nasdaq100, setNasdaq100] = useState(defaultData.nasdaq100);
-  const [bitcoin, setBitcoin] = useState(defaultData.bitcoin);
-  const [bonds, setBonds] = useState(defaultData.bonds);
-  const [inflation, setInflation] = useState(defaultData.inflation);
-  const [cape, setCape] = useState(defaultData.cape);
+  const [data, setData] = useState<BundledData>(defaultData);
+  // Custom assets are kept across sessions, since profiles may hold them
+  const [custom, setCustom] = usePersistentState<CustomAsset[]>("customAssets", []);
+  const marketData = useMemo(() => ({ ...data, custom }), [data, custom]);
 
   const updateArray = <T extends { year: number }>(
     arr: T[],
@@ -44,44 +37,42 @@ export function DataProvider({ children }: { children: ReactNode }) {
     key: keyof T
   ): T[] => {
     const idx = arr.findIndex(d => d.year === year);
-    if (idx === -1) return arr;
     const next = arr.slice();
+    if (idx === -1) {
+      // A year outside the record, such as Bitcoin before 2011, goes in where it sorts, whichever way the series runs
+      if (value == null || Number.isNaN(value)) return arr;
+      const descending = arr.length > 1 && arr[0].year > arr[arr.length - 1].year;
+      const at = arr.findIndex(d => (descending ? d.year < year : d.year > year));
+      next.splice(at === -1 ? arr.length : at, 0, { year, [key]: value } as T);
+      return next;
+    }
     next[idx] = { ...next[idx], [key]: value } as T;
     return next;
   };
 
   const updateSeries = (
-    series: keyof DataState,
+    series: string,
     year: number,
     value: number | null
   ) => {
-    if (series === "sp500") setSp500(p => updateArray(p, year, value, "returnPct"));
-    else if (series === "nasdaq100") setNasdaq100(p => updateArray(p, year, value, "returnPct"));
-    else if (series === "bitcoin") setBitcoin(p => updateArray(p, year, value, "returnPct"));
-    else if (series === "bonds") setBonds(p => updateArray(p, year, value, "returnPct"));
-    else if (series === "inflation") setInflation(p => updateArray(p, year, value, "inflationPct"));
-    else if (series === "cape")
-      setCape(p => {
-        const next = { ...p };
+    if (series === "cape")
+      setData(p => {
+        const next = { ...p.cape };
         if (value == null || Number.isNaN(value)) delete next[year];
         else next[year] = value;
-        return next;
+        return { ...p, cape: next };
       });
+    else if (series === "inflation") setData(p => ({ ...p, inflation: updateArray(p.inflation, year, value, "inflationPct") }));
+    else if (series in defaultData) {
+      const key = series as Exclude<keyof BundledData, "cape" | "inflation">;
+      setData(p => ({ ...p, [key]: updateArray(p[key], year, value, "returnPct") }));
+    } else setCustom(p => p.map(a => (a.id === series ? setCustomReturn(a, year, value) : a)));
   };
 
-  const reset = () => {
-    setSp500(defaultData.sp500.map(d => ({ ...d })));
-    setNasdaq100(defaultData.nasdaq100.map(d => ({ ...d })));
-    setBitcoin(defaultData.bitcoin.map(d => ({ ...d })));
-    setBonds(defaultData.bonds.map(d => ({ ...d })));
-    setInflation(defaultData.inflation.map(d => ({ ...d })));
-    setCape({ ...defaultData.cape });
-  };
+  const reset = () => setData(copyDefaults());
 
   return (
-    <DataContext.Provider
-      value={{ sp500, nasdaq100, bitcoin, bonds, inflation, cape, updateSeries, reset }}
-    >
+    <DataContext.Provider value={{ ...marketData, marketData, updateSeries, setCustomAssets: setCustom, reset }}>
       {children}
     </DataContext.Provider>
   );
@@ -94,3 +85,15 @@ export function useData() {
   return ctx;
 }
 
+/**
+ * Every asset class a portfolio can hold, custom ones last, and a lookup
+ * that knows their names and colours. Outside a DataProvider only the
+ * built-in classes exist, so asset-aware components also render on their own.
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function useAssetClasses(): { classes: AssetClass[]; lookup: (id: string) => AssetClass } {
+  const custom = useContext(DataContext)?.custom;
+  const classes = useMemo(() => [...ASSET_CLASSES, ...(custom ?? []).map(customAssetClass)], [custom]);
+  const lookup = useCallback((id: string) => assetClass(id, custom), [custom]);
+  return { classes, lookup };
+}
@@ -0,0 +1,60 @@
+// Gold Returns by Year, change in the year-end London price in USD (approximate)
+export const GOLD_RETURNS: { year: number; returnPct: number }[] = [
+  { year: 2025, returnPct: 64.0 },
+  { year: 2024, returnPct: 27.2 },
+  { year: 2023, returnPct: 13.1 },
+  { year: 2022, returnPct: -0.3 },
+  { year: 2021, returnPct: -3.6 },
+  { year: 2020, returnPct: 25.1 },
+  { year: 2019, returnPct: 18.3 },
+  { year: 2018, returnPct: -1.6 },
+  { year: 2017, returnPct: 13.1 },
+  { year: 2016, returnPct: 8.6 },
+  { year: 2015, returnPct: -10.4 },
+  { year: 2014, returnPct: -1.5 },
+  { year: 2013, returnPct: -28.3 },
+  { year: 2012, returnPct: 8.3 },
+  { year: 2011, returnPct: 9.6 },
+  { year: 2010, returnPct: 29.2 },
+  { year: 2009, returnPct: 25.0 },
+  { year: 2008, returnPct: 4.3 },
+  { year: 2007, returnPct: 31.9 },
+  { year: 2006, returnPct: 23.2 },
+  { year: 2005, returnPct: 17.8 },
+  { year: 2004, returnPct: 5.0 },
+  { year: 2003, returnPct: 21.7 },
+  { year: 2002, returnPct: 23.9 },
+  { year: 2001, returnPct: 0.7 },
+  { year: 2000, returnPct: -5.4 },
+  { year: 1999, returnPct: 0.9 },
+  { year: 1998, returnPct: -0.8 },
+  { year: 1997, returnPct: -21.4 },
+  { year: 1996, returnPct: -4.6 },
+  { year: 1995, returnPct: 1.0 },
+  { year: 1994, returnPct: -2.2 },
+  { year: 1993, returnPct: 17.7 },
+  { year: 1992, returnPct: -5.7 },
+  { year: 1991, returnPct: -8.6 },
+  { year: 1990, returnPct: -3.1 },
+  { year: 1989, returnPct: -2.8 },
+  { year: 1988, returnPct: -15.3 },
+  { year: 1987, returnPct: 24.5 },
+  { year: 1986, returnPct: 18.9 },
+  { year: 1985, returnPct: 6.0 },
+  { year: 1984, returnPct: -19.4 },
+  { year: 1983, returnPct: -16.3 },
+  { year: 1982, returnPct: 14.9 },
+  { year: 1981, returnPct: -32.6 },
+  { year: 1980, returnPct: 15.2 },
+  { year: 1979, returnPct: 126.5 },
+  { year: 1978, returnPct: 37.0 },
+  { year: 1977, returnPct: 22.6 },
+  { year: 1976, returnPct: -4.1 },
+  { year: 1975, returnPct: -24.8 },
+  { year: 1974, returnPct: 66.2 },
+  { year: 1973, returnPct: 72.9 },
+  { year: 1972, returnPct: 49.0 },
+  { year: 1971, returnPct: 16.7 },
+  { year: 1970, returnPct: 6.0 },
+  { year: 1969, returnPct: -16.8 },
+];
@@ -0,0 +1,59 @@
+// International Developed-Market Stock Total Returns by Year, MSCI EAFE in USD (approximate)
+export const INTERNATIONAL_TOTAL_RETURNS: { year: number; returnPct: number }[] = [
+  { year: 2025, returnPct: 31.9 },
+  { year: 2024, returnPct: 4.3 },
+  { year: 2023, returnPct: 18.9 },
+  { year: 2022, returnPct: -14.0 },
+  { year: 2021, returnPct: 11.8 },
+  { year: 2020, returnPct: 8.3 },
+  { year: 2019, returnPct: 22.7 },
+  { year: 2018, returnPct: -13.4 },
+  { year: 2017, returnPct: 25.6 },
+  { year: 2016, returnPct: 1.5 },
+  { year: 2015, returnPct: -0.4 },
+  { year: 2014, returnPct: -4.5 },
+  { year: 2013, returnPct: 23.3 },
+  { year: 2012, returnPct: 17.9 },
+  { year: 2011, returnPct: -11.7 },
+  { year: 2010, returnPct: 7.8 },
+  { year: 2009, returnPct: 32.5 },
+  { year: 2008, returnPct: -43.1 },
+  { year: 2007, returnPct: 11.6 },
+  { year: 2006, returnPct: 26.9 },
+  { year: 2005, returnPct: 14.0 },
+  { year: 2004, returnPct: 20.7 },
+  { year: 2003, returnPct: 39.2 },
+  { year: 2002, returnPct: -15.7 },
+  { year: 2001, returnPct: -21.2 },
+  { year: 2000, returnPct: -14.0 },
+  { year: 1999, returnPct: 27.3 },
+  { year: 1998, returnPct: 20.3 },
+  { year: 1997, returnPct: 2.1 },
+  { year: 1996, returnPct: 6.4 },
+  { year: 1995, returnPct: 11.6 },
+  { year: 1994, returnPct: 8.1 },
+  { year: 1993, returnPct: 32.9 },
+  { year: 1992, returnPct: -11.8 },
+  { year: 1991, returnPct: 12.5 },
+  { year: 1990, returnPct: -23.2 },
+  { year: 1989, returnPct: 10.8 },
+  { year: 1988, returnPct: 28.6 },
+  { year: 1987, returnPct: 24.9 },
+  { year: 1986, returnPct: 69.9 },
+  { year: 1985, returnPct: 56.7 },
+  { year: 1984, returnPct: 7.9 },
+  { year: 1983, returnPct: 24.6 },
+  { year: 1982, returnPct: -0.9 },
+  { year: 1981, returnPct: -1.0 },
+  { year: 1980, returnPct: 24.4 },
+  { year: 1979, returnPct: 6.2 },
+  { year: 1978, returnPct: 34.3 },
+  { year: 1977, returnPct: 19.4 },
+  { year: 1976, returnPct: 3.7 },
+  { year: 1975, returnPct: 37.1 },
+  { year: 1974, returnPct: -22.1 },
+  { year: 1973, returnPct: -14.2 },
+  { year: 1972, returnPct: 37.6 },
+  { year: 1971, returnPct: 31.2 },
+  { year: 1970, returnPct: -10.5 },
+];
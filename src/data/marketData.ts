@@ -0,0 +1,51 @@
+import { SP500_TOTAL_RETURNS, NASDAQ100_TOTAL_RETURNS, BITCOIN_TOTAL_RETURNS } from "./returns";
+import { TEN_YEAR_TREASURY_TOTAL_RETURNS } from "./bonds";
+import { THREE_MONTH_TBILL_RETURNS } from "./tbills";
+import { INTERNATIONAL_TOTAL_RETURNS } from "./international";
+import { SMALL_CAP_VALUE_TOTAL_RETURNS } from "./smallCapValue";
+import { REIT_TOTAL_RETURNS } from "./reits";
+import { GOLD_RETURNS } from "./gold";
+import { TIPS_TOTAL_RETURNS } from "./tips";
+import { INFLATION_RATES } from "./inflation";
+import { CAPE_DATA } from "./cape";
+
+// A return series added on the Data tab, such as a specific fund or a managed account.
+export interface CustomAsset {
+  id: string; // "custom-1", "custom-2", ...
+  name: string;
+  color: string;
+  returns: { year: number; returnPct: number }[];
+}
+
+// Every historical series the simulations read, as edited on the Data tab.
+export interface MarketData {
+  sp500: { year: number; returnPct: number }[];
+  nasdaq100: { year: number; returnPct: number }[];
+  intl: { year: number; returnPct: number }[];
+  smallValue: { year: number; returnPct: number }[];
+  reits: { year: number; returnPct: number }[];
+  gold: { year: number; returnPct: number }[];
+  bitcoin: { year: number; returnPct: number }[];
+  tips: { year: number; returnPct: number }[];
+  bonds: { year: number; returnPct: number }[];
+  tbills: { year: number; returnPct: number }[];
+  inflation: { year: number; inflationPct: number }[];
+  cape: { [year: number]: number };
+  custom: CustomAsset[];
+}
+
+export const DEFAULT_MARKET_DATA: MarketData = {
+  sp500: SP500_TOTAL_RETURNS.map(d => ({ ...d })),
+  nasdaq100: NASDAQ100_TOTAL_RETURNS.map(d => ({ ...d })),
+  intl: INTERNATIONAL_TOTAL_RETURNS.map(d => ({ ...d })),
+  smallValue: SMALL_CAP_VALUE_TOTAL_RETURNS.map(d => ({ ...d })),
+  reits: REIT_TOTAL_RETURNS.map(d => ({ ...d })),
+  gold: GOLD_RETURNS.map(d => ({ ...d })),
+  bitcoin: BITCOIN_TOTAL_RETURNS.map(d => ({ ...d })),
+  tips: TIPS_TOTAL_RETURNS.map(d => ({ ...d })),
+  bonds: TEN_YEAR_TREASURY_TOTAL_RETURNS.map(d => ({ ...d })),
+  tbills: THREE_MONTH_TBILL_RETURNS.map(d => ({ ...d })),
+  inflation: INFLATION_RATES.map(d => ({ ...d })),
+  cape: { ...CAPE_DATA },
+  custom: [],
+};
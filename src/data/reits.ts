@@ -0,0 +1,57 @@
+// U.S. REIT Total Returns by Year, FTSE Nareit All Equity REITs (approximate)
+export const REIT_TOTAL_RETURNS: { year: number; returnPct: number }[] = [
+  { year: 2025, returnPct: 2.3 },
+  { year: 2024, returnPct: 4.9 },
+  { year: 2023, returnPct: 13.7 },
+  { year: 2022, returnPct: -24.9 },
+  { year: 2021, returnPct: 41.3 },
+  { year: 2020, returnPct: -5.1 },
+  { year: 2019, returnPct: 28.7 },
+  { year: 2018, returnPct: -4.0 },
+  { year: 2017, returnPct: 8.7 },
+  { year: 2016, returnPct: 8.5 },
+  { year: 2015, returnPct: 2.8 },
+  { year: 2014, returnPct: 28.0 },
+  { year: 2013, returnPct: 2.9 },
+  { year: 2012, returnPct: 19.7 },
+  { year: 2011, returnPct: 8.3 },
+  { year: 2010, returnPct: 28.0 },
+  { year: 2009, returnPct: 28.0 },
+  { year: 2008, returnPct: -37.7 },
+  { year: 2007, returnPct: -15.7 },
+  { year: 2006, returnPct: 35.1 },
+  { year: 2005, returnPct: 12.2 },
+  { year: 2004, returnPct: 31.6 },
+  { year: 2003, returnPct: 37.1 },
+  { year: 2002, returnPct: 3.8 },
+  { year: 2001, returnPct: 13.9 },
+  { year: 2000, returnPct: 26.4 },
+  { year: 1999, returnPct: -4.6 },
+  { year: 1998, returnPct: -17.5 },
+  { year: 1997, returnPct: 20.3 },
+  { year: 1996, returnPct: 35.3 },
+  { year: 1995, returnPct: 15.3 },
+  { year: 1994, returnPct: 3.2 },
+  { year: 1993, returnPct: 19.7 },
+  { year: 1992, returnPct: 14.6 },
+  { year: 1991, returnPct: 35.7 },
+  { year: 1990, returnPct: -15.4 },
+  { year: 1989, returnPct: 8.8 },
+  { year: 1988, returnPct: 13.5 },
+  { year: 1987, returnPct: -3.6 },
+  { year: 1986, returnPct: 19.2 },
+  { year: 1985, returnPct: 19.1 },
+  { year: 1984, returnPct: 20.9 },
+  { year: 1983, returnPct: 30.6 },
+  { year: 1982, returnPct: 21.6 },
+  { year: 1981, returnPct: 6.0 },
+  { year: 1980, returnPct: 24.4 },
+  { year: 1979, returnPct: 35.9 },
+  { year: 1978, returnPct: 10.3 },
+  { year: 1977, returnPct: 22.4 },
+  { year: 1976, returnPct: 47.6 },
+  { year: 1975, returnPct: 19.3 },
+  { year: 1974, returnPct: -21.4 },
+  { year: 1973, returnPct: -15.5 },
+  { year: 1972, returnPct: 8.0 },
+];
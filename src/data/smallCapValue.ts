@@ -0,0 +1,50 @@
+// U.S. Small-Cap Value Stock Total Returns by Year, Russell 2000 Value (approximate)
+export const SMALL_CAP_VALUE_TOTAL_RETURNS: { year: number; returnPct: number }[] = [
+  { year: 2025, returnPct: 12.6 },
+  { year: 2024, returnPct: 8.1 },
+  { year: 2023, returnPct: 14.6 },
+  { year: 2022, returnPct: -14.5 },
+  { year: 2021, returnPct: 28.3 },
+  { year: 2020, returnPct: 4.6 },
+  { year: 2019, returnPct: 22.4 },
+  { year: 2018, returnPct: -12.9 },
+  { year: 2017, returnPct: 7.8 },
+  { year: 2016, returnPct: 31.7 },
+  { year: 2015, returnPct: -7.5 },
+  { year: 2014, returnPct: 4.2 },
+  { year: 2013, returnPct: 34.5 },
+  { year: 2012, returnPct: 18.1 },
+  { year: 2011, returnPct: -5.5 },
+  { year: 2010, returnPct: 24.5 },
+  { year: 2009, returnPct: 20.6 },
+  { year: 2008, returnPct: -28.9 },
+  { year: 2007, returnPct: -9.8 },
+  { year: 2006, returnPct: 23.5 },
+  { year: 2005, returnPct: 4.7 },
+  { year: 2004, returnPct: 22.3 },
+  { year: 2003, returnPct: 46.0 },
+  { year: 2002, returnPct: -11.4 },
+  { year: 2001, returnPct: 14.0 },
+  { year: 2000, returnPct: 22.8 },
+  { year: 1999, returnPct: -1.5 },
+  { year: 1998, returnPct: -6.5 },
+  { year: 1997, returnPct: 31.8 },
+  { year: 1996, returnPct: 21.4 },
+  { year: 1995, returnPct: 25.8 },
+  { year: 1994, returnPct: -1.5 },
+  { year: 1993, returnPct: 23.8 },
+  { year: 1992, returnPct: 29.1 },
+  { year: 1991, returnPct: 41.7 },
+  { year: 1990, returnPct: -21.8 },
+  { year: 1989, returnPct: 12.4 },
+  { year: 1988, returnPct: 29.5 },
+  { year: 1987, returnPct: -7.1 },
+  { year: 1986, returnPct: 7.4 },
+  { year: 1985, returnPct: 31.0 },
+  { year: 1984, returnPct: 2.3 },
+  { year: 1983, returnPct: 38.6 },
+  { year: 1982, returnPct: 28.5 },
+  { year: 1981, returnPct: 14.9 },
+  { year: 1980, returnPct: 25.4 },
+  { year: 1979, returnPct: 35.4 },
+];
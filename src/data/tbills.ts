@@ -0,0 +1,83 @@
+// 3-Month U.S. Treasury Bill Total Returns by Year (approximate)
+export const THREE_MONTH_TBILL_RETURNS: { year: number; returnPct: number }[] = [
+  { year: 2025, returnPct: 4.2 },
+  { year: 2024, returnPct: 5.0 },
+  { year: 2023, returnPct: 5.1 },
+  { year: 2022, returnPct: 2.0 },
+  { year: 2021, returnPct: 0.1 },
+  { year: 2020, returnPct: 0.1 },
+  { year: 2019, returnPct: 1.6 },
+  { year: 2018, returnPct: 2.4 },
+  { year: 2017, returnPct: 1.4 },
+  { year: 2016, returnPct: 0.5 },
+  { year: 2015, returnPct: 0.2 },
+  { year: 2014, returnPct: 0.0 },
+  { year: 2013, returnPct: 0.1 },
+  { year: 2012, returnPct: 0.1 },
+  { year: 2011, returnPct: 0.0 },
+  { year: 2010, returnPct: 0.1 },
+  { year: 2009, returnPct: 0.1 },
+  { year: 2008, returnPct: 1.6 },
+  { year: 2007, returnPct: 4.6 },
+  { year: 2006, returnPct: 4.7 },
+  { year: 2005, returnPct: 3.0 },
+  { year: 2004, returnPct: 1.2 },
+  { year: 2003, returnPct: 1.0 },
+  { year: 2002, returnPct: 1.7 },
+  { year: 2001, returnPct: 3.7 },
+  { year: 2000, returnPct: 5.8 },
+  { year: 1999, returnPct: 4.5 },
+  { year: 1998, returnPct: 4.7 },
+  { year: 1997, returnPct: 5.1 },
+  { year: 1996, returnPct: 5.0 },
+  { year: 1995, returnPct: 5.5 },
+  { year: 1994, returnPct: 4.0 },
+  { year: 1993, returnPct: 3.0 },
+  { year: 1992, returnPct: 3.4 },
+  { year: 1991, returnPct: 5.6 },
+  { year: 1990, returnPct: 7.6 },
+  { year: 1989, returnPct: 8.1 },
+  { year: 1988, returnPct: 6.5 },
+  { year: 1987, returnPct: 5.7 },
+  { year: 1986, returnPct: 6.0 },
+  { year: 1985, returnPct: 7.5 },
+  { year: 1984, returnPct: 9.6 },
+  { year: 1983, returnPct: 8.5 },
+  { year: 1982, returnPct: 11.0 },
+  { year: 1981, returnPct: 14.3 },
+  { year: 1980, returnPct: 11.2 },
+  { year: 1979, returnPct: 9.9 },
+  { year: 1978, returnPct: 6.9 },
+  { year: 1977, returnPct: 5.1 },
+  { year: 1976, returnPct: 5.0 },
+  { year: 1975, returnPct: 6.0 },
+  { year: 1974, returnPct: 7.8 },
+  { year: 1973, returnPct: 6.7 },
+  { year: 1972, returnPct: 4.0 },
+  { year: 1971, returnPct: 4.5 },
+  { year: 1970, returnPct: 6.7 },
+  { year: 1969, returnPct: 6.6 },
+  { year: 1968, returnPct: 5.3 },
+  { year: 1967, returnPct: 4.3 },
+  { year: 1966, returnPct: 4.8 },
+  { year: 1965, returnPct: 3.9 },
+  { year: 1964, returnPct: 3.5 },
+  { year: 1963, returnPct: 3.1 },
+  { year: 1962, returnPct: 2.8 },
+  { year: 1961, returnPct: 2.3 },
+  { year: 1960, returnPct: 3.1 },
+  { year: 1959, returnPct: 3.3 },
+  { year: 1958, returnPct: 1.8 },
+  { year: 1957, returnPct: 3.2 },
+  { year: 1956, returnPct: 2.6 },
+  { year: 1955, returnPct: 1.7 },
+  { year: 1954, returnPct: 0.9 },
+  { year: 1953, returnPct: 1.9 },
+  { year: 1952, returnPct: 1.7 },
+  { year: 1951, returnPct: 1.5 },
+  { year: 1950, returnPct: 1.2 },
+  { year: 1949, returnPct: 1.1 },
+  { year: 1948, returnPct: 1.1 },
+  { year: 1947, returnPct: 0.6 },
+  { year: 1946, returnPct: 0.4 },
+];
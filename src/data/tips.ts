@@ -0,0 +1,31 @@
+// Treasury Inflation-Protected Securities (TIPS) Total Returns by Year, Bloomberg U.S. TIPS Index (approximate)
+export const TIPS_TOTAL_RETURNS: { year: number; returnPct: number }[] = [
+  { year: 2025, returnPct: 7.0 },
+  { year: 2024, returnPct: 1.8 },
+  { year: 2023, returnPct: 3.9 },
+  { year: 2022, returnPct: -11.8 },
+  { year: 2021, returnPct: 6.0 },
+  { year: 2020, returnPct: 11.0 },
+  { year: 2019, returnPct: 8.4 },
+  { year: 2018, returnPct: -1.3 },
+  { year: 2017, returnPct: 3.0 },
+  { year: 2016, returnPct: 4.7 },
+  { year: 2015, returnPct: -1.4 },
+  { year: 2014, returnPct: 3.6 },
+  { year: 2013, returnPct: -8.6 },
+  { year: 2012, returnPct: 7.0 },
+  { year: 2011, returnPct: 13.6 },
+  { year: 2010, returnPct: 6.3 },
+  { year: 2009, returnPct: 11.4 },
+  { year: 2008, returnPct: -2.4 },
+  { year: 2007, returnPct: 11.6 },
+  { year: 2006, returnPct: 0.4 },
+  { year: 2005, returnPct: 2.8 },
+  { year: 2004, returnPct: 8.5 },
+  { year: 2003, returnPct: 8.4 },
+  { year: 2002, returnPct: 16.6 },
+  { year: 2001, returnPct: 7.9 },
+  { year: 2000, returnPct: 13.2 },
+  { year: 1999, returnPct: 2.4 },
+  { year: 1998, returnPct: 3.9 },
+];
@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useState } from "react";
+import type { PortfolioRunResult } from "../lib/simulation";
+import { runSimulationJob, splitJob, type SimulationJob } from "../lib/simulationJob";
+import { createSimulationPool, type SimulationPool } from "../lib/simulationPool";
+
+let sharedPool: SimulationPool | null | undefined;
+
+// One pool for the whole app, or null where workers are unavailable (tests, old browsers).
+function getPool(): SimulationPool | null {
+  if (sharedPool === undefined) {
+    const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+    sharedPool = typeof Worker !== "undefined" ? createSimulationPool(Math.max(1, Math.min(4, cores - 1))) : null;
+  }
+  return sharedPool;
+}
+
+// Aim for a few chunks per worker so progress updates regularly
+const chunkSizeFor = (job: SimulationJob, pool: SimulationPool) =>
+  Math.max(50, Math.ceil(job.yearSamples.length / (pool.size * 4)));
+
+// Queues chunks on the pool and resolves with each chunk's runs in order, or rejects once `signal` aborts.
+function runChunks(pool: SimulationPool, chunks: SimulationJob[], signal?: AbortSignal): Promise<PortfolioRunResult[][]> {
+  if (chunks.length === 0) return Promise.resolve([]);
+  return new Promise((resolve, reject) => {
+    const results: PortfolioRunResult[][] = new Array(chunks.length);
+    let remaining = chunks.length;
+    const abort = () => {
+      cancel();
+      reject(signal?.reason);
+    };
+    const cancel = pool.run(chunks, (index, runs) => {
+      results[index] = runs;
+      if (--remaining > 0) return;
+      signal?.removeEventListener("abort", abort);
+      resolve(results);
+    });
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+}
+
+/**
+ * Runs a whole job on the shared pool and resolves with every run in order.
+ * Aborting `signal` drops the chunks still queued, ignores any that finish
+ * afterwards and rejects with the signal's reason.
+ */
+export function runJob(job: SimulationJob, signal?: AbortSignal): Promise<PortfolioRunResult[]> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  const pool = getPool();
+  if (!pool) return Promise.resolve(runSimulationJob(job));
+  return runChunks(pool, splitJob(job, chunkSizeFor(job, pool)), signal).then(chunks => chunks.flat());
+}
+
+// Runs a batch of small jobs, one chunk each, and resolves with every job's runs in order; cancels like runJob.
+export function runJobs(jobs: SimulationJob[], signal?: AbortSignal): Promise<PortfolioRunResult[][]> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  const pool = getPool();
+  if (!pool) return Promise.resolve(jobs.map(runSimulationJob));
+  return runChunks(pool, jobs, signal);
+}
+
+type BatchProgress<T> = { jobs: SimulationJob[] | null; summaries: (T | undefined)[] };
+
+/**
+ * Runs a batch of jobs on the pool, one chunk per job, and keeps only each
+ * job's summary. Summaries arrive as jobs finish; a new batch cancels the old
+ * one. `summarize` should be a stable module-level function.
+ */
+export function useJobSummaries<T>(jobs: SimulationJob[], summarize: (runs: PortfolioRunResult[]) => T) {
+  const pool = getPool();
+  const fallback = useMemo(() => (pool ? null : jobs.map(job => summarize(runSimulationJob(job)))), [pool, jobs, summarize]);
+  const [batch, setBatch] = useState<BatchProgress<T>>({ jobs: null, summaries: [] });
+
+  useEffect(() => {
+    if (!pool) return;
+    return pool.run(jobs, (index, runs) => {
+      const summary = summarize(runs);
+      setBatch(prev => {
+        const summaries = prev.jobs === jobs ? prev.summaries.slice() : new Array(jobs.length).fill(undefined);
+        summaries[index] = summary;
+        return { jobs, summaries };
+      });
+    });
+  }, [pool, jobs, summarize]);
+
+  if (fallback) return { summaries: fallback as (T | undefined)[], progress: 1 };
+  const summaries = batch.jobs === jobs ? batch.summaries : new Array<T | undefined>(jobs.length).fill(undefined);
+  const done = summaries.filter(s => s !== undefined).length;
+  return { summaries, progress: jobs.length === 0 ? 1 : done / jobs.length };
+}
+
+type Progress = { job: SimulationJob | null; chunks: (PortfolioRunResult[] | undefined)[]; completed: number };
+
+/**
+ * Runs a job on the worker pool. Runs stream in as chunks finish, so callers
+ * can draw partial results; the previous job's runs stay visible until the
+ * first chunk of a new one arrives, provided they cover the same horizon. A
+ * new job cancels the one in flight.
+ */
+export function useSimulation(job: SimulationJob) {
+  const pool = getPool();
+  const fallback = useMemo(() => (pool ? null : runSimulationJob(job)), [pool, job]);
+  const [progress, setProgress] = useState<Progress>({ job: null, chunks: [], completed: 0 });
+
+  useEffect(() => {
+    if (!pool) return;
+    const chunks = splitJob(job, chunkSizeFor(job, pool));
+    return pool.run(chunks, (index, runs) => {
+      setProgress(prev => {
+        const results = prev.job === job ? prev.chunks.slice() : new Array(chunks.length).fill(undefined);
+        results[index] = runs;
+        return { job, chunks: results, completed: (prev.job === job ? prev.completed : 0) + 1 };
+      });
+    });
+  }, [pool, job]);
+
+  const stale = progress.job !== null && progress.job !== job && progress.job.horizon !== job.horizon;
+  const runs = useMemo(
+    () => fallback ?? (stale ? [] : progress.chunks.flatMap(c => c ?? [])),
+    [fallback, stale, progress.chunks]
+  );
+  if (!pool) return { runs, progress: 1, running: false };
+
+  const total = Math.ceil(job.yearSamples.length / chunkSizeFor(job, pool));
+  const completed = progress.job === job ? progress.completed : 0;
+  return { runs, progress: total === 0 ? 1 : completed / total, running: completed < total };
+}
@@ -0,0 +1,81 @@
+import type { CustomAsset, MarketData } from "../data/marketData";
+import type { AssetHoldings } from "./simulation";
+
+// What an asset does in the strategies: cash funds spending first, stocks refill the cash bucket,
+// bonds form the middle bucket of the three-bucket strategy, and alternatives sit with stocks in its last bucket.
+export type AssetRole = "cash" | "stock" | "bond" | "alternative";
+
+// The Data tab series holding an asset's yearly returns.
+export type AssetSeries = "sp500" | "nasdaq100" | "intl" | "smallValue" | "reits" | "gold" | "bitcoin" | "tips" | "bonds";
+
+export interface AssetClass {
+  id: string; // key in holdings, return tables and run balances
+  label: string; // input label
+  short: string; // legends and compact labels
+  color: string;
+  role: AssetRole;
+  series?: AssetSeries; // cash earns the cash yield instead
+}
+
+/**
+ * Every asset a portfolio can hold, in the order they are stacked in the
+ * allocation slider and charts and sold by the default drawdown order.
+ */
+export const ASSET_CLASSES: AssetClass[] = [
+  { id: "cash", label: "Cash", short: "Cash", color: "#8884d8", role: "cash" },
+  { id: "spy", label: "SPY (S&P 500)", short: "SPY", color: "#82ca9d", role: "stock", series: "sp500" },
+  { id: "qqq", label: "QQQ (NASDAQ 100)", short: "QQQ", color: "#ff7f7f", role: "stock", series: "nasdaq100" },
+  { id: "intl", label: "International stocks (MSCI EAFE)", short: "Intl", color: "#4e79a7", role: "stock", series: "intl" },
+  { id: "smallValue", label: "Small-cap value (Russell 2000 Value)", short: "Small Value", color: "#9c755f", role: "stock", series: "smallValue" },
+  { id: "reits", label: "REITs (FTSE Nareit All Equity)", short: "REITs", color: "#b07aa1", role: "stock", series: "reits" },
+  { id: "gold", label: "Gold", short: "Gold", color: "#b8860b", role: "alternative", series: "gold" },
+  { id: "bitcoin", label: "Bitcoin (BTC)", short: "Bitcoin", color: "#f2a900", role: "alternative", series: "bitcoin" },
+  { id: "tips", label: "TIPS (Bloomberg U.S. TIPS)", short: "TIPS", color: "#76b7b2", role: "bond", series: "tips" },
+  { id: "bonds", label: "Bonds (10Y Treasury)", short: "Bonds", color: "#95a5a6", role: "bond", series: "bonds" },
+];
+
+const BY_ID = new Map(ASSET_CLASSES.map(a => [a.id, a]));
+
+// Custom assets are held like alternatives: never sold to refill cash, and kept with stocks in the last bucket.
+export const customAssetClass = (asset: CustomAsset): AssetClass =>
+  ({ id: asset.id, label: asset.name, short: asset.name, color: asset.color, role: "alternative" });
+
+// Registry or custom entry for an asset id; unknown ids are treated as an alternative with a neutral colour.
+export function assetClass(id: string, custom: CustomAsset[] = []): AssetClass {
+  const known = BY_ID.get(id);
+  if (known) return known;
+  const asset = custom.find(a => a.id === id);
+  return asset ? customAssetClass(asset) : { id, label: id, short: id, color: "#64748b", role: "alternative" };
+}
+
+export const assetRole = (id: string): AssetRole => assetClass(id).role;
+
+// Asset ids in registry order, with any the registry does not know kept at the end in their given order.
+export function sortAssets(ids: string[]): string[] {
+  const rank = (id: string) => {
+    const i = ASSET_CLASSES.findIndex(a => a.id === id);
+    return i === -1 ? ASSET_CLASSES.length : i;
+  };
+  return ids.map((id, i) => ({ id, i })).sort((a, b) => rank(a.id) - rank(b.id) || a.i - b.i).map(a => a.id);
+}
+
+// The assets in a set of holdings (or run balances, whose `total` is skipped), in registry order.
+export const assetsOf = (holdings: AssetHoldings): string[] => sortAssets(Object.keys(holdings).filter(k => k !== "total"));
+
+// Everything but cash, in registry order.
+export const investedAssets = (holdings: AssetHoldings): string[] => assetsOf(holdings).filter(id => assetRole(id) !== "cash");
+
+// Invested assets with a positive amount.
+export const heldAssets = (holdings: AssetHoldings): string[] => investedAssets(holdings).filter(id => holdings[id] > 0);
+
+export const holdingsTotal = (holdings: AssetHoldings): number => assetsOf(holdings).reduce((s, id) => s + holdings[id], 0);
+
+// Same assets, every amount zero.
+export const emptyHoldings = (holdings: AssetHoldings): AssetHoldings => Object.fromEntries(assetsOf(holdings).map(id => [id, 0]));
+
+// An asset's yearly returns on the Data tab, custom assets included; empty for cash and for series missing from `data`.
+export function assetReturns(data: Partial<MarketData>, id: string): { year: number; returnPct: number }[] {
+  const series = assetClass(id).series;
+  if (series) return data[series] ?? [];
+  return data.custom?.find(a => a.id === id)?.returns ?? [];
+}
@@ -1,23 +1,49 @@
 import { describe, expect, it } from 'vitest';
-import { bitcoinReturnMultiplier } from './bitcoin';
+import { backfillBitcoinReturn, DEFAULT_BITCOIN_BACKFILL, drawBitcoinBackfill } from './bitcoin';
 import { BITCOIN_TOTAL_RETURNS } from '../data/returns';
 
-const map = new Map(BITCOIN_TOTAL_RETURNS.map(d => [d.year, 1 + d.returnPct / 100]));
+const record = new Map(BITCOIN_TOTAL_RETURNS.map(d => [d.year, 1 + d.returnPct / 100]));
 
-describe('bitcoinReturnMultiplier', () => {
-  it('wraps years before data range', () => {
-    const maxYear = Math.max(...BITCOIN_TOTAL_RETURNS.map(d => d.year));
-    expect(bitcoinReturnMultiplier(2010)).toBeCloseTo(map.get(maxYear)!);
+describe('backfillBitcoinReturn', () => {
+  it('earns the cash return by default', () => {
+    expect(backfillBitcoinReturn(1990, record, 1.05)).toBe(1.05);
+    expect(backfillBitcoinReturn(1990, record, 1.05, { ...DEFAULT_BITCOIN_BACKFILL, method: 'exclude' })).toBe(1.05);
   });
 
-  it('uses actual returns for 2011 and later', () => {
-    expect(bitcoinReturnMultiplier(2011)).toBeCloseTo(map.get(2011)!);
-    expect(bitcoinReturnMultiplier(2015)).toBeCloseTo(map.get(2015)!);
+  it('draws the same expected-return year every time, centred on the expected return', () => {
+    const options = { ...DEFAULT_BITCOIN_BACKFILL, method: 'expected' as const, expectedPct: 8, volatilityPct: 60 };
+    expect(backfillBitcoinReturn(1990, record, 1, options)).toBe(backfillBitcoinReturn(1990, record, 1, options));
+    const draws = Array.from({ length: 2000 }, (_, i) => backfillBitcoinReturn(i, record, 1, options));
+    const mean = draws.reduce((s, m) => s + m, 0) / draws.length;
+    expect(mean).toBeGreaterThan(1.03);
+    expect(mean).toBeLessThan(1.13);
+    expect(Math.min(...draws)).toBeGreaterThan(0);
   });
 
-  it('wraps years after data range', () => {
-    const minYear = Math.min(...BITCOIN_TOTAL_RETURNS.map(d => d.year));
-    const maxYear = Math.max(...BITCOIN_TOTAL_RETURNS.map(d => d.year));
-    expect(bitcoinReturnMultiplier(maxYear + 1)).toBeCloseTo(map.get(minYear)!);
+  it('fades the average Bitcoin return toward cash further back from the record', () => {
+    const options = { ...DEFAULT_BITCOIN_BACKFILL, method: 'haircut' as const, haircutPct: 50 };
+    const near = backfillBitcoinReturn(2010, record, 1.02, options);
+    const far = backfillBitcoinReturn(1990, record, 1.02, options);
+    expect(near).toBeGreaterThan(far);
+    expect(far).toBeCloseTo(1.02, 4);
+    const noHaircut = backfillBitcoinReturn(1990, record, 1.02, { ...options, haircutPct: 0 });
+    const logs = [...record.values()].map(Math.log);
+    expect(noHaircut).toBeCloseTo(Math.exp(logs.reduce((s, l) => s + l, 0) / logs.length));
+  });
+});
+
+describe('drawBitcoinBackfill', () => {
+  const options = { ...DEFAULT_BITCOIN_BACKFILL, method: 'expected' as const, expectedPct: 8, volatilityPct: 60 };
+  const samples = [[1990, 2015], [1990, 2015]];
+
+  it("draws each run's own year before the record, repeating for the same seed", () => {
+    const draws = drawBitcoinBackfill(samples, [2015], options, 7)!;
+    expect(draws.map(run => run[1])).toEqual([null, null]);
+    expect(draws[0][0]).not.toBe(draws[1][0]);
+    expect(drawBitcoinBackfill(samples, [2015], options, 7)).toEqual(draws);
+  });
+
+  it('draws nothing for the other methods', () => {
+    expect(drawBitcoinBackfill(samples, [2015], DEFAULT_BITCOIN_BACKFILL, 7)).toBeUndefined();
   });
 });
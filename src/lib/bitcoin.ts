@@ -1,27 +1,77 @@
-import { BITCOIN_TOTAL_RETURNS } from '../data/returns';
+import { createRng, rngFromSeed, type Rng } from './random';
+import { normal } from './returnModel';
 
-// Convert a percent return to a multiplier
-const pctToMult = (pct: number) => 1 + pct / 100;
+// How Bitcoin's return is filled in for years outside its price record, which starts in 2011.
+export type BitcoinBackfillMethod = 'cash' | 'expected' | 'haircut' | 'exclude';
 
-const btcReturnMap = new Map(BITCOIN_TOTAL_RETURNS.map(d => [d.year, d.returnPct]));
-const btcYears = Array.from(btcReturnMap.keys());
-const minYear = Math.min(...btcYears);
-const maxYear = Math.max(...btcYears);
-const span = maxYear - minYear + 1;
+export interface BitcoinBackfillOptions {
+  method: BitcoinBackfillMethod;
+  expectedPct: number; // "expected": average annual return
+  volatilityPct: number; // "expected": annual volatility
+  haircutPct: number; // "haircut": share of Bitcoin's excess return over cash lost for each year away from its record
+}
+
+export const DEFAULT_BITCOIN_BACKFILL: BitcoinBackfillOptions = { method: 'cash', expectedPct: 8, volatilityPct: 60, haircutPct: 50 };
+
+const BACKFILL_SEED = 0x2011;
 
 /**
- * Returns the Bitcoin total return multiplier for the given year.
- * Years outside the available data range wrap around so that early
- * start years can still be simulated.
+ * Fills in the Bitcoin return multiplier for a year outside its record, given
+ * the record (multipliers by year) and that year's cash multiplier.
+ * - cash: Bitcoin earns what cash does.
+ * - expected: a lognormal draw with the expected return and volatility,
+ *   seeded by the year, so the Data tab shows the same made-up year every
+ *   session. Simulations replace it with each run's own draws (see
+ *   drawBitcoinBackfill).
+ * - haircut: Bitcoin's geometric average over its record, with the excess
+ *   over cash cut by `haircutPct` for each year away from the record.
+ * - exclude: portfolio runs leave these years out (see recordedYears), so
+ *   they are only priced, as cash, for completeness.
  */
-export function bitcoinReturnMultiplier(year: number): number {
-  let lookup = year;
-  if (lookup < minYear || lookup > maxYear) {
-    lookup = ((lookup - minYear) % span + span) % span + minYear;
+export function backfillBitcoinReturn(
+  year: number,
+  record: Map<number, number>,
+  cashMult: number,
+  options: BitcoinBackfillOptions = DEFAULT_BITCOIN_BACKFILL,
+): number {
+  if (options.method === 'expected') return expectedDraw(options, createRng(BACKFILL_SEED + year));
+  if (options.method === 'haircut' && record.size > 0) {
+    const years = [...record.keys()];
+    const first = Math.min(...years);
+    const last = Math.max(...years);
+    const distance = year < first ? first - year : Math.max(0, year - last);
+    const logs = [...record.values()].map(m => Math.log(Math.max(1e-9, m)));
+    const geometric = logs.reduce((s, l) => s + l, 0) / logs.length;
+    const keep = Math.max(0, 1 - options.haircutPct / 100) ** distance;
+    return Math.exp(Math.log(cashMult) + (geometric - Math.log(cashMult)) * keep);
   }
-  const pct = btcReturnMap.get(lookup);
-  if (pct === undefined) {
-    throw new Error(`No bitcoin return data for year ${lookup}`);
-  }
-  return pctToMult(pct);
+  return cashMult;
+}
+
+// Lognormal multiplier with the "expected" method's average return and volatility.
+function expectedDraw(options: BitcoinBackfillOptions, rng: Rng): number {
+  const m = options.expectedPct / 100;
+  const s = Math.max(0, options.volatilityPct / 100);
+  const logSigma = Math.sqrt(Math.log(1 + (s / Math.max(1e-9, 1 + m)) ** 2));
+  const logMu = Math.log(Math.max(1e-9, 1 + m)) - logSigma ** 2 / 2;
+  return Math.exp(logMu + logSigma * normal(rng));
+}
+
+/**
+ * Bitcoin multipliers for each run's years outside its record under the
+ * "expected" method, drawn in turn from the seeded stream, so runs that
+ * revisit a year each make up their own return and the same seed repeats
+ * them. Null where Bitcoin has data; undefined for the other methods, which
+ * need no draws.
+ */
+export function drawBitcoinBackfill(
+  yearSamples: number[][],
+  recordYears: number[],
+  options: BitcoinBackfillOptions,
+  seed: number | '',
+): (number | null)[][] | undefined {
+  if (options.method !== 'expected') return undefined;
+  const recorded = new Set(recordYears);
+  const rng = rngFromSeed(seed);
+  return yearSamples.map(sample => sample.map(year => (recorded.has(year) ? null : expectedDraw(options, rng))));
 }
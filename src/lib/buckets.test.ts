@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createEquityTracker,
+  refillCashBucket,
+  cashCoverageYears,
+  createBucketTracker,
+  drawFromBuckets,
+  cascadeBuckets,
+  DEFAULT_THREE_BUCKET,
+} from './buckets';
+import { simulatePortfolio } from './simulation';
+
+describe('refillCashBucket', () => {
+  const holdings = { cash: 10000, spy: 60000, qqq: 30000, bitcoin: 0, bonds: 0 };
+
+  it('never refills under the "never" policy', () => {
+    const result = refillCashBucket(holdings, 20000, { spy: 1.2, qqq: 1.2 }, createEquityTracker(), { policy: 'never', years: 2 });
+    expect(result).toEqual(holdings);
+  });
+
+  it('refills pro rata from funds that finished the year up', () => {
+    const result = refillCashBucket(holdings, 20000, { spy: 1.1, qqq: 1.1 }, createEquityTracker(), { policy: 'afterGains', years: 2 });
+    // Target is 40_000, so 30_000 is sold in a 2:1 SPY/QQQ split
+    expect(result.cash).toBeCloseTo(40000);
+    expect(result.spy).toBeCloseTo(40000);
+    expect(result.qqq).toBeCloseTo(20000);
+  });
+
+  it('only sells the fund that gained', () => {
+    const result = refillCashBucket(holdings, 20000, { spy: 1.1, qqq: 0.9 }, createEquityTracker(), { policy: 'afterGains', years: 2 });
+    expect(result.cash).toBeCloseTo(40000);
+    expect(result.spy).toBeCloseTo(30000);
+    expect(result.qqq).toBeCloseTo(30000);
+  });
+
+  it('waits for a new high under the "aboveHigh" policy', () => {
+    const tracker = createEquityTracker();
+    const options = { policy: 'aboveHigh' as const, years: 2 };
+    // Down 20%, then up 10%: still below the starting high
+    refillCashBucket(holdings, 20000, { spy: 0.8, qqq: 0.8 }, tracker, options);
+    const recovering = refillCashBucket(holdings, 20000, { spy: 1.1, qqq: 1.1 }, tracker, options);
+    expect(recovering).toEqual(holdings);
+    // Up another 20%: 0.8 * 1.1 * 1.2 = 1.056, a new high
+    const recovered = refillCashBucket(holdings, 20000, { spy: 1.2, qqq: 1.2 }, tracker, options);
+    expect(recovered.cash).toBeCloseTo(40000);
+  });
+});
+
+describe('cashCoverageYears', () => {
+  it('divides cash by the withdrawal it has to fund next', () => {
+    const run = {
+      balances: [{ cash: 80000 }, { cash: 40000 }, { cash: 0 }],
+      withdrawals: [40000, 20000],
+    };
+    expect(cashCoverageYears(run)).toEqual([2, 2, 0]);
+  });
+});
+
+describe('engine cash refill', () => {
+  it('tops cash back up after an up year and holds off after a down year', () => {
+    const spyReturns = [1.1, 0.9];
+    const flat = [1, 1];
+    const result = simulatePortfolio(
+      { spy: spyReturns, qqq: flat, bitcoin: flat, bonds: flat },
+      { cash: 80000, spy: 920000, qqq: 0, bitcoin: 0, bonds: 0 },
+      2,
+      { strategy: 'fourPercentRule', initialWithdrawalAmount: 40000, inflationAdjust: false, inflationRate: 0 },
+      { cashRefill: { policy: 'afterGains', years: 2 } }
+    );
+
+    // Year 0: cash 40_000 after spending, SPY 920_000 * 1.1 = 1_012_000, refill 40_000
+    expect(result.balances[1].cash).toBeCloseTo(80000);
+    expect(result.balances[1].spy).toBeCloseTo(972000);
+    // Year 1: SPY falls, so the cash bucket is left depleted
+    expect(result.balances[2].cash).toBeCloseTo(40000);
+    expect(result.balances[2].spy).toBeCloseTo(874800);
+  });
+});
+
+describe('three-bucket strategy', () => {
+  const options = { ...DEFAULT_THREE_BUCKET, enabled: true };
+
+  it('draws from cash, then bonds, then equities pro rata', () => {
+    const holdings = { cash: 10000, spy: 60000, qqq: 20000, bitcoin: 0, bonds: 20000 };
+    const result = drawFromBuckets(holdings, 38000);
+    expect(result.cash).toBe(0);
+    expect(result.bonds).toBe(0);
+    expect(result.spy).toBeCloseTo(54000);
+    expect(result.qqq).toBeCloseTo(18000);
+  });
+
+  it('cascades bonds into cash and equities into bonds after a good year', () => {
+    // Sizes are 2 and 8 years of 10_000 spending
+    const holdings = { cash: 0, spy: 500000, qqq: 0, bitcoin: 0, bonds: 50000 };
+    const returns = { spy: 1.1, qqq: 1, bitcoin: 1, bonds: 1.02 };
+    const result = cascadeBuckets(holdings, 10000, returns, createBucketTracker(), options);
+    expect(result.cash).toBeCloseTo(20000);
+    expect(result.bonds).toBeCloseTo(80000);
+    expect(result.spy).toBeCloseTo(450000);
+  });
+
+  it('leaves equities alone after a down year under the default rule', () => {
+    const holdings = { cash: 0, spy: 500000, qqq: 0, bitcoin: 0, bonds: 50000 };
+    const returns = { spy: 0.8, qqq: 1, bitcoin: 1, bonds: 1.02 };
+    const result = cascadeBuckets(holdings, 10000, returns, createBucketTracker(), options);
+    expect(result.cash).toBeCloseTo(20000);
+    expect(result.bonds).toBeCloseTo(30000);
+    expect(result.spy).toBe(500000);
+  });
+
+  it('replaces the cash-first order inside the engines', () => {
+    const flat = [1, 1];
+    const result = simulatePortfolio(
+      { spy: [0.8, 0.8], qqq: flat, bitcoin: flat, bonds: flat },
+      { cash: 0, spy: 800000, qqq: 0, bitcoin: 0, bonds: 200000 },
+      2,
+      { strategy: 'fourPercentRule', initialWithdrawalAmount: 40000, inflationAdjust: false, inflationRate: 0 },
+      { threeBucket: options }
+    );
+
+    // Year 0 spending comes from bonds, not the falling SPY bucket
+    expect(result.balances[1].spy).toBeCloseTo(640000);
+    // Bonds refill cash to 80_000: 200_000 - 40_000 - 80_000
+    expect(result.balances[1].cash).toBeCloseTo(80000);
+    expect(result.balances[1].bonds).toBeCloseTo(80000);
+  });
+});
@@ -0,0 +1,199 @@
+import type { AssetHoldings } from "./simulation";
+import { assetRole, investedAssets } from "./assets";
+
+// When the cash bucket is topped back up from stocks.
+export type CashRefillPolicy =
+  | "never"
+  | "afterGains" // the stock finished the year up
+  | "aboveHigh"; // the stock closed the year above its prior high
+
+export interface CashRefillOptions {
+  policy: CashRefillPolicy;
+  years: number; // target cash bucket size, in years of spending
+}
+
+export const DEFAULT_CASH_REFILL: CashRefillOptions = { policy: "never", years: 2 };
+
+// Cumulative index level (starting at 1) and running high of each stock, keyed by asset id.
+export type EquityTracker = Record<string, { level: number; high: number }>;
+
+export function createEquityTracker(): EquityTracker {
+  return {};
+}
+
+/**
+ * Advances the equity tracker by one year of returns and reports which
+ * stocks are eligible to fund a cash refill under the given policy.
+ */
+function refillSources(tracker: EquityTracker, yearReturns: Record<string, number>, policy: CashRefillPolicy): string[] {
+  const stocks = Object.keys(yearReturns).filter(id => assetRole(id) === "stock");
+  return stocks.filter(id => {
+    const index = (tracker[id] ??= { level: 1, high: 1 });
+    index.level *= yearReturns[id];
+    const aboveHigh = index.level > index.high;
+    index.high = Math.max(index.high, index.level);
+    if (policy === "afterGains") return yearReturns[id] > 1;
+    if (policy === "aboveHigh") return aboveHigh;
+    return false;
+  });
+}
+
+/**
+ * Tops the cash bucket back up to `years` of spending by selling stocks
+ * (SPY, QQQ, international, small-cap value, REITs) pro rata, but only from
+ * the funds the refill policy allows this year. Call once per simulated
+ * year, after that year's returns are applied.
+ */
+export function refillCashBucket(
+  holdings: AssetHoldings,
+  spending: number,
+  yearReturns: Record<string, number>,
+  tracker: EquityTracker,
+  options: CashRefillOptions = DEFAULT_CASH_REFILL,
+): AssetHoldings {
+  const sources = refillSources(tracker, yearReturns, options.policy).filter(id => (holdings[id] ?? 0) > 0);
+  const shortfall = options.years * spending - holdings.cash;
+  const available = sources.reduce((s, id) => s + holdings[id], 0);
+  if (shortfall <= 0 || available <= 0) return holdings;
+
+  const amount = Math.min(shortfall, available);
+  const next: AssetHoldings = { ...holdings, cash: holdings.cash + amount };
+  for (const id of sources) next[id] -= amount * (holdings[id] / available);
+  return next;
+}
+
+/**
+ * Years of spending held in the cash bucket at each year end, measured
+ * against the withdrawal that cash has to fund next.
+ */
+export function cashCoverageYears(run: { balances: AssetHoldings[]; withdrawals: number[] }): number[] {
+  const last = run.withdrawals.length - 1;
+  return run.balances.map((b, t) => {
+    const spending = run.withdrawals[Math.min(t, last)] ?? 0;
+    return spending > 0 ? b.cash / spending : 0;
+  });
+}
+
+// When a bucket is allowed to refill the bucket below it in the three-bucket strategy.
+export type BucketCascadeRule =
+  | "always"
+  | "afterGains" // the source bucket finished the year up
+  | "aboveHigh"; // the source bucket closed the year above its prior high
+
+/**
+ * Time-segmented buckets: bucket 1 holds cash for the next `nearYears` of
+ * spending, bucket 2 holds bonds (Treasuries, TIPS) for the `midYears` after
+ * that and bucket 3 holds stocks and alternatives (gold, Bitcoin) for
+ * everything beyond.
+ */
+export interface ThreeBucketOptions {
+  enabled: boolean;
+  nearYears: number; // bucket 1 (cash) size, in years of spending
+  midYears: number; // bucket 2 (bonds) size, in years of spending
+  nearCascade: BucketCascadeRule; // when bucket 2 refills bucket 1
+  midCascade: BucketCascadeRule; // when bucket 3 refills bucket 2
+}
+
+export const DEFAULT_THREE_BUCKET: ThreeBucketOptions = {
+  enabled: false,
+  nearYears: 2,
+  midYears: 8,
+  nearCascade: "always",
+  midCascade: "afterGains",
+};
+
+// Cumulative bond and equity bucket levels (starting at 1) and their running highs.
+export type BucketTracker = {
+  bondLevel: number;
+  bondHigh: number;
+  equityLevel: number;
+  equityHigh: number;
+};
+
+export function createBucketTracker(): BucketTracker {
+  return { bondLevel: 1, bondHigh: 1, equityLevel: 1, equityHigh: 1 };
+}
+
+const bondAssets = (holdings: AssetHoldings) => investedAssets(holdings).filter(id => assetRole(id) === "bond");
+const equityAssets = (holdings: AssetHoldings) => investedAssets(holdings).filter(id => assetRole(id) !== "bond");
+
+/**
+ * Takes a withdrawal from bucket 1, then bucket 2, then bucket 3. Each bucket
+ * is sold pro rata so it keeps its mix, e.g. bucket 3 its SPY/QQQ/Bitcoin split.
+ */
+export function drawFromBuckets(holdings: AssetHoldings, amount: number): AssetHoldings {
+  const fromCash = Math.min(amount, holdings.cash);
+  const bonds = sellProRata(holdings, bondAssets(holdings), amount - fromCash);
+  return sellProRata({ ...bonds.holdings, cash: holdings.cash - fromCash }, equityAssets(holdings), amount - fromCash - bonds.sold).holdings;
+}
+
+function sellProRata(holdings: AssetHoldings, assets: string[], amount: number): { holdings: AssetHoldings; sold: number } {
+  const value = assets.reduce((s, id) => s + holdings[id], 0);
+  const sold = Math.min(Math.max(amount, 0), value);
+  if (sold <= 0) return { holdings, sold: 0 };
+  const keep = 1 - sold / value;
+  const next = { ...holdings };
+  for (const id of assets) next[id] = holdings[id] * keep;
+  return { holdings: next, sold };
+}
+
+// Adds to a bucket pro rata, or to `fallback` while the bucket is empty.
+function buyProRata(holdings: AssetHoldings, assets: string[], amount: number, fallback: string): AssetHoldings {
+  const value = assets.reduce((s, id) => s + holdings[id], 0);
+  if (value <= 0) return { ...holdings, [fallback]: (holdings[fallback] ?? 0) + amount };
+  const next = { ...holdings };
+  for (const id of assets) next[id] = holdings[id] + amount * (holdings[id] / value);
+  return next;
+}
+
+// This year's return of a bucket, weighting each asset by what it held before growth; an empty bucket averages its assets.
+function bucketReturn(holdings: AssetHoldings, assets: string[], returns: Record<string, number>): number {
+  const before = assets.map(id => ({ after: holdings[id], before: (returns[id] ?? 1) > 0 ? holdings[id] / (returns[id] ?? 1) : 0 }));
+  const valueBefore = before.reduce((s, a) => s + a.before, 0);
+  if (valueBefore > 0) return before.reduce((s, a) => s + a.after, 0) / valueBefore;
+  return assets.length > 0 ? assets.reduce((s, id) => s + (returns[id] ?? 1), 0) / assets.length : 1;
+}
+
+function cascadeAllowed(rule: BucketCascadeRule, yearReturn: number, aboveHigh: boolean): boolean {
+  if (rule === "afterGains") return yearReturn > 1;
+  if (rule === "aboveHigh") return aboveHigh;
+  return true;
+}
+
+/**
+ * End-of-year cascade for the three-bucket strategy: bucket 2 tops bucket 1
+ * back up to `nearYears` of spending, then bucket 3 tops bucket 2 back up to
+ * `midYears`, each only when its cascade rule allows. Call once per simulated
+ * year, after that year's returns are applied.
+ */
+export function cascadeBuckets(
+  holdings: AssetHoldings,
+  spending: number,
+  returns: Record<string, number>,
+  tracker: BucketTracker,
+  options: ThreeBucketOptions = DEFAULT_THREE_BUCKET,
+): AssetHoldings {
+  const bonds = bondAssets(holdings);
+  const equities = equityAssets(holdings);
+  const bondReturn = bucketReturn(holdings, bonds, returns);
+  const equityReturn = bucketReturn(holdings, equities, returns);
+
+  tracker.bondLevel *= bondReturn;
+  tracker.equityLevel *= equityReturn;
+  const bondAboveHigh = tracker.bondLevel > tracker.bondHigh;
+  const equityAboveHigh = tracker.equityLevel > tracker.equityHigh;
+  tracker.bondHigh = Math.max(tracker.bondHigh, tracker.bondLevel);
+  tracker.equityHigh = Math.max(tracker.equityHigh, tracker.equityLevel);
+
+  let next = holdings;
+  if (cascadeAllowed(options.nearCascade, bondReturn, bondAboveHigh)) {
+    const { holdings: sold, sold: amount } = sellProRata(next, bonds, options.nearYears * spending - next.cash);
+    next = { ...sold, cash: sold.cash + amount };
+  }
+  if (cascadeAllowed(options.midCascade, equityReturn, equityAboveHigh)) {
+    const bucket2 = bonds.reduce((s, id) => s + next[id], 0);
+    const { holdings: sold, sold: amount } = sellProRata(next, equities, options.midYears * spending - bucket2);
+    next = buyProRata(sold, bonds, amount, "bonds");
+  }
+  return next;
+}
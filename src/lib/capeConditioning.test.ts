@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { capeStartYears, similarCapeYears } from './capeConditioning';
+
+const years = [2000, 2001, 2002, 2003, 2004, 2005, 2006, 2007];
+const cape = { 2000: 40, 2001: 35, 2002: 30, 2003: 25, 2004: 20, 2005: 15, 2006: 10, 2007: 33 };
+
+describe('similarCapeYears', () => {
+  it('keeps the start years within the band around the current CAPE', () => {
+    expect(similarCapeYears([...years, 2008, 2009], { ...cape, 2008: 31, 2009: 37 }, 34)).toEqual([2000, 2001, 2002, 2007, 2008, 2009]);
+  });
+
+  it('finds no similar years when the band is thin rather than reaching for cheaper ones', () => {
+    expect(similarCapeYears(years, cape, 60)).toEqual([]);
+    // Only 2000, 2001 and 2007 are within 20% of 37: too few to condition on
+    expect(similarCapeYears(years, cape, 37)).toEqual([]);
+  });
+
+  it('skips years without CAPE data and uses every year without a current CAPE', () => {
+    expect(similarCapeYears([1990, ...years], { ...cape, 1990: 60 }, 30)).not.toContain(1990);
+    expect(similarCapeYears(years, cape, null)).toEqual(years);
+    expect(similarCapeYears(years, {}, 30)).toEqual(years);
+  });
+});
+
+describe('capeStartYears', () => {
+  const dear = { ...cape, 2003: 32, 2004: 36, 2005: 33 }; // 2000–2005 and 2007 are within 20% of 34
+
+  it('only picks start years followed by a full horizon of history', () => {
+    // 2007 is similar but has no four years after it
+    expect(similarCapeYears(years, dear, 34)).toContain(2007);
+    expect(capeStartYears(years, dear, 34, 4)).toEqual([2000, 2001, 2002, 2003, 2004]);
+  });
+
+  it('measures the horizon against the real years', () => {
+    expect(capeStartYears(years, dear, 34, 2, [2001, 2002, 2003, 2004, 2005, 2006, 2007])).toEqual([2001, 2002, 2003, 2004, 2005]);
+  });
+
+  it('is empty when too few similar start years have a full horizon', () => {
+    expect(capeStartYears(years, dear, 34, 5)).toEqual([]);
+    expect(capeStartYears(years, dear, 34, 9)).toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+import { startYearPool } from "./simulationJob";
+
+export const CAPE_SIMILARITY = 0.2; // start years within ±20% of the current CAPE count as similar
+export const MIN_SIMILAR_YEARS = 5; // fewer similar start years than this are too few to condition on
+
+/**
+ * Start years whose CAPE is within the band around `currentCape`, for the
+ * CAPE-conditioned mode. Empty when fewer than MIN_SIMILAR_YEARS fall in it
+ * (today's valuations are near the historical extremes): years further away
+ * would describe cheaper or dearer markets than today's. Years without CAPE
+ * data are never chosen; with no usable data at all every year is returned
+ * so the mode degrades to random start years.
+ */
+export function similarCapeYears(years: number[], capeData: { [year: number]: number }, currentCape: number | null | undefined): number[] {
+  const rated = years.filter(y => capeData[y] > 0);
+  if (!currentCape || currentCape <= 0 || rated.length === 0) return years;
+  const inBand = rated.filter(y => Math.abs(Math.log(capeData[y] / currentCape)) <= Math.log(1 + CAPE_SIMILARITY));
+  return inBand.length >= MIN_SIMILAR_YEARS ? inBand : [];
+}
+
+/**
+ * Start years for the CAPE-conditioned mode: the similar ones among the years
+ * followed by a full horizon of `realYears`, so no run wraps past the end of
+ * the data. Empty when none qualify; callers report that rather than running nothing.
+ */
+export function capeStartYears(
+  years: number[],
+  capeData: { [year: number]: number },
+  currentCape: number | null | undefined,
+  horizon: number,
+  realYears: number[] = years,
+): number[] {
+  return similarCapeYears(startYearPool(years, horizon, true, realYears), capeData, currentCape);
+}
+
+export const noComparableStartYears = (horizon: number) =>
+  `No comparable start years: fewer than ${MIN_SIMILAR_YEARS} years with a CAPE within ±${CAPE_SIMILARITY * 100}% of the current one are followed by ${horizon} years of history. Shorten the horizon, change the current CAPE or choose another mode.`;
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { cashFlowFor, eventYears, newCashFlowEvent, type CashFlowEvent } from './cashFlows';
+import { simulatePortfolio } from './simulation';
+
+const event = (patch: Partial<CashFlowEvent>): CashFlowEvent => ({ ...newCashFlowEvent([]), ...patch });
+
+describe('cashFlowFor', () => {
+  it('nets expenses against windfalls in the years they recur', () => {
+    const events = [
+      event({ amount: 30_000, year: 8, count: 4, real: true }),
+      event({ id: 'event-2', kind: 'windfall', amount: 100_000, year: 10, real: false }),
+    ];
+    expect(eventYears(events[0])).toEqual([8, 9, 10, 11]);
+    expect(cashFlowFor(events, 7, 1.2)).toBe(0);
+    expect(cashFlowFor(events, 8, 1.2)).toBeCloseTo(36_000);
+    expect(cashFlowFor(events, 10, 1.2)).toBeCloseTo(36_000 - 100_000);
+    expect(cashFlowFor(events, 12, 1.2)).toBe(0);
+  });
+});
+
+describe('simulatePortfolio with cash-flow events', () => {
+  const run = (cashFlows: CashFlowEvent[]) => simulatePortfolio(
+    { spy: [1, 1, 1] },
+    { cash: 0, spy: 800_000, bonds: 200_000 },
+    3,
+    { strategy: 'fourPercentRule', initialWithdrawalAmount: 40_000, inflationAdjust: false, inflationRate: 0 },
+    { cashFlows },
+  );
+
+  it('withdraws expenses on top of the regular withdrawal', () => {
+    const result = run([event({ amount: 25_000, year: 1 })]);
+    expect(result.withdrawals).toEqual([40_000, 65_000, 40_000]);
+    expect(result.cashFlows).toEqual([0, 25_000, 0]);
+  });
+
+  it('invests what a windfall leaves after the withdrawal in the starting allocation', () => {
+    const result = run([event({ kind: 'windfall', amount: 140_000, year: 0 })]);
+    expect(result.withdrawals[0]).toBe(0);
+    expect(result.balances[1]).toMatchObject({ total: 1_100_000, spy: 880_000, bonds: 220_000 });
+  });
+});
@@ -0,0 +1,38 @@
+// One-off or recurring expenses and windfalls on top of the regular withdrawal, such as a new roof or an inheritance.
+export type CashFlowKind = "expense" | "windfall";
+
+export interface CashFlowEvent {
+  id: string;
+  name: string;
+  kind: CashFlowKind;
+  amount: number; // each year it happens
+  year: number; // years after retirement begins; 0 is the first year
+  count: number; // years in a row it happens, 1 for a one-off
+  real: boolean; // in dollars of the first retirement year, grown with inflation; otherwise dollars of the year it happens
+}
+
+export function newCashFlowEvent(existing: CashFlowEvent[]): CashFlowEvent {
+  const taken = new Set(existing.map(e => e.id));
+  let n = 1;
+  while (taken.has(`event-${n}`)) n++;
+  return { id: `event-${n}`, name: "New expense", kind: "expense", amount: 20_000, year: 5, count: 1, real: true };
+}
+
+// Simulated years an event falls in.
+export const eventYears = (event: CashFlowEvent): number[] =>
+  Array.from({ length: Math.max(1, Math.round(event.count)) }, (_, i) => event.year + i);
+
+/**
+ * Net cash the events need from the portfolio in year `y`: expenses are
+ * positive, windfalls negative. `priceIndex` is inflation since retirement
+ * began, which real amounts grow with.
+ */
+export function cashFlowFor(events: CashFlowEvent[], y: number, priceIndex: number): number {
+  let net = 0;
+  for (const event of events) {
+    if (y < event.year || y >= event.year + Math.max(1, Math.round(event.count))) continue;
+    const amount = event.real ? event.amount * priceIndex : event.amount;
+    net += event.kind === "expense" ? amount : -amount;
+  }
+  return net;
+}
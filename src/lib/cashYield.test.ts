@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { cashReturnMultiplier } from './cashYield';
+import { simulatePortfolio } from './simulation';
+
+describe('cashReturnMultiplier', () => {
+  const tbills = new Map([[2023, 1.051]]);
+
+  it('uses the T-bill return for years with data', () => {
+    expect(cashReturnMultiplier(2023, tbills, { source: 'tbills', fixedPct: 2 })).toBeCloseTo(1.051);
+  });
+
+  it('falls back to the fixed yield for missing years', () => {
+    expect(cashReturnMultiplier(1900, tbills, { source: 'tbills', fixedPct: 2 })).toBeCloseTo(1.02);
+  });
+
+  it('ignores the series when a fixed yield is selected', () => {
+    expect(cashReturnMultiplier(2023, tbills, { source: 'fixed', fixedPct: 3 })).toBeCloseTo(1.03);
+  });
+});
+
+describe('engine cash growth', () => {
+  it('grows the cash bucket by the cash return each year', () => {
+    const flat = [1, 1];
+    const result = simulatePortfolio(
+      { spy: flat, qqq: flat, bitcoin: flat, bonds: flat, cash: [1.05, 1.05] },
+      { cash: 100000, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 },
+      2,
+      { strategy: 'fourPercentRule', initialWithdrawalAmount: 10000, inflationAdjust: false, inflationRate: 0 }
+    );
+
+    // (100_000 - 10_000) * 1.05 = 94_500
+    expect(result.balances[1].cash).toBeCloseTo(94500);
+    // (94_500 - 10_000) * 1.05 = 88_725
+    expect(result.balances[2].cash).toBeCloseTo(88725);
+  });
+});
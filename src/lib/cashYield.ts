@@ -0,0 +1,25 @@
+// Where the cash bucket's yearly return comes from.
+export type CashYieldSource = "tbills" | "fixed";
+
+export interface CashYieldOptions {
+  source: CashYieldSource;
+  fixedPct: number; // annual yield used for "fixed", and for years with no T-bill data
+}
+
+export const DEFAULT_CASH_YIELD: CashYieldOptions = { source: "tbills", fixedPct: 2 };
+
+/**
+ * Returns the cash return multiplier for the given year: the T-bill series
+ * when selected and available for that year, otherwise the fixed yield.
+ */
+export function cashReturnMultiplier(
+  year: number,
+  tbillReturns: Map<number, number>,
+  options: CashYieldOptions = DEFAULT_CASH_YIELD,
+): number {
+  if (options.source === "tbills") {
+    const mult = tbillReturns.get(year);
+    if (mult !== undefined) return mult;
+  }
+  return 1 + options.fixedPct / 100;
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { completeStartYears, portfolioCohortJob, portfolioCohortOutcomes, runIndexCohorts } from './cohorts';
+import { runIndexSimulation } from './indexSimulation';
+import { runSimulationJob, type SimulationJob } from './simulationJob';
+import { DEFAULT_WITHDRAWAL_RULE_PARAMS } from './withdrawals';
+import { SP500_TOTAL_RETURNS } from '../data/returns';
+import { INFLATION_RATES } from '../data/inflation';
+
+describe('completeStartYears', () => {
+  it('keeps only start years with a full horizon of history', () => {
+    const years = Array.from({ length: 80 }, (_, i) => 1946 + i);
+    const starts = completeStartYears(years, 30);
+    expect(starts[0]).toBe(1946);
+    expect(starts[starts.length - 1]).toBe(1996);
+    expect(starts).toHaveLength(51);
+  });
+
+  it('skips start years whose window crosses a gap', () => {
+    expect(completeStartYears([2000, 2001, 2003, 2004], 2)).toEqual([2000, 2003]);
+  });
+});
+
+describe('runIndexCohorts', () => {
+  const settings = { startBalance: 1000000, horizon: 30, withdrawRate: 4, inflationAdjust: true, inflationRate: 0.02, useHistoricalInflation: true };
+
+  it('matches the historical sequence run for each start year', () => {
+    const cohorts = runIndexCohorts(SP500_TOTAL_RETURNS, INFLATION_RATES, settings);
+    const cohort1966 = cohorts.find(c => c.startYear === 1966)!;
+    const [run] = runIndexSimulation(SP500_TOTAL_RETURNS, INFLATION_RATES, { ...settings, mode: 'actual-seq', startYear: 1966, numRuns: 1, seed: '' });
+
+    expect(cohort1966.endingBalance).toBeCloseTo(run.balances[30]);
+    expect(cohort1966.failedYear).toBe(run.failedYear);
+    expect(cohort1966.minBalance).toBe(Math.min(...run.balances));
+  });
+});
+
+describe('portfolio cohorts', () => {
+  const years = [2000, 2001, 2002, 2003];
+  const job: SimulationJob = {
+    yearSamples: [[2003, 2003]],
+    inflationYearSamples: [[2000, 2000]],
+    returnsByYear: new Map(years.map((y, i) => [y, { spy: 1 + i / 10, qqq: 1, bitcoin: 1, bonds: 1, cash: 1 }])),
+    inflationByYear: new Map(years.map(y => [y, 0])),
+    initial: { cash: 0, spy: 1000000, qqq: 0, bitcoin: 0, bonds: 0 },
+    horizon: 2,
+    withdrawal: {
+      strategy: 'fourPercentRule',
+      params: DEFAULT_WITHDRAWAL_RULE_PARAMS,
+      settings: { startBalance: 1000000, initialWithdrawalAmount: 40000, inflationAdjust: false, inflationRate: 0, capeData: {} },
+    },
+    options: {},
+  };
+
+  it('runs every complete start year in order, ignoring the sampled years', () => {
+    const cohortJob = portfolioCohortJob(job, years);
+    expect(cohortJob.yearSamples).toEqual([[2000, 2001], [2001, 2002], [2002, 2003]]);
+    expect(cohortJob.inflationYearSamples).toBeUndefined();
+
+    const cohorts = portfolioCohortOutcomes(cohortJob, runSimulationJob(cohortJob));
+    expect(cohorts.map(c => c.startYear)).toEqual([2000, 2001, 2002]);
+    // 2000 starts flat: (1_000_000 - 40_000) * 1.0, then (960_000 - 40_000) * 1.1
+    expect(cohorts[0].endingBalance).toBeCloseTo(1012000);
+  });
+});
@@ -0,0 +1,51 @@
+import { runIndexSimulation, type IndexSimulationSettings } from "./indexSimulation";
+import type { PortfolioRunResult } from "./simulation";
+import { completeStartYears, type SimulationJob } from "./simulationJob";
+
+export { completeStartYears };
+
+// How one historical retirement start year played out.
+export type CohortOutcome = {
+  startYear: number;
+  startBalance: number;
+  endingBalance: number;
+  minBalance: number;
+  failedYear: number | null;
+};
+
+
+function outcome(startYear: number, balances: number[], failedYear: number | null): CohortOutcome {
+  return {
+    startYear,
+    startBalance: balances[0],
+    endingBalance: balances[balances.length - 1],
+    minBalance: Math.min(...balances),
+    failedYear,
+  };
+}
+
+// Every complete cohort for the S&P 500 or Nasdaq 100 tab.
+export function runIndexCohorts(
+  indexReturns: { year: number; returnPct: number }[],
+  inflation: { year: number; inflationPct: number }[],
+  settings: Omit<IndexSimulationSettings, "mode" | "startYear" | "numRuns" | "seed">,
+): CohortOutcome[] {
+  return completeStartYears(indexReturns.map(d => d.year), settings.horizon).map(startYear => {
+    const [run] = runIndexSimulation(indexReturns, inflation, { ...settings, mode: "actual-seq", startYear, numRuns: 1, seed: "" });
+    return outcome(startYear, run.balances, run.failedYear);
+  });
+}
+
+// Job that runs every complete cohort for a portfolio in start-year order; the job's own year samples are ignored.
+export function portfolioCohortJob(job: SimulationJob, years: number[]): SimulationJob {
+  return {
+    ...job,
+    yearSamples: completeStartYears(years, job.horizon).map(start => Array.from({ length: job.horizon }, (_, i) => start + i)),
+    inflationYearSamples: undefined, // history runs in step
+    bitcoinDraws: undefined, // one path per start year, so the year's own backfill
+  };
+}
+
+// Outcome of each cohort once a cohort job's runs are in.
+export const portfolioCohortOutcomes = (cohortJob: SimulationJob, runs: PortfolioRunResult[]): CohortOutcome[] =>
+  runs.map((run, i) => outcome(cohortJob.yearSamples[i][0], run.balances.map(b => b.total), run.failedYear));
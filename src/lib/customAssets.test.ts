@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { nextCustomAssetId, parseReturnSeries, setCustomReturn } from './customAssets';
+import { assetClass, assetReturns } from './assets';
+import { buildReturnTable, portfolioYears } from './simulationJob';
+import { DEFAULT_MARKET_DATA } from '../data/marketData';
+import { DEFAULT_CASH_YIELD } from './cashYield';
+
+const fund = { id: 'custom-1', name: 'My Fund', color: '#123456', returns: [{ year: 2001, returnPct: -5 }, { year: 2000, returnPct: 10 }] };
+
+describe('parseReturnSeries', () => {
+  it('reads comma, tab and space separated lines and skips a header', () => {
+    expect(parseReturnSeries('Year,Return\n2019, 8\n2020\t12.5%\n\n2021 -3')).toEqual([
+      { year: 2021, returnPct: -3 },
+      { year: 2020, returnPct: 12.5 },
+      { year: 2019, returnPct: 8 },
+    ]);
+  });
+
+  it('keeps the last value for a repeated year', () => {
+    expect(parseReturnSeries('2020,1\n2020,2')).toEqual([{ year: 2020, returnPct: 2 }]);
+  });
+});
+
+describe('custom assets', () => {
+  it('picks the first free id', () => {
+    expect(nextCustomAssetId([])).toBe('custom-1');
+    expect(nextCustomAssetId([fund, { ...fund, id: 'custom-3' }])).toBe('custom-2');
+  });
+
+  it('edits single years', () => {
+    expect(setCustomReturn(fund, 2002, 4).returns.map(d => d.year)).toEqual([2002, 2001, 2000]);
+    expect(setCustomReturn(fund, 2001, null).returns).toEqual([{ year: 2000, returnPct: 10 }]);
+  });
+
+  it('is named, priced and limits the portfolio years like a built-in asset', () => {
+    const data = { ...DEFAULT_MARKET_DATA, custom: [fund] };
+    expect(assetClass('custom-1', data.custom)).toMatchObject({ label: 'My Fund', color: '#123456', role: 'alternative' });
+    expect(assetReturns(data, 'custom-1')).toBe(fund.returns);
+    expect(portfolioYears(data, ['spy', 'custom-1'])).toEqual([2000, 2001]);
+    expect(buildReturnTable(data, [2000, 2001], false, DEFAULT_CASH_YIELD).get(2001)!['custom-1']).toBeCloseTo(0.95);
+  });
+});
@@ -0,0 +1,37 @@
+import type { CustomAsset } from "../data/marketData";
+
+export const CUSTOM_ASSET_COLORS = ["#e15759", "#59a14f", "#edc948", "#af7aa1", "#ff9da7", "#17becf"];
+
+// First unused id of the form custom-1, custom-2, ...
+export function nextCustomAssetId(custom: CustomAsset[]): string {
+  const taken = new Set(custom.map(a => a.id));
+  let n = 1;
+  while (taken.has(`custom-${n}`)) n++;
+  return `custom-${n}`;
+}
+
+/**
+ * Reads a pasted or uploaded year→return column: one year per line, then
+ * its return in percent, separated by a comma, tab, semicolon or spaces
+ * ("2020, 12.5" or "2020\t12.5%"). Lines that do not start with a year
+ * and a number, such as a header, are skipped; a repeated year keeps the
+ * last value. Newest year first, like the bundled series.
+ */
+export function parseReturnSeries(text: string): { year: number; returnPct: number }[] {
+  const byYear = new Map<number, number>();
+  for (const line of text.split(/\r?\n/)) {
+    const [yearText, returnText] = line.trim().split(/\s*[,;\t]\s*|\s+/);
+    const year = Number(yearText);
+    const returnPct = Number(returnText?.replace(/%$/, ""));
+    if (!Number.isInteger(year) || year < 1800 || year > 2200 || returnText === undefined || returnText === "" || !Number.isFinite(returnPct)) continue;
+    byYear.set(year, returnPct);
+  }
+  return [...byYear].map(([year, returnPct]) => ({ year, returnPct })).sort((a, b) => b.year - a.year);
+}
+
+// Sets, adds or (with null) removes one year of a custom asset's returns.
+export function setCustomReturn(asset: CustomAsset, year: number, value: number | null): CustomAsset {
+  const returns = asset.returns.filter(d => d.year !== year);
+  if (value != null && !Number.isNaN(value)) returns.push({ year, returnPct: value });
+  return { ...asset, returns: returns.sort((a, b) => b.year - a.year) };
+}
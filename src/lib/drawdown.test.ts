@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { sellForWithdrawal } from './drawdown';
+import { simulatePortfolio } from './simulation';
+import { withdrawalRuleFor, DEFAULT_WITHDRAWAL_RULE_PARAMS } from './withdrawals';
+
+describe('sellForWithdrawal', () => {
+  const holdings = { cash: 10000, spy: 50000, qqq: 50000, bitcoin: 0, bonds: 50000 };
+  const yearReturns = { spy: 1.2, qqq: 0.8, bitcoin: 1, bonds: 1.05 };
+
+  it('spends cash before selling anything', () => {
+    const result = sellForWithdrawal(holdings, 8000, 'cashFirst_qqqThenSpy', yearReturns);
+    expect(result.cash).toBe(2000);
+    expect(result.qqq).toBe(50000);
+  });
+
+  it('sells the worst performer of the year first', () => {
+    const result = sellForWithdrawal(holdings, 30000, 'cashFirst_worstPerformer', yearReturns);
+    expect(result.cash).toBe(0);
+    expect(result.qqq).toBe(30000);
+    expect(result.spy).toBe(50000);
+  });
+
+  it('moves on to the next asset once one runs out', () => {
+    const result = sellForWithdrawal(holdings, 70000, 'cashFirst_bestPerformer', yearReturns);
+    expect(result.spy).toBe(0);
+    expect(result.bonds).toBe(40000);
+  });
+
+  it('sells any other asset class between QQQ and bonds, and in equal parts', () => {
+    const wider = { ...holdings, intl: 20000, tips: 20000 };
+    expect(sellForWithdrawal(wider, 140000, 'cashFirst_spyThenQqq', yearReturns)).toMatchObject({ qqq: 0, intl: 0, tips: 10000, bonds: 50000 });
+    const equal = sellForWithdrawal(wider, 50000, 'cashFirst_equalParts', yearReturns);
+    expect(equal).toMatchObject({ spy: 42000, qqq: 42000, intl: 12000, tips: 12000, bonds: 42000 });
+  });
+});
+
+describe('simulatePortfolio', () => {
+  it('combines a withdrawal rule with any drawdown order', () => {
+    const returns = { spy: [1.2, 1.2], qqq: [0.8, 0.8], bitcoin: [1, 1], bonds: [1, 1] };
+    const initial = { cash: 0, spy: 500000, qqq: 500000, bitcoin: 0, bonds: 0 };
+    const rule = withdrawalRuleFor('guytonKlinger', DEFAULT_WITHDRAWAL_RULE_PARAMS, {
+      startBalance: 1000000,
+      initialWithdrawalAmount: 50000,
+      inflationAdjust: false,
+      inflationRate: 0,
+      capeData: {},
+      yearSample: [],
+    });
+
+    const worst = simulatePortfolio(returns, initial, 2, rule, { drawdownStrategy: 'cashFirst_worstPerformer' });
+    const best = simulatePortfolio(returns, initial, 2, rule, { drawdownStrategy: 'cashFirst_bestPerformer' });
+
+    // Same first-year spending, funded from QQQ or SPY depending on the order
+    expect(worst.withdrawals[0]).toBe(50000);
+    expect(best.withdrawals[0]).toBe(50000);
+    expect(worst.balances[1].qqq).toBeCloseTo(360000);
+    expect(best.balances[1].spy).toBeCloseTo(540000);
+  });
+});
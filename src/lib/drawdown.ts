@@ -0,0 +1,71 @@
+import type { AssetHoldings } from "./simulation";
+import { heldAssets, investedAssets, sortAssets } from "./assets";
+
+// Order in which assets are sold to fund a withdrawal. Cash is always spent first.
+export type DrawdownStrategy =
+  | "cashFirst_spyThenQqq"
+  | "cashFirst_qqqThenSpy"
+  | "cashFirst_equalParts"
+  | "cashFirst_bestPerformer"
+  | "cashFirst_worstPerformer";
+
+export const DEFAULT_DRAWDOWN_STRATEGY: DrawdownStrategy = "cashFirst_spyThenQqq";
+
+// This year's return multiplier per asset, used by the performance-ranked orders. Missing assets count as flat.
+export type YearReturns = Record<string, number>;
+
+/**
+ * Order the invested assets are sold in: registry order (SPY, then QQQ, then
+ * the rest, bonds last), with SPY and QQQ swapped or everything ranked by
+ * this year's return as the strategy asks.
+ */
+export function drawdownOrder(assets: string[], strategy: DrawdownStrategy, yearReturns: YearReturns): string[] {
+  const order = sortAssets(assets);
+  if (strategy === "cashFirst_qqqThenSpy") {
+    const [spy, qqq] = [order.indexOf("spy"), order.indexOf("qqq")];
+    if (spy !== -1 && qqq !== -1) [order[spy], order[qqq]] = [order[qqq], order[spy]];
+  } else if (strategy === "cashFirst_bestPerformer") {
+    order.sort((a, b) => (yearReturns[b] ?? 1) - (yearReturns[a] ?? 1));
+  } else if (strategy === "cashFirst_worstPerformer") {
+    order.sort((a, b) => (yearReturns[a] ?? 1) - (yearReturns[b] ?? 1));
+  }
+  return order;
+}
+
+/**
+ * Sells holdings to fund `amount`: cash first, then the invested assets in
+ * the order the drawdown strategy picks. Equal parts splits the amount over
+ * the assets still held and falls back to that order once one runs out. Any
+ * shortfall is left unfunded.
+ */
+export function sellForWithdrawal(
+  holdings: AssetHoldings,
+  amount: number,
+  strategy: DrawdownStrategy,
+  yearReturns: YearReturns,
+): AssetHoldings {
+  const next = { ...holdings };
+  const fromCash = Math.min(amount, next.cash);
+  next.cash -= fromCash;
+  let remaining = amount - fromCash;
+
+  const take = (asset: string, limit = remaining) => {
+    const sold = Math.min(limit, next[asset]);
+    next[asset] -= sold;
+    remaining -= sold;
+  };
+
+  if (remaining <= 0) return next;
+
+  if (strategy === "cashFirst_equalParts") {
+    const held = heldAssets(next);
+    const part = remaining / Math.max(1, held.length);
+    for (const asset of held) take(asset, part);
+  }
+
+  for (const asset of drawdownOrder(investedAssets(next), strategy, yearReturns)) {
+    if (remaining <= 0) break;
+    take(asset);
+  }
+  return next;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { runSimulationJob, type SimulationJob } from './simulationJob';
+import { DEFAULT_WITHDRAWAL_RULE_PARAMS } from './withdrawals';
+import { goalSeekUnavailable, solveIndexStartBalance, solveIndexWithdrawRate, solvePortfolioStartBalance, solvePortfolioWithdrawal, withSearchSeed } from './goalSeek';
+
+const years = Array.from({ length: 10 }, (_, i) => 2000 + i);
+const flat = years.map(year => ({ year, returnPct: 0 }));
+const noInflation = years.map(year => ({ year, inflationPct: 0 }));
+const indexSettings = {
+  startBalance: 1_000_000, horizon: 20, withdrawRate: 4, inflationAdjust: false, inflationRate: 0,
+  useHistoricalInflation: false, mode: 'bootstrap' as const, numRuns: 50, seed: '' as const, startYear: 2000,
+};
+
+// Half the samples lose 10% every year, half are flat: at most 50% of runs can outlast a real drain.
+const job: SimulationJob = {
+  yearSamples: Array.from({ length: 10 }, (_, i) => Array(20).fill(i % 2 === 0 ? 2000 : 2001)),
+  returnsByYear: new Map([
+    [2000, { spy: 1, qqq: 1, bitcoin: 1, bonds: 1, cash: 1 }],
+    [2001, { spy: 0.9, qqq: 0.9, bitcoin: 0.9, bonds: 0.9, cash: 0.9 }],
+  ]),
+  initial: { cash: 0, spy: 1_000_000, qqq: 0, bitcoin: 0, bonds: 0 },
+  horizon: 20,
+  withdrawal: {
+    strategy: 'fourPercentRule',
+    params: DEFAULT_WITHDRAWAL_RULE_PARAMS,
+    settings: { startBalance: 1_000_000, initialWithdrawalAmount: 40_000, inflationAdjust: false, inflationRate: 0, capeData: {} },
+  },
+  options: {},
+};
+
+describe('index goal seek', () => {
+  it('finds the highest rate that reaches the target', async () => {
+    // Flat returns last exactly 1 / rate years, so 5% runs dry in the final year
+    const result = await solveIndexWithdrawRate(flat, noInflation, indexSettings, 0.9);
+    expect(result?.value).toBeCloseTo(4.99);
+    expect(result?.successRate).toBe(1);
+  });
+
+  it('finds the lowest starting balance that funds the spending', async () => {
+    const result = await solveIndexStartBalance(flat, noInflation, indexSettings, 40_000, 0.9);
+    expect(result?.value).toBe(801_000);
+  });
+
+  it('fixes a seed for the search when none is set', () => {
+    expect(typeof withSearchSeed(indexSettings).seed).toBe('number');
+    expect(withSearchSeed({ ...indexSettings, seed: 7 }).seed).toBe(7);
+  });
+});
+
+describe('portfolio goal seek', () => {
+  const run = (j: SimulationJob) => runSimulationJob(j);
+
+  it('finds the highest first withdrawal that reaches the target', async () => {
+    const result = await solvePortfolioWithdrawal(job, 0.5, run);
+    expect(result?.value).toBe(49_900);
+    expect(result?.successRate).toBe(0.5);
+  });
+
+  it('reports no answer when the target is out of reach', async () => {
+    // Halving every year, even 200 years of spending runs out
+    const crash = { ...job, returnsByYear: new Map([...job.returnsByYear, [2001, { spy: 0.5, qqq: 0.5, bitcoin: 0.5, bonds: 0.5, cash: 0.5 }]]) };
+    expect(await solvePortfolioStartBalance(crash, 40_000, 0.9, run)).toBeNull();
+  });
+
+  it('scales the allocation to the balance that funds the spending', async () => {
+    const result = await solvePortfolioStartBalance(job, 40_000, 0.5, run);
+    expect(result?.value).toBe(801_000);
+  });
+});
+
+describe('goalSeekUnavailable', () => {
+  it('rules out the searches for rules that withdraw a share of the balance', () => {
+    expect(goalSeekUnavailable('fixedPercentage')).toMatch(/never runs out/);
+    expect(goalSeekUnavailable('capeBased')).toMatch(/never runs out/);
+    expect(goalSeekUnavailable('guytonKlinger')).toBeNull();
+    expect(goalSeekUnavailable('fourPercentRule')).toBeNull();
+  });
+});
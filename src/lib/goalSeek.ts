@@ -0,0 +1,145 @@
+import { runIndexSimulation, type IndexSimulationSettings } from "./indexSimulation";
+import type { PortfolioRunResult } from "./simulation";
+import type { SimulationJob } from "./simulationJob";
+import type { DrawdownStrategies } from "./withdrawals";
+
+export type SolveFor = "withdrawal" | "startBalance";
+
+// Solved value and the success rate the simulation gives at it.
+export type GoalSeekResult = { value: number; successRate: number };
+
+type Evaluate = (value: number) => number | Promise<number>;
+
+export const successRate = (runs: { failedYear: number | null }[]): number =>
+  runs.length === 0 ? 0 : runs.filter(r => r.failedYear === null).length / runs.length;
+
+/**
+ * Highest multiple of `step` in [0, max] whose success rate reaches `target`,
+ * assuming success only falls as the value rises. Null when even 0 misses.
+ */
+async function highestMeeting(evaluate: Evaluate, target: number, max: number, step: number): Promise<GoalSeekResult | null> {
+  let lo = 0;
+  let loRate = await evaluate(0);
+  if (loRate < target) return null;
+  let hi = Math.ceil(max / step);
+  const hiRate = await evaluate(hi * step);
+  if (hiRate >= target) return { value: hi * step, successRate: hiRate };
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    const rate = await evaluate(mid * step);
+    if (rate >= target) {
+      lo = mid;
+      loRate = rate;
+    } else {
+      hi = mid;
+    }
+  }
+  return { value: lo * step, successRate: loRate };
+}
+
+// Lowest multiple of `step` in [min, max] reaching `target`, assuming success only rises with the value.
+async function lowestMeeting(evaluate: Evaluate, target: number, min: number, max: number, step: number): Promise<GoalSeekResult | null> {
+  let hi = Math.ceil(max / step);
+  let hiRate = await evaluate(hi * step);
+  if (hiRate < target) return null;
+  let lo = Math.max(0, Math.floor(min / step));
+  const loRate = await evaluate(lo * step);
+  if (loRate >= target) return { value: lo * step, successRate: loRate };
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    const rate = await evaluate(mid * step);
+    if (rate >= target) {
+      hi = mid;
+      hiRate = rate;
+    } else {
+      lo = mid;
+    }
+  }
+  return { value: hi * step, successRate: hiRate };
+}
+
+/**
+ * Fixes the seed so every trial of a search draws the same sequences (common
+ * random numbers); otherwise sampling noise would swamp the bisection.
+ */
+export function withSearchSeed<T extends { seed: number | "" }>(settings: T): T {
+  return settings.seed === "" ? { ...settings, seed: Math.floor(Math.random() * 2 ** 31) } : settings;
+}
+
+// Withdrawal rate (%) on a 0.01% grid that reaches the target success rate in the index tabs.
+export function solveIndexWithdrawRate(
+  indexReturns: { year: number; returnPct: number }[],
+  inflation: { year: number; inflationPct: number }[],
+  settings: IndexSimulationSettings,
+  target: number,
+): Promise<GoalSeekResult | null> {
+  const fixed = withSearchSeed(settings);
+  return highestMeeting(withdrawRate => successRate(runIndexSimulation(indexReturns, inflation, { ...fixed, withdrawRate })), target, 50, 0.01);
+}
+
+// Starting balance on a $1,000 grid that funds `spending` a year at the target success rate in the index tabs.
+export function solveIndexStartBalance(
+  indexReturns: { year: number; returnPct: number }[],
+  inflation: { year: number; inflationPct: number }[],
+  settings: IndexSimulationSettings,
+  spending: number,
+  target: number,
+): Promise<GoalSeekResult | null> {
+  const fixed = withSearchSeed(settings);
+  return lowestMeeting(
+    startBalance => successRate(runIndexSimulation(indexReturns, inflation, { ...fixed, startBalance, withdrawRate: startBalance > 0 ? (spending / startBalance) * 100 : 100 })),
+    target, spending, spending * 200, 1000,
+  );
+}
+
+/**
+ * Why the portfolio searches don't apply to `strategy`, or null when they do.
+ * Rules that withdraw a share of each year's balance ignore the first
+ * withdrawal and never run the portfolio dry by themselves, so neither
+ * search has anything to move.
+ */
+export function goalSeekUnavailable(strategy: DrawdownStrategies): string | null {
+  switch (strategy) {
+    case "fixedPercentage":
+      return "The fixed-percentage rule withdraws a share of each year's balance, so it never runs out and the first withdrawal doesn't apply. Set its rate directly in the withdrawal rule settings.";
+    case "capeBased":
+      return "The CAPE-based rule withdraws a share of each year's balance set by valuations, so it never runs out and the first withdrawal doesn't apply. Set its base rate and CAPE fraction directly in the withdrawal rule settings.";
+    default:
+      return null;
+  }
+}
+
+type RunJob = (job: SimulationJob) => Promise<PortfolioRunResult[]> | PortfolioRunResult[];
+
+export const withInitialWithdrawal = (job: SimulationJob, amount: number): SimulationJob => ({
+  ...job,
+  withdrawal: { ...job.withdrawal, settings: { ...job.withdrawal.settings, initialWithdrawalAmount: amount } },
+});
+
+// Scales every holding so the portfolio starts at `startBalance`, keeping the allocation.
+export function withStartBalance(job: SimulationJob, startBalance: number): SimulationJob {
+  const factor = job.withdrawal.settings.startBalance > 0 ? startBalance / job.withdrawal.settings.startBalance : 0;
+  return {
+    ...job,
+    initial: Object.fromEntries(Object.entries(job.initial).map(([asset, amount]) => [asset, amount * factor])),
+    withdrawal: { ...job.withdrawal, settings: { ...job.withdrawal.settings, startBalance } },
+  };
+}
+
+// First-year withdrawal on a $100 grid that reaches the target success rate over the job's own year samples.
+export function solvePortfolioWithdrawal(job: SimulationJob, target: number, run: RunJob): Promise<GoalSeekResult | null> {
+  return highestMeeting(
+    async amount => successRate(await run(withInitialWithdrawal(job, amount))),
+    target, job.withdrawal.settings.startBalance * 0.5, 100,
+  );
+}
+
+// Starting balance on a $1,000 grid that funds `spending` at the target success rate; null for an empty portfolio.
+export async function solvePortfolioStartBalance(job: SimulationJob, spending: number, target: number, run: RunJob): Promise<GoalSeekResult | null> {
+  if (job.withdrawal.settings.startBalance <= 0) return null;
+  const base = withInitialWithdrawal(job, spending);
+  return lowestMeeting(
+    async startBalance => successRate(await run(withStartBalance(base, startBalance))),
+    target, spending, spending * 200, 1000,
+  );
+}
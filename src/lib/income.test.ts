@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { claimingAdjustment, incomeFor, newIncomeStream, type IncomeStream } from './income';
+import { simulatePortfolio } from './simulation';
+
+const stream = (patch: Partial<IncomeStream>): IncomeStream => ({ ...newIncomeStream('pension', []), ...patch });
+
+describe('claimingAdjustment', () => {
+  it('reduces early claims and credits delayed ones', () => {
+    expect(claimingAdjustment(62)).toBeCloseTo(0.7);
+    expect(claimingAdjustment(64)).toBeCloseTo(1 - 36 * 5 / 900);
+    expect(claimingAdjustment(67)).toBe(1);
+    expect(claimingAdjustment(70)).toBeCloseTo(1.24);
+    expect(claimingAdjustment(72)).toBeCloseTo(1.24);
+  });
+});
+
+describe('incomeFor', () => {
+  it('pays streams between their start and end ages, with inflation when linked', () => {
+    const streams = [
+      stream({ amount: 10_000, startAge: 65, endAge: 70, inflationLinked: true }),
+      stream({ id: 'income-2', amount: 5_000, startAge: 60, endAge: null, inflationLinked: false }),
+    ];
+    expect(incomeFor(streams, 64, 1.1).total).toBe(5_000);
+    expect(incomeFor(streams, 65, 1.1).total).toBeCloseTo(16_000);
+    expect(incomeFor(streams, 70, 1.1).total).toBe(5_000);
+  });
+
+  it('applies the claiming age to Social Security and taxes 85% of it', () => {
+    const paid = incomeFor([{ ...newIncomeStream('socialSecurity', []), amount: 20_000, startAge: 70 }], 75, 1);
+    expect(paid.total).toBeCloseTo(24_800);
+    expect(paid.taxable).toBeCloseTo(0.85 * 24_800);
+  });
+});
+
+describe('simulatePortfolio with income', () => {
+  it('withdraws only the spending that income does not cover', () => {
+    const run = simulatePortfolio(
+      { spy: [1, 1, 1] },
+      { cash: 0, spy: 1_000_000 },
+      3,
+      { strategy: 'fourPercentRule', initialWithdrawalAmount: 40_000, inflationAdjust: false, inflationRate: 0 },
+      { startAge: 66, income: [stream({ amount: 30_000, startAge: 67, endAge: null })] },
+    );
+    expect(run.income).toEqual([0, 30_000, 30_000]);
+    expect(run.withdrawals).toEqual([40_000, 10_000, 10_000]);
+    expect(run.balances[3].total).toBe(940_000);
+  });
+});
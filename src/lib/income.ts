@@ -0,0 +1,79 @@
+// Guaranteed income that pays part of each year's spending, so the portfolio only funds the rest.
+export type IncomeKind = "socialSecurity" | "pension" | "annuity" | "rental" | "work";
+
+export const INCOME_KINDS: { id: IncomeKind; label: string }[] = [
+  { id: "socialSecurity", label: "Social Security" },
+  { id: "pension", label: "Pension" },
+  { id: "annuity", label: "Annuity" },
+  { id: "rental", label: "Rental income" },
+  { id: "work", label: "Part-time work" },
+];
+
+export interface IncomeStream {
+  id: string;
+  kind: IncomeKind;
+  name: string;
+  amount: number; // a year, in dollars of the first year of retirement; Social Security's is the benefit at full retirement age
+  startAge: number; // Social Security's claiming age
+  endAge: number | null; // first age it no longer pays; null pays for life
+  inflationLinked: boolean; // grows with inflation (a COLA); otherwise pays the same dollars every year
+}
+
+export const FULL_RETIREMENT_AGE = 67;
+
+// Sensible starting values for a new stream of each kind.
+export function newIncomeStream(kind: IncomeKind, existing: IncomeStream[]): IncomeStream {
+  const taken = new Set(existing.map(s => s.id));
+  let n = 1;
+  while (taken.has(`income-${n}`)) n++;
+  const id = `income-${n}`;
+  const name = INCOME_KINDS.find(k => k.id === kind)?.label ?? kind;
+  switch (kind) {
+    case "socialSecurity":
+      return { id, kind, name, amount: 30_000, startAge: FULL_RETIREMENT_AGE, endAge: null, inflationLinked: true };
+    case "pension":
+      return { id, kind, name, amount: 20_000, startAge: 65, endAge: null, inflationLinked: false };
+    case "annuity":
+      return { id, kind, name, amount: 10_000, startAge: 65, endAge: null, inflationLinked: false };
+    case "rental":
+      return { id, kind, name, amount: 15_000, startAge: 65, endAge: null, inflationLinked: true };
+    case "work":
+      return { id, kind, name, amount: 20_000, startAge: 65, endAge: 70, inflationLinked: true };
+  }
+}
+
+/**
+ * Share of the full-retirement-age benefit paid when Social Security is
+ * claimed at `age`: 5/9% less for each of the first 36 months early, 5/12%
+ * for each month beyond, and 8% more a year for waiting, up to age 70.
+ */
+export function claimingAdjustment(age: number): number {
+  const monthsEarly = Math.round((FULL_RETIREMENT_AGE - Math.max(62, age)) * 12);
+  if (monthsEarly > 0) return 1 - (Math.min(36, monthsEarly) * 5) / 900 - (Math.max(0, monthsEarly - 36) * 5) / 1200;
+  return 1 + 0.08 * (Math.min(70, age) - FULL_RETIREMENT_AGE);
+}
+
+// Share of each kind that is taxed as ordinary income. Up to 85% of Social Security benefits are taxable; this assumes the most.
+export const TAXABLE_SHARE: Record<IncomeKind, number> = { socialSecurity: 0.85, pension: 1, annuity: 1, rental: 1, work: 1 };
+
+/**
+ * What the streams pay in a year when the retiree is `age`, and how much of
+ * it is taxable. `priceIndex` is inflation since retirement began, which
+ * inflation-linked streams grow with.
+ */
+export function incomeFor(
+  streams: IncomeStream[],
+  age: number,
+  priceIndex: number,
+): { total: number; taxable: number } {
+  let total = 0;
+  let taxable = 0;
+  for (const stream of streams) {
+    if (age < stream.startAge || (stream.endAge !== null && age >= stream.endAge)) continue;
+    const base = stream.kind === "socialSecurity" ? stream.amount * claimingAdjustment(stream.startAge) : stream.amount;
+    const paid = stream.inflationLinked ? base * priceIndex : base;
+    total += paid;
+    taxable += paid * TAXABLE_SHARE[stream.kind];
+  }
+  return { total, taxable };
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { runIndexSimulation } from './indexSimulation';
+import { newIncomeStream } from './income';
+import { newCashFlowEvent } from './cashFlows';
+
+// Each year's return and inflation encode the year, so a run reveals which years it drew for each.
+const years = Array.from({ length: 40 }, (_, i) => 1980 + i);
+const returns = years.map(year => ({ year, returnPct: (year - 1970) / 10 }));
+const inflation = years.map(year => ({ year, inflationPct: (year - 1970) / 100 }));
+const settings = {
+  startBalance: 1_000_000, horizon: 10, withdrawRate: 1, inflationAdjust: true, inflationRate: 0,
+  useHistoricalInflation: true, numRuns: 20, seed: 11, startYear: 1980,
+};
+
+function drawnYears(run: { balances: number[]; withdrawals: number[] }) {
+  const returnYears: number[] = [];
+  const inflationYears: number[] = [];
+  for (let t = 0; t < settings.horizon - 1; t++) {
+    const mult = run.balances[t + 1] / (run.balances[t] - run.withdrawals[t]);
+    returnYears.push(Math.round((mult - 1) * 1000 + 1970));
+    inflationYears.push(Math.round((run.withdrawals[t + 1] / run.withdrawals[t] - 1) * 10000 + 1970));
+  }
+  return { returnYears, inflationYears };
+}
+
+describe('runIndexSimulation', () => {
+  it.each(['random-shuffle', 'bootstrap', 'stationary-bootstrap'] as const)('pairs each return with inflation from the same year in %s mode', mode => {
+    for (const run of runIndexSimulation(returns, inflation, { ...settings, mode })) {
+      const { returnYears, inflationYears } = drawnYears(run);
+      expect(inflationYears).toEqual(returnYears);
+    }
+  });
+
+  it('draws inflation years separately when decorrelated', () => {
+    const runs = runIndexSimulation(returns, inflation, { ...settings, mode: 'bootstrap', decorrelateInflation: true });
+    const mismatched = runs.filter(run => {
+      const { returnYears, inflationYears } = drawnYears(run);
+      return returnYears.some((y, i) => y !== inflationYears[i]);
+    });
+    expect(mismatched.length).toBeGreaterThan(15);
+  });
+
+  it('withdraws only what income streams leave unpaid once they start', () => {
+    const pension = { ...newIncomeStream('pension', []), amount: 4_000, startAge: 67 };
+    const flat = { ...settings, withdrawRate: 5, useHistoricalInflation: false, inflationAdjust: false, mode: 'actual-seq' as const };
+    const [run] = runIndexSimulation(returns, inflation, { ...flat, startAge: 65, incomeStreams: [pension] });
+    expect(run.withdrawals.slice(0, 4)).toEqual([50_000, 50_000, 46_000, 46_000]);
+    expect(run.income?.slice(0, 4)).toEqual([0, 0, 4_000, 4_000]);
+    const [withoutAge] = runIndexSimulation(returns, inflation, { ...flat, incomeStreams: [pension] });
+    expect(withoutAge.withdrawals[2]).toBe(50_000);
+    expect(withoutAge.income).toBeUndefined();
+  });
+
+  it('adds expenses to the withdrawal and invests windfalls beyond it', () => {
+    const roof = { ...newCashFlowEvent([]), amount: 30_000, year: 1 };
+    const inheritance = { ...newCashFlowEvent([roof]), kind: 'windfall' as const, amount: 80_000, year: 2 };
+    const flat = { ...settings, withdrawRate: 5, useHistoricalInflation: false, inflationAdjust: false, mode: 'actual-seq' as const };
+    const [run] = runIndexSimulation(returns, inflation, { ...flat, cashFlows: [roof, inheritance] });
+    expect(run.withdrawals.slice(0, 4)).toEqual([50_000, 80_000, 0, 50_000]);
+    expect(run.cashFlows?.slice(0, 4)).toEqual([0, 30_000, -80_000, 0]);
+    const [plain] = runIndexSimulation(returns, inflation, flat);
+    const [m1, m2] = [1 + returns[1].returnPct / 100, 1 + returns[2].returnPct / 100];
+    expect(run.balances[3] - plain.balances[3]).toBeCloseTo((-30_000 * m1 + 80_000) * m2);
+  });
+});
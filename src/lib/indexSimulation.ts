@@ -0,0 +1,148 @@
+import { pctToMult, DEFAULT_BLOCK_LENGTH, type RunResult, type SimulationMode } from "./simulation";
+import { generateInflationSequence } from "./inflation";
+import { rngFromSeed, streamSeed } from "./random";
+import { sampleYears, startYearPool } from "./simulationJob";
+import { MODEL_ASSETS, type ModelAsset, type PathGenerator } from "./returnModel";
+import { isSyntheticMode } from "./regimeModel";
+import { incomeFor, type IncomeStream } from "./income";
+import { cashFlowFor, type CashFlowEvent } from "./cashFlows";
+
+/**
+ * Single-index path: spend a fixed share of the starting balance each year,
+ * optionally inflation adjusted, less what income streams pay and plus any
+ * cash-flow events, then apply the index return. Withdrawals are the
+ * portfolio's share of the spending; a windfall beyond it is invested.
+ */
+export function simulateIndexPath(
+  returns: number[], // multipliers for each year of the horizon
+  startBalance: number,
+  initialWithdrawalRate: number, // e.g., 0.04
+  inflationRate: number, // constant inflation for inflation-adjusted withdrawals
+  inflationAdjust: boolean,
+  inflationRates?: number[],
+  flows: { startAge?: number; incomeStreams?: IncomeStream[]; cashFlows?: CashFlowEvent[] } = {}, // without a start age no income is paid
+): RunResult {
+  const horizon = returns.length;
+  const balances: number[] = new Array(horizon + 1).fill(0);
+  const withdrawals: number[] = new Array(horizon).fill(0);
+  const { startAge } = flows;
+  const incomeStreams = startAge === undefined ? [] : flows.incomeStreams ?? [];
+  const income: number[] = new Array(horizon).fill(0);
+  const events = flows.cashFlows ?? [];
+  const cashFlows: number[] = new Array(horizon).fill(0);
+  let bal = startBalance;
+  const baseWithdrawal = startBalance * initialWithdrawalRate;
+  let withdrawalAmount = baseWithdrawal;
+  let priceIndex = 1; // inflation since the first year, which inflation-linked income and real events grow with
+  balances[0] = bal;
+  let failedYear: number | null = null;
+  for (let y = 0; y < horizon; y++) {
+    const spending = inflationAdjust ? withdrawalAmount : baseWithdrawal;
+    income[y] = incomeFor(incomeStreams, (startAge ?? 0) + y, priceIndex).total;
+    const regular = Math.max(0, spending - income[y]);
+    cashFlows[y] = cashFlowFor(events, y, priceIndex);
+    const withdrawal = Math.max(0, regular + cashFlows[y]);
+    withdrawals[y] = withdrawal;
+    bal = bal - withdrawal + Math.max(0, -(regular + cashFlows[y]));
+    if (bal <= 0 && failedYear === null) {
+      failedYear = y + 1; // first year of failure
+      bal = 0;
+      balances[y + 1] = 0;
+      // continue filling zeros for the remaining years
+      for (let k = y + 1; k < horizon; k++) {
+        balances[k + 1] = 0;
+        withdrawals[k] = 0;
+      }
+      break;
+    }
+    // apply return for the year
+    bal = bal * returns[y];
+    balances[y + 1] = bal;
+    const rate = inflationRates ? inflationRates[y] : inflationRate;
+    if (inflationAdjust) withdrawalAmount *= (1 + rate);
+    priceIndex *= 1 + rate;
+  }
+  // If never failed, balances filled to end
+  return {
+    balances,
+    failedYear,
+    withdrawals,
+    ...(incomeStreams.length > 0 ? { income } : {}),
+    ...(events.length > 0 ? { cashFlows } : {}),
+  };
+}
+
+export interface IndexSimulationSettings {
+  startBalance: number;
+  horizon: number;
+  withdrawRate: number; // % of the starting balance
+  inflationAdjust: boolean;
+  inflationRate: number;
+  useHistoricalInflation: boolean;
+  mode: SimulationMode;
+  numRuns: number;
+  seed: number | "";
+  blockLength?: number; // years, for the block and stationary bootstrap
+  decorrelateInflation?: boolean; // draw inflation years apart from the return years
+  startYears?: number[]; // start years for the random-start modes, e.g. the CAPE-conditioned ones; defaults to every year
+  completeCohorts?: boolean; // random starts only where a full horizon of data follows, so runs never wrap around
+  synthetic?: { generate: PathGenerator; asset: ModelAsset }; // required by the parametric and regime-switching modes
+  startYear: number;
+  startAge?: number; // age in the first year of retirement; without it no income is paid
+  incomeStreams?: IncomeStream[]; // Social Security, pensions and other income that pays part of the spending
+  cashFlows?: CashFlowEvent[]; // one-off or recurring expenses and windfalls on top of the withdrawal
+}
+
+// Runs the S&P 500 or Nasdaq 100 tab simulation over one index's yearly returns.
+export function runIndexSimulation(
+  indexReturns: { year: number; returnPct: number }[],
+  inflation: { year: number; inflationPct: number }[],
+  settings: IndexSimulationSettings,
+): RunResult[] {
+  const {
+    startBalance, horizon, withdrawRate, inflationAdjust, inflationRate, useHistoricalInflation,
+    mode, numRuns, seed, startYear, blockLength = DEFAULT_BLOCK_LENGTH, decorrelateInflation = false, synthetic, startYears,
+    completeCohorts = false,
+  } = settings;
+  const initW = withdrawRate / 100;
+  const flows = { startAge: settings.startAge, incomeStreams: settings.incomeStreams, cashFlows: settings.cashFlows };
+
+  if (isSyntheticMode(mode)) {
+    if (!synthetic) return [];
+    // Modelled inflation stands in for history
+    const asset = MODEL_ASSETS.indexOf(synthetic.asset);
+    const inflationIdx = MODEL_ASSETS.indexOf("inflation");
+    const rng = rngFromSeed(seed);
+    return Array.from({ length: numRuns }, () => {
+      const draws = synthetic.generate(horizon, rng);
+      const inflSeq = useHistoricalInflation ? draws.map(d => d[inflationIdx] - 1) : undefined;
+      return simulateIndexPath(draws.map(d => d[asset]), startBalance, initW, inflationRate, inflationAdjust, inflSeq, flows);
+    });
+  }
+
+  const sortedReturns = indexReturns.slice().sort((a, b) => a.year - b.year);
+  const multiplierByYear = new Map(sortedReturns.map(d => [d.year, pctToMult(d.returnPct)]));
+  const yearsSorted = sortedReturns.map(d => d.year);
+  const inflationSorted = inflation.slice().sort((a, b) => a.year - b.year);
+  const inflationYears = inflationSorted.map(d => d.year);
+  const inflationRatesChrono = inflationSorted.map(d => d.inflationPct / 100);
+  const availableInflationRates = inflation.map(d => d.inflationPct / 100);
+
+  const numSimRuns = mode === 'actual-seq' ? 1 : numRuns;
+  // Returns and inflation come from the same sampled years unless deliberately decorrelated
+  const starts = startYearPool(startYears ?? yearsSorted, horizon, completeCohorts, yearsSorted);
+  const yearSamples = sampleYears(mode, yearsSorted, horizon, numSimRuns, seed, startYear, blockLength, starts);
+  const inflationSamples = decorrelateInflation
+    ? sampleYears(mode, inflationYears, horizon, numSimRuns, streamSeed(seed, 1), startYear, blockLength, startYearPool(inflationYears, horizon, completeCohorts))
+    : yearSamples;
+
+  const runs: RunResult[] = [];
+  yearSamples.forEach((years, r) => {
+    if (years.length === 0) return;
+    const inflSeq = useHistoricalInflation
+      ? generateInflationSequence(mode, horizon, startYear, inflationYears, inflationRatesChrono, availableInflationRates, inflationSamples[r])
+      : undefined;
+    runs.push(simulateIndexPath(years.map(y => multiplierByYear.get(y)!), startBalance, initW, inflationRate, inflationAdjust, inflSeq, flows));
+  });
+  return runs;
+}
@@ -1,13 +1,16 @@
-import { shuffle, bootstrapSample } from "./simulation";
+import { shuffle, bootstrapSample, blockBootstrapSample, stationaryBootstrapSample, DEFAULT_BLOCK_LENGTH, type SimulationMode } from "./simulation";
+import type { Rng } from "./random";
 
 export function generateInflationSequence(
-  mode: "actual-seq" | "actual-seq-random-start" | "random-shuffle" | "bootstrap",
+  mode: SimulationMode,
   horizon: number,
   startYear: number,
   yearsSorted: number[],
   ratesChrono: number[],
   availableRates: number[],
   yearSample?: number[],
+  rng: Rng = Math.random,
+  blockLength = DEFAULT_BLOCK_LENGTH,
 ): number[] {
   // If a specific year sample is provided, derive inflation directly from it.
   if (yearSample && yearSample.length > 0) {
@@ -22,13 +25,17 @@ export function generateInflationSequence(
     if (startIdx === -1) startIdx = 0;
     return ratesChrono.slice(startIdx, startIdx + horizon);
   } else if (mode === "actual-seq-random-start") {
-    const startIdx = Math.floor(Math.random() * ratesChrono.length);
+    const startIdx = Math.floor(rng() * ratesChrono.length);
     return Array.from({ length: horizon }, (_, i) => ratesChrono[(startIdx + i) % ratesChrono.length]);
   } else if (mode === "random-shuffle") {
-    const shuffled = shuffle(availableRates);
+    const shuffled = shuffle(availableRates, rng);
     return Array.from({ length: horizon }, (_, i) => shuffled[i % shuffled.length]);
   } else if (mode === "bootstrap") {
-    return bootstrapSample(availableRates, horizon);
+    return bootstrapSample(availableRates, horizon, rng);
+  } else if (mode === "block-bootstrap") {
+    return blockBootstrapSample(ratesChrono, horizon, blockLength, rng);
+  } else if (mode === "stationary-bootstrap") {
+    return stationaryBootstrapSample(ratesChrono, horizon, blockLength, rng);
   }
   return [];
 }
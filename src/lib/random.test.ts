@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { createRng, rngFromSeed } from './random';
+import { bootstrapSample, shuffle } from './simulation';
+import { generateInflationSequence } from './inflation';
+
+describe('createRng', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const seqA = Array.from({ length: 10 }, () => a());
+    const seqB = Array.from({ length: 10 }, () => b());
+    expect(seqA).toEqual(seqB);
+  });
+
+  it('produces different sequences for different seeds', () => {
+    const a = createRng(1);
+    const b = createRng(2);
+    expect(Array.from({ length: 5 }, () => a())).not.toEqual(Array.from({ length: 5 }, () => b()));
+  });
+
+  it('stays within [0, 1)', () => {
+    const rng = createRng(123);
+    for (let i = 0; i < 1000; i++) {
+      const v = rng();
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+});
+
+describe('rngFromSeed', () => {
+  it('falls back to Math.random when no seed is given', () => {
+    expect(rngFromSeed('')).toBe(Math.random);
+    expect(rngFromSeed(NaN)).toBe(Math.random);
+  });
+
+  it('makes shuffle, bootstrap and inflation draws reproducible', () => {
+    const years = Array.from({ length: 40 }, (_, i) => 1980 + i);
+    const rates = years.map((_, i) => i / 1000);
+    const draw = () => {
+      const rng = rngFromSeed(7);
+      return {
+        shuffled: shuffle(years, rng),
+        sample: bootstrapSample(years, 30, rng),
+        inflation: generateInflationSequence('bootstrap', 30, 1980, years, rates, rates, undefined, rng),
+      };
+    };
+    expect(draw()).toEqual(draw());
+  });
+});
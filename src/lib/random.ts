@@ -0,0 +1,33 @@
+// Random number source used by every Monte Carlo draw. Returns a float in [0, 1).
+export type Rng = () => number;
+
+/**
+ * Seedable PRNG (mulberry32). The same seed always yields the same sequence,
+ * which makes Monte Carlo runs reproducible across sessions and machines.
+ */
+export function createRng(seed: number): Rng {
+  let a = Math.floor(seed) >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Resolves the optional "Seed" input into a random source.
+ * An empty (or non-numeric) seed falls back to Math.random.
+ */
+export function rngFromSeed(seed: number | ""): Rng {
+  if (seed === "" || !Number.isFinite(seed)) return Math.random;
+  return createRng(seed);
+}
+
+/**
+ * Seed for a second stream that is independent of the main one, such as
+ * inflation drawn apart from returns. An empty seed stays empty.
+ */
+export const streamSeed = (seed: number | "", stream: number): number | "" =>
+  seed === "" || !Number.isFinite(seed) ? seed : seed + stream * 0x9e3779b9;
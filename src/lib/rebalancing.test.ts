@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { allocationWeights, rebalanceHoldings, drawTowardTarget } from './rebalancing';
+import { simulatePortfolio } from './simulation';
+
+describe('rebalanceHoldings', () => {
+  const target = { cash: 0, spy: 0.6, qqq: 0, bitcoin: 0, bonds: 0.4 };
+  const drifted = { cash: 0, spy: 70000, qqq: 0, bitcoin: 0, bonds: 30000 };
+
+  it('resets to target annually and records turnover', () => {
+    const { holdings, turnover } = rebalanceHoldings(drifted, target, { mode: 'annual', band: 0.05 });
+    expect(holdings.spy).toBeCloseTo(60000);
+    expect(holdings.bonds).toBeCloseTo(40000);
+    expect(turnover).toBeCloseTo(0.1);
+  });
+
+  it('only trades once an asset leaves its tolerance band', () => {
+    const inside = rebalanceHoldings(drifted, target, { mode: 'bands', band: 0.15 });
+    expect(inside.holdings).toEqual(drifted);
+    expect(inside.turnover).toBe(0);
+
+    const outside = rebalanceHoldings(drifted, target, { mode: 'bands', band: 0.05 });
+    expect(outside.holdings.spy).toBeCloseTo(60000);
+  });
+
+  it('does not trade when rebalancing through withdrawals', () => {
+    const { holdings, turnover } = rebalanceHoldings(drifted, target, { mode: 'withdrawals', band: 0.05 });
+    expect(holdings).toEqual(drifted);
+    expect(turnover).toBe(0);
+  });
+});
+
+describe('drawTowardTarget', () => {
+  it('funds spending from the overweight asset', () => {
+    const target = allocationWeights({ cash: 0, spy: 60, qqq: 0, bitcoin: 0, bonds: 40 });
+    const result = drawTowardTarget({ cash: 0, spy: 70000, qqq: 0, bitcoin: 0, bonds: 30000 }, 10000, target);
+    // 90_000 left at 60/40 means 54_000/36_000: only SPY is above that
+    expect(result.spy).toBeCloseTo(60000);
+    expect(result.bonds).toBeCloseTo(30000);
+  });
+});
+
+describe('engine rebalancing', () => {
+  it('holds the starting allocation with annual rebalancing', () => {
+    const result = simulatePortfolio(
+      { spy: [1.2, 1.2], qqq: [1, 1], bitcoin: [1, 1], bonds: [1, 1] },
+      { cash: 0, spy: 600000, qqq: 0, bitcoin: 0, bonds: 400000 },
+      2,
+      { strategy: 'fourPercentRule', initialWithdrawalAmount: 0, inflationAdjust: false, inflationRate: 0 },
+      { rebalance: { mode: 'annual', band: 0.05 } }
+    );
+
+    const year1 = result.balances[1];
+    expect(year1.spy / year1.total).toBeCloseTo(0.6);
+    expect(result.turnover).toHaveLength(2);
+    expect(result.turnover[0]).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,71 @@
+import type { AssetHoldings } from "./simulation";
+import { assetsOf, emptyHoldings, holdingsTotal } from "./assets";
+
+// How the portfolio is brought back to its target allocation.
+export type RebalanceMode =
+  | "none" // let the allocation drift
+  | "annual" // reset to target at every year end
+  | "bands" // reset to target once any asset drifts more than `band` from its weight
+  | "withdrawals"; // never trade, but fund spending from the most overweight assets
+
+export interface RebalanceOptions {
+  mode: RebalanceMode;
+  band: number; // tolerance in absolute weight, e.g. 0.05 for ±5%
+}
+
+export const DEFAULT_REBALANCE: RebalanceOptions = { mode: "none", band: 0.05 };
+
+/** Fraction of the portfolio held in each asset (all zero for an empty portfolio). */
+export function allocationWeights(holdings: AssetHoldings): AssetHoldings {
+  const total = holdingsTotal(holdings);
+  const weights = emptyHoldings(holdings);
+  if (total <= 0) return weights;
+  for (const k of assetsOf(holdings)) weights[k] = holdings[k] / total;
+  return weights;
+}
+
+/**
+ * Year-end rebalance back to the target weights. Turnover is the share of the
+ * portfolio that changed hands (total bought, which equals total sold).
+ */
+export function rebalanceHoldings(
+  holdings: AssetHoldings,
+  target: AssetHoldings,
+  options: RebalanceOptions = DEFAULT_REBALANCE,
+): { holdings: AssetHoldings; turnover: number } {
+  const total = holdingsTotal(holdings);
+  if (total <= 0 || options.mode === "none" || options.mode === "withdrawals") return { holdings, turnover: 0 };
+
+  const assets = assetsOf(holdings);
+  if (options.mode === "bands") {
+    const weights = allocationWeights(holdings);
+    if (assets.every(k => Math.abs(weights[k] - (target[k] ?? 0)) <= options.band)) return { holdings, turnover: 0 };
+  }
+
+  const next = emptyHoldings(holdings);
+  let bought = 0;
+  for (const k of assets) {
+    next[k] = total * (target[k] ?? 0);
+    bought += Math.max(next[k] - holdings[k], 0);
+  }
+  return { holdings: next, turnover: bought / total };
+}
+
+/**
+ * Takes a withdrawal from whichever assets sit furthest above their target
+ * weight, so spending nudges the portfolio back toward target without trades.
+ */
+export function drawTowardTarget(holdings: AssetHoldings, amount: number, target: AssetHoldings): AssetHoldings {
+  const total = holdingsTotal(holdings);
+  if (amount >= total) return emptyHoldings(holdings);
+
+  const assets = assetsOf(holdings);
+  const remaining = total - amount;
+  const excess = assets.map(k => Math.max(holdings[k] - (target[k] ?? 0) * remaining, 0));
+  const totalExcess = excess.reduce((s, e) => s + e, 0);
+  const next = { ...holdings };
+  assets.forEach((k, i) => {
+    next[k] -= totalExcess > 0 ? amount * (excess[i] / totalExcess) : 0;
+  });
+  return next;
+}
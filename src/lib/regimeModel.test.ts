@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MARKET_DATA } from '../data/marketData';
+import { createRng } from './random';
+import { MODEL_ASSETS } from './returnModel';
+import { classifyYear, fitRegimeModel, normalizeRow, regimeWalker, withTransitions } from './regimeModel';
+import { defaultScenario, runScenario, summarizeRuns } from './scenario';
+
+// 2000–2009: a bull run, a bear year, a three-year stagflation spell, then bull again
+const years = Array.from({ length: 10 }, (_, i) => 2000 + i);
+const spy = [10, 12, 8, -20, 5, 0, -5, 15, 20, 9];
+const infl = [2, 2, 3, 2, 7, 9, 6, 3, 2, 2];
+const data = {
+  sp500: years.map((year, i) => ({ year, returnPct: spy[i] })),
+  nasdaq100: years.map((year, i) => ({ year, returnPct: spy[i] * 1.5 })),
+  bonds: years.map(year => ({ year, returnPct: 4 })),
+  bitcoin: [],
+  inflation: years.map((year, i) => ({ year, inflationPct: infl[i] })),
+};
+
+describe('classifyYear', () => {
+  it('puts high inflation ahead of falling stocks', () => {
+    expect(classifyYear(0.1, 0.02)).toBe('bull');
+    expect(classifyYear(-0.1, 0.02)).toBe('bear');
+    expect(classifyYear(-0.1, 0.08)).toBe('stagflation');
+  });
+});
+
+describe('fitRegimeModel', () => {
+  const model = fitRegimeModel(data);
+
+  it('splits history into states and fits each one', () => {
+    expect(model.years).toEqual({ bull: [2000, 2001, 2002, 2007, 2008, 2009], bear: [2003], stagflation: [2004, 2005, 2006] });
+    expect(model.initial).toEqual([0.6, 0.1, 0.3]);
+    expect(model.states.stagflation.means.inflation).toBeCloseTo(0.07333);
+    expect(model.states.bull.means.spy).toBeCloseTo(0.12333);
+    // One bear year is too few, so the bear state borrows the overall figures
+    expect(model.states.bear.means.spy).toBeCloseTo(0.054);
+  });
+
+  it('estimates transitions from consecutive years', () => {
+    expect(model.transitions[0]).toEqual([0.8, 0.2, 0]); // bull: 4 of 5 moves stay bull
+    expect(model.transitions[1]).toEqual([0, 0, 1]);
+    expect(model.transitions[2].map(p => Math.round(p * 100))).toEqual([33, 0, 67]);
+  });
+
+  it('takes edited transition weights, rescaling each row', () => {
+    const edited = withTransitions(model, [[1, 1, 2], [0, 0, 0], [0, 0, 0.5]]);
+    expect(edited.transitions).toEqual([[0.25, 0.25, 0.5], [0, 1, 0], [0, 0, 1]]);
+    expect(normalizeRow([0, 0, 0], 2)).toEqual([0, 0, 1]);
+  });
+});
+
+describe('regimeWalker', () => {
+  const model = fitRegimeModel(DEFAULT_MARKET_DATA);
+
+  it('follows the transition matrix', () => {
+    const { regimes } = regimeWalker(model)(20_000, createRng(3));
+    const fromBull = regimes.slice(0, -1).map((r, i) => [r, regimes[i + 1]]).filter(([r]) => r === 'bull');
+    const stayed = fromBull.filter(([, next]) => next === 'bull').length / fromBull.length;
+    expect(stayed).toBeCloseTo(model.transitions[0][0], 1);
+  });
+
+  it('stays in an absorbing state and draws from its distribution', () => {
+    const stuck = { ...withTransitions(model, [[0, 0, 1], [0, 0, 1], [0, 0, 1]]), initial: [0, 0, 1] };
+    const { years: draws, regimes } = regimeWalker(stuck)(5_000, createRng(4));
+    expect(new Set(regimes)).toEqual(new Set(['stagflation']));
+    const inflation = draws.map(d => d[MODEL_ASSETS.indexOf('inflation')] - 1);
+    expect(inflation.reduce((s, x) => s + x, 0) / inflation.length).toBeCloseTo(model.states.stagflation.means.inflation, 2);
+  });
+});
+
+describe('regime-switching scenarios', () => {
+  const scenario = { ...defaultScenario(2000), mode: 'regime-switching' as const, numRuns: 200, seed: 6 };
+
+  it('lowers success when stagflation spells last longer', () => {
+    const { transitions } = fitRegimeModel(DEFAULT_MARKET_DATA);
+    const sticky = transitions.map((row, i) => (i === 2 ? [0.05, 0, 0.95] : row));
+    const base = summarizeRuns(runScenario('portfolio', scenario, DEFAULT_MARKET_DATA));
+    const stressed = summarizeRuns(runScenario('portfolio', { ...scenario, regimeTransitions: sticky }, DEFAULT_MARKET_DATA));
+    expect(base.runs).toBe(200);
+    expect(stressed.successRate).toBeLessThan(base.successRate);
+  });
+});
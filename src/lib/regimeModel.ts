@@ -0,0 +1,124 @@
+import type { SimulationMode } from "./simulation";
+import type { Rng } from "./random";
+import { MODEL_ASSETS, fitReturnModel, isParametricMode, modelSampler, modelSeries, type ModelData, type ParametricMode, type PathGenerator, type ReturnModel } from "./returnModel";
+
+export const REGIMES = ["bull", "bear", "stagflation"] as const;
+export type Regime = (typeof REGIMES)[number];
+
+export const STAGFLATION_INFLATION = 0.05; // years with at least 5% inflation count as stagflation, whatever stocks did
+const MIN_STATE_YEARS = 3; // fewer observations than this and a state borrows the asset's overall mean and volatility
+
+// Bear: the S&P 500 lost money. Stagflation takes precedence, since high inflation is what sets those decades apart.
+export function classifyYear(spyReturn: number, inflation: number): Regime {
+  if (inflation >= STAGFLATION_INFLATION) return "stagflation";
+  return spyReturn < 0 ? "bear" : "bull";
+}
+
+/**
+ * Markov regime-switching model. Each state has its own return model; every
+ * year the market moves to the next state with the probabilities in its row
+ * of `transitions` (REGIMES order).
+ */
+export interface RegimeModel {
+  states: Record<Regime, ReturnModel>;
+  transitions: number[][];
+  initial: number[]; // share of history in each state, used for the first year
+  years: Record<Regime, number[]>; // the historical years behind each state
+}
+
+export function fitRegimeModel(data: ModelData): RegimeModel {
+  const inflationByYear = new Map(data.inflation.map(d => [d.year, d.inflationPct / 100]));
+  const regimeByYear = new Map<number, Regime>();
+  for (const d of data.sp500) {
+    const inflation = inflationByYear.get(d.year);
+    if (inflation !== undefined) regimeByYear.set(d.year, classifyYear(d.returnPct / 100, inflation));
+  }
+
+  const overall = fitReturnModel(data);
+  const years = {} as Record<Regime, number[]>;
+  const states = {} as Record<Regime, ReturnModel>;
+  for (const regime of REGIMES) {
+    years[regime] = [...regimeByYear].filter(([, r]) => r === regime).map(([y]) => y).sort((a, b) => a - b);
+    const inState = new Set(years[regime]);
+    const only = <T extends { year: number }>(series: T[] | undefined) => (series ?? []).filter(d => inState.has(d.year));
+    const subset: ModelData = {
+      sp500: only(data.sp500), nasdaq100: only(data.nasdaq100), intl: only(data.intl), smallValue: only(data.smallValue),
+      reits: only(data.reits), gold: only(data.gold), bitcoin: only(data.bitcoin), tips: only(data.tips), bonds: only(data.bonds),
+      inflation: only(data.inflation),
+    };
+    const fitted = fitReturnModel(subset);
+    MODEL_ASSETS.forEach(asset => {
+      if (modelSeries(subset, asset).size < MIN_STATE_YEARS) {
+        fitted.means[asset] = overall.means[asset];
+        fitted.vols[asset] = overall.vols[asset];
+      }
+    });
+    states[regime] = fitted;
+  }
+
+  // Count moves between consecutive years; a state never left stays put
+  const counts = REGIMES.map(() => REGIMES.map(() => 0));
+  for (const [year, regime] of regimeByYear) {
+    const next = regimeByYear.get(year + 1);
+    if (next) counts[REGIMES.indexOf(regime)][REGIMES.indexOf(next)]++;
+  }
+  const transitions = counts.map((row, i) => normalizeRow(row, i));
+  const total = regimeByYear.size;
+  const initial = REGIMES.map(r => (total > 0 ? years[r].length / total : 1 / REGIMES.length));
+  return { states, transitions, initial, years };
+}
+
+// Scales a row of transition weights to probabilities; an all-zero row stays in state `index`.
+export function normalizeRow(row: number[], index: number): number[] {
+  const sum = row.reduce((s, p) => s + Math.max(0, p), 0);
+  return sum > 0 ? row.map(p => Math.max(0, p) / sum) : row.map((_, j) => (j === index ? 1 : 0));
+}
+
+// User-edited transition weights replace the estimate; rows are normalized so they need not add up exactly.
+export function withTransitions(model: RegimeModel, transitions: number[][] | null | undefined): RegimeModel {
+  if (!transitions) return model;
+  return { ...model, transitions: transitions.map((row, i) => normalizeRow(row, i)) };
+}
+
+function pick(probabilities: number[], rng: Rng): number {
+  let u = rng();
+  for (let i = 0; i < probabilities.length; i++) {
+    u -= probabilities[i];
+    if (u < 0) return i;
+  }
+  return probabilities.length - 1;
+}
+
+/**
+ * Walks the Markov chain for `count` years and samples each year from its
+ * state's lognormal model, as multipliers in MODEL_ASSETS order. Also returns
+ * the state of every year.
+ */
+export function regimeWalker(model: RegimeModel): (count: number, rng: Rng) => { years: number[][]; regimes: Regime[] } {
+  const samplers = REGIMES.map(r => modelSampler(model.states[r], "parametric-lognormal"));
+  return (count, rng) => {
+    const years: number[][] = [];
+    const regimes: Regime[] = [];
+    let state = pick(model.initial, rng);
+    for (let t = 0; t < count; t++) {
+      regimes.push(REGIMES[state]);
+      years.push(samplers[state](rng));
+      state = pick(model.transitions[state], rng);
+    }
+    return { years, regimes };
+  };
+}
+
+export type SyntheticMode = ParametricMode | "regime-switching";
+
+export const isSyntheticMode = (mode: SimulationMode): mode is SyntheticMode => isParametricMode(mode) || mode === "regime-switching";
+
+// The generator behind a mode that makes up its own years instead of sampling history.
+export function pathGenerator(mode: SyntheticMode, returnModel: ReturnModel, regimeModel: RegimeModel): PathGenerator {
+  if (mode === "regime-switching") {
+    const walk = regimeWalker(regimeModel);
+    return (count, rng) => walk(count, rng).years;
+  }
+  const sample = modelSampler(returnModel, mode);
+  return (count, rng) => Array.from({ length: count }, () => sample(rng));
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MARKET_DATA } from '../data/marketData';
+import { createRng } from './random';
+import { runIndexSimulation } from './indexSimulation';
+import {
+  MODEL_ASSETS, SYNTHETIC_YEAR_BASE, applyOverrides, cholesky, correlationFactor, drawModelYears, fitReturnModel, syntheticYears,
+  type ReturnModel,
+} from './returnModel';
+
+const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+function stdev(xs: number[]) {
+  const m = mean(xs);
+  return Math.sqrt(mean(xs.map(x => (x - m) ** 2)));
+}
+function corr(xs: number[], ys: number[]) {
+  const [mx, my] = [mean(xs), mean(ys)];
+  return mean(xs.map((x, i) => (x - mx) * (ys[i] - my))) / (stdev(xs) * stdev(ys));
+}
+
+const model: ReturnModel = {
+  means: { spy: 0.08, qqq: 0.1, bonds: 0.04, bitcoin: 0.3, intl: 0.07, smallValue: 0.1, reits: 0.09, gold: 0.05, tips: 0.03, inflation: 0.03 },
+  vols: { spy: 0.16, qqq: 0.22, bonds: 0.06, bitcoin: 0.6, intl: 0.18, smallValue: 0.2, reits: 0.2, gold: 0.15, tips: 0.05, inflation: 0.02 },
+  correlations: [
+    [1, 0.8, 0.1, 0.3, 0, 0, 0, 0, 0, 0],
+    [0.8, 1, 0, 0.3, 0, 0, 0, 0, 0, 0],
+    [0.1, 0, 1, 0, 0, 0, 0, 0, 0, -0.2],
+    [0.3, 0.3, 0, 1, 0, 0, 0, 0, 0, 0],
+    [0, 0, 0, 0, 1, 0, 0, 0, 0, 0],
+    [0, 0, 0, 0, 0, 1, 0, 0, 0, 0],
+    [0, 0, 0, 0, 0, 0, 1, 0, 0, 0],
+    [0, 0, 0, 0, 0, 0, 0, 1, 0, 0],
+    [0, 0, 0, 0, 0, 0, 0, 0, 1, 0],
+    [0, 0, -0.2, 0, 0, 0, 0, 0, 0, 1],
+  ],
+  degreesOfFreedom: 5,
+};
+
+describe('fitReturnModel', () => {
+  const years = [2000, 2001, 2002, 2003];
+  const data = {
+    sp500: years.map((year, i) => ({ year, returnPct: [10, -10, 20, 0][i] })),
+    nasdaq100: years.map((year, i) => ({ year, returnPct: [20, -20, 40, 0][i] })),
+    bonds: years.map((year, i) => ({ year, returnPct: [0, 10, -10, 4][i] })),
+    bitcoin: [{ year: 2003, returnPct: 100 }],
+    inflation: years.map(year => ({ year, inflationPct: 3 })),
+  };
+
+  it('fits means, volatilities and pairwise correlations', () => {
+    const fitted = fitReturnModel(data);
+    expect(fitted.means.spy).toBeCloseTo(0.05);
+    expect(fitted.means.bitcoin).toBeCloseTo(1);
+    expect(fitted.vols.qqq).toBeCloseTo(2 * fitted.vols.spy);
+    expect(fitted.vols.inflation).toBe(0);
+    const [spy, qqq] = [MODEL_ASSETS.indexOf('spy'), MODEL_ASSETS.indexOf('qqq')];
+    expect(fitted.correlations[spy][qqq]).toBeCloseTo(1);
+    // Too little overlap, or no variation, counts as uncorrelated
+    expect(fitted.correlations[spy][MODEL_ASSETS.indexOf('bitcoin')]).toBe(0);
+    expect(fitted.correlations[spy][MODEL_ASSETS.indexOf('inflation')]).toBe(0);
+  });
+
+  it('applies overrides on top of the fit', () => {
+    const fitted = fitReturnModel(data);
+    const edited = applyOverrides(fitted, { means: { spy: 0.03 }, degreesOfFreedom: 8 });
+    expect(edited.means).toEqual({ ...fitted.means, spy: 0.03 });
+    expect(edited.vols).toEqual(fitted.vols);
+    expect(edited.degreesOfFreedom).toBe(8);
+  });
+});
+
+describe('correlationFactor', () => {
+  it('factors a positive definite matrix exactly', () => {
+    const lower = cholesky(model.correlations)!;
+    const product = lower.map(row => lower.map(other => row.reduce((s, v, k) => s + v * other[k], 0)));
+    product.forEach((row, i) => row.forEach((v, j) => expect(v).toBeCloseTo(model.correlations[i][j])));
+  });
+
+  it('shrinks an inconsistent matrix until it factors', () => {
+    const inconsistent = [[1, 0.9, 0.9], [0.9, 1, -0.9], [0.9, -0.9, 1]];
+    expect(cholesky(inconsistent)).toBeNull();
+    const lower = correlationFactor(inconsistent);
+    expect(lower.every(row => row.every(Number.isFinite))).toBe(true);
+  });
+});
+
+describe('drawModelYears', () => {
+  const column = (draws: number[][], asset: (typeof MODEL_ASSETS)[number]) => draws.map(d => d[MODEL_ASSETS.indexOf(asset)] - 1);
+
+  it.each(['parametric-normal', 'parametric-lognormal', 'parametric-t'] as const)('matches the model means, volatilities and correlations in %s mode', mode => {
+    const draws = drawModelYears(model, mode, 20_000, createRng(5));
+    expect(mean(column(draws, 'spy'))).toBeCloseTo(0.08, 2);
+    expect(stdev(column(draws, 'spy'))).toBeCloseTo(0.16, 1);
+    expect(mean(column(draws, 'inflation'))).toBeCloseTo(0.03, 2);
+    expect(corr(column(draws, 'spy'), column(draws, 'qqq'))).toBeCloseTo(0.8, 1);
+    expect(draws.every(d => d.every(m => m >= 0))).toBe(true);
+  });
+
+  it('gives the Student-t model fatter tails than the normal one', () => {
+    const extremes = (mode: 'parametric-normal' | 'parametric-t') =>
+      column(drawModelYears(model, mode, 20_000, createRng(9)), 'spy').filter(r => Math.abs(r - 0.08) > 3 * 0.16).length;
+    expect(extremes('parametric-t')).toBeGreaterThan(extremes('parametric-normal') * 1.5);
+  });
+
+  it('is reproducible for a seed', () => {
+    expect(drawModelYears(model, 'parametric-normal', 5, createRng(1))).toEqual(drawModelYears(model, 'parametric-normal', 5, createRng(1)));
+  });
+});
+
+describe('syntheticYears', () => {
+  const returnsByYear = new Map([
+    [2000, { spy: 1.1, qqq: 1.2, bitcoin: 1, bonds: 1.02, cash: 1.01 }],
+    [2001, { spy: 0.9, qqq: 0.8, bitcoin: 1, bonds: 1.04, cash: 1.03 }],
+  ]);
+  const inflationByYear = new Map([[2000, 0.02], [2001, 0.03]]);
+
+  it('adds one synthetic year per run and year next to the history', () => {
+    const result = syntheticYears((n, rng) => drawModelYears(model, 'parametric-normal', n, rng), 3, 2, 4, returnsByYear, inflationByYear, false);
+    expect(result.yearSamples).toEqual([
+      [SYNTHETIC_YEAR_BASE, SYNTHETIC_YEAR_BASE + 1, SYNTHETIC_YEAR_BASE + 2],
+      [SYNTHETIC_YEAR_BASE + 3, SYNTHETIC_YEAR_BASE + 4, SYNTHETIC_YEAR_BASE + 5],
+    ]);
+    expect(result.returnsByYear.get(2000)).toEqual(returnsByYear.get(2000));
+    expect(returnsByYear.size).toBe(2);
+    const drawn = result.returnsByYear.get(SYNTHETIC_YEAR_BASE + 4)!;
+    expect(drawn.bitcoin).toBe(1); // not held
+    expect(drawn.cash).toBeCloseTo(1.02);
+    expect(result.inflationByYear!.has(SYNTHETIC_YEAR_BASE + 5)).toBe(true);
+  });
+
+  it('gives assets outside the model their historical average', () => {
+    const withCustom = new Map([...returnsByYear].map(([year, r], i) => [year, { ...r, 'custom-1': [1.2, 1.0][i] }]));
+    const result = syntheticYears((n, rng) => drawModelYears(model, 'parametric-normal', n, rng), 2, 1, 4, withCustom, undefined, false);
+    expect(result.returnsByYear.get(SYNTHETIC_YEAR_BASE)!['custom-1']).toBeCloseTo(1.1);
+  });
+
+  it('leaves inflation alone when the fixed rate is in use', () => {
+    expect(syntheticYears((n, rng) => drawModelYears(model, 'parametric-t', n, rng), 3, 2, 4, returnsByYear, undefined, true).inflationByYear).toBeUndefined();
+  });
+});
+
+describe('parametric index simulation', () => {
+  const settings = {
+    startBalance: 1_000_000, horizon: 30, withdrawRate: 4, inflationAdjust: true, inflationRate: 0.02,
+    useHistoricalInflation: true, numRuns: 300, seed: 2, startYear: 1990,
+  };
+  const fitted = fitReturnModel(DEFAULT_MARKET_DATA);
+  const run = (m: ReturnModel) => runIndexSimulation(DEFAULT_MARKET_DATA.sp500, DEFAULT_MARKET_DATA.inflation, {
+    ...settings, mode: 'parametric-lognormal', synthetic: { generate: (n, rng) => drawModelYears(m, 'parametric-lognormal', n, rng), asset: 'spy' },
+  });
+  const successRate = (runs: ReturnType<typeof run>) => runs.filter(r => r.failedYear === null).length / runs.length;
+
+  it('runs the requested number of synthetic paths', () => {
+    const runs = run(fitted);
+    expect(runs).toHaveLength(300);
+    expect(runs[0].balances).toHaveLength(31);
+  });
+
+  it('lowers success when expected equity returns are haircut', () => {
+    const haircut = applyOverrides(fitted, { means: { spy: fitted.means.spy - 0.04 } });
+    expect(successRate(run(haircut))).toBeLessThan(successRate(run(fitted)));
+  });
+});
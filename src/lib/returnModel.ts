@@ -0,0 +1,219 @@
+import type { SimulationMode } from "./simulation";
+import type { YearReturnTable } from "./simulationJob";
+import { rngFromSeed, type Rng } from "./random";
+import type { MarketData } from "../data/marketData";
+import { assetReturns } from "./assets";
+
+// Every asset with a return series (by asset id), then inflation.
+export const MODEL_ASSETS = ["spy", "qqq", "bonds", "bitcoin", "intl", "smallValue", "reits", "gold", "tips", "inflation"] as const;
+export type ModelAsset = (typeof MODEL_ASSETS)[number];
+
+// The series a model is fitted to. Asset series missing from the data have no history, like Bitcoin before 2011.
+export type ModelData = Pick<MarketData, "sp500" | "nasdaq100" | "bonds" | "bitcoin" | "inflation"> & Partial<MarketData>;
+
+export type ParametricMode = Extract<SimulationMode, "parametric-normal" | "parametric-lognormal" | "parametric-t">;
+
+export const isParametricMode = (mode: SimulationMode): mode is ParametricMode => mode.startsWith("parametric-");
+
+/**
+ * Annual return model: arithmetic means and volatilities (fractions, so 0.1
+ * is 10%) plus the correlation matrix, in MODEL_ASSETS order. Inflation is
+ * modelled alongside the assets so real returns keep their historical link.
+ */
+export interface ReturnModel {
+  means: Record<ModelAsset, number>;
+  vols: Record<ModelAsset, number>;
+  correlations: number[][];
+  degreesOfFreedom: number; // Student-t only; lower means fatter tails
+}
+
+// User edits on top of the fitted model, e.g. a haircut to the equity means. Missing entries keep the fitted value.
+export interface ReturnModelOverrides {
+  means?: Partial<Record<ModelAsset, number>>;
+  vols?: Partial<Record<ModelAsset, number>>;
+  degreesOfFreedom?: number;
+}
+
+export const DEFAULT_DEGREES_OF_FREEDOM = 5;
+const MIN_DEGREES_OF_FREEDOM = 3; // the t variance is only finite above 2
+const MIN_OVERLAP = 3; // years two series must share before their correlation counts
+
+// Synthetic years get ids from here up, far past any calendar year, so they can sit in the same tables as history.
+export const SYNTHETIC_YEAR_BASE = 100_000;
+
+const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+
+function stdev(xs: number[]): number {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((s, x) => s + (x - m) ** 2, 0) / (xs.length - 1));
+}
+
+function correlation(a: Map<number, number>, b: Map<number, number>): number {
+  const shared = [...a.keys()].filter(y => b.has(y));
+  if (shared.length < MIN_OVERLAP) return 0;
+  const xs = shared.map(y => a.get(y)!);
+  const ys = shared.map(y => b.get(y)!);
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0, sxx = 0, syy = 0;
+  for (let i = 0; i < shared.length; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+}
+
+/**
+ * Fits the model to the Data tab series. Each mean and volatility uses that
+ * series' full history; each correlation uses the years the pair shares, so
+ * Bitcoin's short record only shapes the pairs it is part of.
+ */
+export function fitReturnModel(data: ModelData): ReturnModel {
+  const series = Object.fromEntries(MODEL_ASSETS.map(asset => [asset, modelSeries(data, asset)])) as Record<ModelAsset, Map<number, number>>;
+  const values = (asset: ModelAsset) => [...series[asset].values()];
+  const means = {} as Record<ModelAsset, number>;
+  const vols = {} as Record<ModelAsset, number>;
+  for (const asset of MODEL_ASSETS) {
+    const xs = values(asset);
+    means[asset] = xs.length > 0 ? mean(xs) : 0;
+    vols[asset] = stdev(xs);
+  }
+  const correlations = MODEL_ASSETS.map((a, i) =>
+    MODEL_ASSETS.map((b, j) => (i === j ? 1 : correlation(series[a], series[b]))));
+  return { means, vols, correlations, degreesOfFreedom: DEFAULT_DEGREES_OF_FREEDOM };
+}
+
+// One model asset's history as fractions by year (0.07 for +7%).
+export function modelSeries(data: ModelData, asset: ModelAsset): Map<number, number> {
+  if (asset === "inflation") return new Map(data.inflation.map(d => [d.year, d.inflationPct / 100]));
+  return new Map(assetReturns(data, asset).map(d => [d.year, d.returnPct / 100]));
+}
+
+export function applyOverrides(model: ReturnModel, overrides: ReturnModelOverrides | undefined): ReturnModel {
+  if (!overrides) return model;
+  return {
+    means: { ...model.means, ...overrides.means },
+    vols: { ...model.vols, ...overrides.vols },
+    correlations: model.correlations,
+    degreesOfFreedom: overrides.degreesOfFreedom ?? model.degreesOfFreedom,
+  };
+}
+
+// Lower-triangular L with L·Lᵀ = matrix, or null when the matrix is not positive definite.
+export function cholesky(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      if (i === j) {
+        if (sum <= 1e-12) return null;
+        lower[i][i] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+  return lower;
+}
+
+/**
+ * Cholesky factor of a correlation matrix. Pairwise correlations over
+ * different year ranges can be mutually inconsistent, so the off-diagonal
+ * terms shrink toward zero until the matrix factors.
+ */
+export function correlationFactor(correlations: number[][]): number[][] {
+  for (let shrink = 1; shrink > 0; shrink -= 0.05) {
+    const factor = cholesky(correlations.map((row, i) => row.map((c, j) => (i === j ? 1 : c * shrink))));
+    if (factor) return factor;
+  }
+  return correlations.map((row, i) => row.map((_, j) => (i === j ? 1 : 0)));
+}
+
+// Standard normal draw (Box–Muller).
+export function normal(rng: Rng): number {
+  const u = 1 - rng(); // (0, 1], keeps the log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+/**
+ * Sampler for one year of correlated returns from the model, as multipliers
+ * (1.07 for +7%, never below 0) in MODEL_ASSETS order. The correlation
+ * factor is worked out once, up front.
+ * - normal: returns are jointly normal with the model's means and volatilities.
+ * - lognormal: log(1 + return) is jointly normal, matched to the same mean and volatility.
+ * - t: the normal model with a shared Student-t shock, scaled to the same volatility, so crashes are larger and arrive together.
+ */
+export function modelSampler(model: ReturnModel, mode: ParametricMode): (rng: Rng) => number[] {
+  const factor = correlationFactor(model.correlations);
+  const n = MODEL_ASSETS.length;
+  const mu = MODEL_ASSETS.map(a => model.means[a]);
+  const sigma = MODEL_ASSETS.map(a => Math.max(0, model.vols[a]));
+  // Log-space parameters for the lognormal model
+  const logSigma = mu.map((m, i) => Math.sqrt(Math.log(1 + (sigma[i] / Math.max(1e-9, 1 + m)) ** 2)));
+  const logMu = mu.map((m, i) => Math.log(Math.max(1e-9, 1 + m)) - logSigma[i] ** 2 / 2);
+  const dof = Math.max(MIN_DEGREES_OF_FREEDOM, Math.round(model.degreesOfFreedom));
+
+  return rng => {
+    const z = Array.from({ length: n }, () => normal(rng));
+    const shocks = factor.map(row => row.reduce((s, l, k) => s + l * z[k], 0));
+    let scale = 1;
+    if (mode === "parametric-t") {
+      let chiSquare = 0;
+      for (let k = 0; k < dof; k++) chiSquare += normal(rng) ** 2;
+      scale = Math.sqrt((dof - 2) / chiSquare); // unit variance
+    }
+    return shocks.map((e, i) =>
+      mode === "parametric-lognormal"
+        ? Math.exp(logMu[i] + logSigma[i] * e)
+        : Math.max(0, 1 + mu[i] + sigma[i] * e * scale));
+  };
+}
+
+export function drawModelYears(model: ReturnModel, mode: ParametricMode, count: number, rng: Rng): number[][] {
+  const sample = modelSampler(model, mode);
+  return Array.from({ length: count }, () => sample(rng));
+}
+
+// Draws `count` synthetic years, as multipliers in MODEL_ASSETS order.
+export type PathGenerator = (count: number, rng: Rng) => number[][];
+
+/**
+ * Generated history for a parametric or regime-switching portfolio run: each
+ * run gets its own synthetic years, added to copies of the historical tables
+ * so every chart and rule that reads by year keeps working. Cash and custom
+ * assets have no model and earn their average over the historical years.
+ */
+export function syntheticYears(
+  generate: PathGenerator,
+  horizon: number,
+  numRuns: number,
+  seed: number | "",
+  returnsByYear: YearReturnTable,
+  inflationByYear: Map<number, number> | undefined,
+  holdsBitcoin: boolean,
+): { yearSamples: number[][]; returnsByYear: YearReturnTable; inflationByYear: Map<number, number> | undefined } {
+  const rng = rngFromSeed(seed);
+  const history = [...returnsByYear.values()];
+  const modelled = new Set<string>(MODEL_ASSETS);
+  const unmodelled = Object.keys(history[0] ?? {}).filter(a => !modelled.has(a));
+  const averages = Object.fromEntries(unmodelled.map(a => [a, mean(history.map(r => r[a] ?? 1))]));
+  const table: YearReturnTable = new Map(returnsByYear);
+  const inflation = inflationByYear ? new Map(inflationByYear) : undefined;
+  const yearSamples = Array.from({ length: numRuns }, (_, run) =>
+    generate(horizon, rng).map((draw, y) => {
+      const id = SYNTHETIC_YEAR_BASE + run * horizon + y;
+      const returns: Record<string, number> = { cash: 1, ...averages };
+      MODEL_ASSETS.forEach((asset, i) => {
+        if (asset === "inflation") inflation?.set(id, draw[i] - 1);
+        else returns[asset] = draw[i];
+      });
+      if (!holdsBitcoin) returns.bitcoin = 1.0;
+      table.set(id, returns);
+      return id;
+    }));
+  return { yearSamples, returnsByYear: table, inflationByYear: inflation };
+}
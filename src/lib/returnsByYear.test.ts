@@ -1,48 +1,45 @@
 import { describe, it, expect } from 'vitest';
-import { SP500_TOTAL_RETURNS, NASDAQ100_TOTAL_RETURNS, BITCOIN_TOTAL_RETURNS } from '../data/returns';
-import { TEN_YEAR_TREASURY_TOTAL_RETURNS } from '../data/bonds';
-import { bitcoinReturnMultiplier } from './bitcoin';
+import { DEFAULT_MARKET_DATA } from '../data/marketData';
+import { DEFAULT_CASH_YIELD } from './cashYield';
+import { DEFAULT_BITCOIN_BACKFILL } from './bitcoin';
+import { buildReturnTable, historyLimit, portfolioYears, recordedYears } from './simulationJob';
 
-const pctToMult = (pct: number) => 1 + pct / 100;
-
-function buildReturnsByYear(bitcoin: number) {
-  const spyReturnsMap = new Map(SP500_TOTAL_RETURNS.map(d => [d.year, pctToMult(d.returnPct)]));
-  const qqqReturnsMap = new Map(NASDAQ100_TOTAL_RETURNS.map(d => [d.year, pctToMult(d.returnPct)]));
-  const bondReturnsMap = new Map(TEN_YEAR_TREASURY_TOTAL_RETURNS.map(d => [d.year, pctToMult(d.returnPct)]));
-  const btcReturnsMap = new Map(BITCOIN_TOTAL_RETURNS.map(d => [d.year, pctToMult(d.returnPct)]));
-
-  const spyYears = new Set(SP500_TOTAL_RETURNS.map(d => d.year));
-  const qqqYears = new Set(NASDAQ100_TOTAL_RETURNS.map(d => d.year));
-  const bondYears = new Set(TEN_YEAR_TREASURY_TOTAL_RETURNS.map(d => d.year));
-  const years = Array.from(spyYears)
-    .filter(y => qqqYears.has(y) && bondYears.has(y))
-    .sort((a, b) => a - b);
-
-  const map = new Map<number, { spy: number; qqq: number; bitcoin: number; bonds: number }>();
-  for (const year of years) {
-    map.set(year, {
-      spy: spyReturnsMap.get(year)!,
-      qqq: qqqReturnsMap.get(year)!,
-      bitcoin: bitcoin > 0 ? (btcReturnsMap.get(year) ?? bitcoinReturnMultiplier(year)) : 1.0,
-      bonds: bondReturnsMap.get(year)!,
-    });
-  }
-  return { years, map };
-}
+const years = portfolioYears(DEFAULT_MARKET_DATA);
 
 describe('returnsByYear bitcoin handling', () => {
   it('includes years before bitcoin data when bitcoin is unused', () => {
-    const { years } = buildReturnsByYear(0);
     expect(years[0]).toBeLessThan(2011);
   });
 
-  it('fills missing bitcoin years using bitcoinReturnMultiplier when allocation is positive', () => {
-    const { map } = buildReturnsByYear(0.5);
-    expect(map.get(1992)!.bitcoin).toBeCloseTo(bitcoinReturnMultiplier(1992));
+  it('fills missing bitcoin years with the backfill method when allocation is positive', () => {
+    const map = buildReturnTable(DEFAULT_MARKET_DATA, years, true, { source: 'fixed', fixedPct: 3 });
+    expect(map.get(1992)!.bitcoin).toBeCloseTo(1.03);
+    const haircut = buildReturnTable(DEFAULT_MARKET_DATA, years, true, { source: 'fixed', fixedPct: 3 }, { ...DEFAULT_BITCOIN_BACKFILL, method: 'haircut' });
+    expect(haircut.get(2010)!.bitcoin).toBeGreaterThan(haircut.get(1992)!.bitcoin);
+    expect(haircut.get(2015)!.bitcoin).toBeCloseTo(1.35);
   });
 
   it('uses 1.0 for bitcoin returns when allocation is zero', () => {
-    const { map } = buildReturnsByYear(0);
+    const map = buildReturnTable(DEFAULT_MARKET_DATA, years, false, DEFAULT_CASH_YIELD);
     expect(map.get(1992)!.bitcoin).toBe(1.0);
   });
+
+  it('drops years without bitcoin data when they are excluded', () => {
+    expect(recordedYears(years, DEFAULT_MARKET_DATA, true)[0]).toBe(2011);
+    expect(recordedYears(years, DEFAULT_MARKET_DATA, false)).toEqual(years);
+  });
+});
+
+describe('asset classes with a shorter record', () => {
+  it('limits the portfolio years to the held asset that starts latest', () => {
+    expect(portfolioYears(DEFAULT_MARKET_DATA, ['spy', 'tips'])[0]).toBe(1998);
+    expect(historyLimit(DEFAULT_MARKET_DATA, ['spy', 'reits', 'tips'])).toEqual({ asset: 'TIPS', year: 1998 });
+    expect(historyLimit(DEFAULT_MARKET_DATA, ['spy', 'qqq'])).toBeNull();
+  });
+
+  it('gives every asset class a return each year', () => {
+    const map = buildReturnTable(DEFAULT_MARKET_DATA, [2008], false, DEFAULT_CASH_YIELD);
+    expect(map.get(2008)!.gold).toBeGreaterThan(1);
+    expect(map.get(2008)!.reits).toBeLessThan(1);
+  });
 });
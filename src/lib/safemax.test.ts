@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MARKET_DATA } from '../data/marketData';
+import { fitRateToCape, indexRatePaths, latestCape, pathEvaluator, solvePerfectRate, solveSafeMax, solveStartYears, summarizeSafeMax } from './safemax';
+
+const flatYears = (returnPct: number) => Array.from({ length: 40 }, (_, i) => ({ year: 1980 + i, returnPct }));
+const noInflation = flatYears(0).map(d => ({ year: d.year, inflationPct: 0 }));
+const settings = { startBalance: 1_000_000, horizon: 20, inflationAdjust: false, inflationRate: 0, useHistoricalInflation: false };
+
+describe('solveSafeMax', () => {
+  it('finds the rate that just lasts the horizon', () => {
+    // With flat returns the money runs out after 1 / rate years
+    const path = indexRatePaths(flatYears(0), noInflation, settings)(1980);
+    expect(solveSafeMax(path)).toBeCloseTo(0.05, 4);
+  });
+
+  it('never succeeds above a rate the history cannot support', () => {
+    const path = indexRatePaths(DEFAULT_MARKET_DATA.sp500, DEFAULT_MARKET_DATA.inflation, { ...settings, horizon: 30, inflationAdjust: true, useHistoricalInflation: true })(1966);
+    const safeMax = solveSafeMax(path);
+    expect(path(safeMax).failed).toBe(false);
+    expect(path(safeMax + 0.001).failed).toBe(true);
+  });
+});
+
+describe('solvePerfectRate', () => {
+  it('leaves the legacy target at the end of the horizon', () => {
+    const path = indexRatePaths(flatYears(0), noInflation, settings)(1980);
+    // Spending half the balance over 20 years leaves the other half
+    expect(solvePerfectRate(path, 500_000)).toBeCloseTo(0.025, 4);
+    expect(path(solvePerfectRate(path, 500_000)).endingBalance).toBeCloseTo(500_000, -3);
+  });
+
+  it('is zero when even no withdrawals miss the target', () => {
+    const path = indexRatePaths(flatYears(0), noInflation, settings)(1980);
+    expect(solvePerfectRate(path, 2_000_000)).toBe(0);
+  });
+});
+
+describe('summarizeSafeMax', () => {
+  it('reports the minimum, median and the estimate at the current CAPE', () => {
+    const rows = [
+      { startYear: 1, cape: 10, safeMax: 0.08, perfectRate: 0.07 },
+      { startYear: 2, cape: 20, safeMax: 0.05, perfectRate: 0.04 },
+      { startYear: 3, cape: 40, safeMax: 0.035, perfectRate: 0.03 },
+    ];
+    const fit = fitRateToCape(rows)!;
+    // Exactly linear in 1 / CAPE: rate = 0.02 + 0.6 / CAPE
+    expect(fit.intercept).toBeCloseTo(0.02);
+    expect(fit.slope).toBeCloseTo(0.6);
+    const summary = summarizeSafeMax(rows, 30);
+    expect(summary.min).toBe(0.035);
+    expect(summary.minYear).toBe(3);
+    expect(summary.median).toBe(0.05);
+    expect(summary.estimate).toBeCloseTo(0.04);
+  });
+
+  it('attaches starting CAPE to every solved start year', async () => {
+    const rows = await solveStartYears([1980, 1981], pathEvaluator(indexRatePaths(flatYears(0), noInflation, settings)), 0, { 1980: 12 });
+    expect(rows.map(r => r.cape)).toEqual([12, null]);
+    expect(latestCape({ 1999: 40, 2000: 35 })).toEqual({ year: 2000, cape: 35 });
+  });
+});
+
+describe('solveStartYears', () => {
+  const historical = { ...settings, horizon: 30, inflationAdjust: true, useHistoricalInflation: true };
+  const pathFor = indexRatePaths(DEFAULT_MARKET_DATA.sp500, DEFAULT_MARKET_DATA.inflation, historical);
+
+  it('matches solving each start year on its own', async () => {
+    const rows = await solveStartYears([1929, 1966, 1982], pathEvaluator(pathFor), 500_000, {});
+    for (const row of rows) {
+      expect(row.safeMax).toBe(solveSafeMax(pathFor(row.startYear)));
+      expect(row.perfectRate).toBe(solvePerfectRate(pathFor(row.startYear), 500_000));
+    }
+  });
+
+  it('evaluates every start year together in each step and reports progress', async () => {
+    const batches: number[] = [];
+    const progress: number[] = [];
+    const evaluate = pathEvaluator(pathFor);
+    await solveStartYears([1966, 1982], points => {
+      batches.push(points.length);
+      return evaluate(points);
+    }, 0, {}, p => progress.push(p));
+    expect(batches[0]).toBe(4);
+    expect(batches.length).toBeLessThanOrEqual(18);
+    expect(progress).toHaveLength(batches.length);
+    expect(progress[progress.length - 1]).toBeLessThanOrEqual(1);
+  });
+
+  it('stops once the signal aborts', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(solveStartYears([1966], pathEvaluator(pathFor), 0, {}, undefined, controller.signal)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,178 @@
+import { runIndexSimulation, type IndexSimulationSettings } from "./indexSimulation";
+import { percentile, type PortfolioRunResult } from "./simulation";
+import type { SimulationJob } from "./simulationJob";
+
+type RateOutcome = { endingBalance: number; failed: boolean };
+
+// Outcome of one start year when withdrawing `rate` of the starting balance, adjusted for inflation.
+export type RatePath = (rate: number) => RateOutcome;
+
+// Outcomes of a batch of start years, each at its own rate, in the order asked.
+export type RateEvaluator = (points: { startYear: number; rate: number }[], signal?: AbortSignal) => Promise<RateOutcome[]>;
+
+const MAX_RATE = 0.5;
+const TOLERANCE = 1e-5;
+// Both ends, then one step per halving down to the tolerance
+const SOLVE_STEPS = 2 + Math.ceil(Math.log2(MAX_RATE / TOLERANCE));
+
+// Largest rate in [0, MAX_RATE] for which `ok` holds, assuming it holds for every smaller rate.
+function bisect(ok: (rate: number) => boolean): number {
+  if (!ok(0)) return 0;
+  if (ok(MAX_RATE)) return MAX_RATE;
+  let lo = 0;
+  let hi = MAX_RATE;
+  while (hi - lo > TOLERANCE) {
+    const mid = (lo + hi) / 2;
+    if (ok(mid)) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// SAFEMAX: the highest initial withdrawal rate that lasts the whole horizon.
+export function solveSafeMax(path: RatePath): number {
+  return bisect(rate => !path(rate).failed);
+}
+
+// Perfect withdrawal rate: the initial rate that ends the horizon with exactly `legacy` left.
+export function solvePerfectRate(path: RatePath, legacy: number): number {
+  return bisect(rate => {
+    const { endingBalance, failed } = path(rate);
+    return !failed && endingBalance >= legacy;
+  });
+}
+
+export type StartYearRates = { startYear: number; cape: number | null; safeMax: number; perfectRate: number };
+
+/**
+ * SAFEMAX and perfect rate for every start year. The searches for every start
+ * year bisect in step, so each step is a single batch for `evaluate` and
+ * `onProgress` hears the share of steps done. Rejects once `signal` aborts.
+ */
+export async function solveStartYears(
+  startYears: number[],
+  evaluate: RateEvaluator,
+  legacy: number,
+  capeData: { [year: number]: number },
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal,
+): Promise<StartYearRates[]> {
+  type Search = { startYear: number; ok: (outcome: RateOutcome) => boolean; lo: number; hi: number; rate: number | null };
+  const searches: Search[] = startYears.flatMap(startYear => [
+    { startYear, ok: o => !o.failed, lo: 0, hi: MAX_RATE, rate: null },
+    { startYear, ok: o => !o.failed && o.endingBalance >= legacy, lo: 0, hi: MAX_RATE, rate: null },
+  ]);
+  let steps = 0;
+  const step = async (open: Search[], rateFor: (search: Search) => number) => {
+    const outcomes = await evaluate(open.map(search => ({ startYear: search.startYear, rate: rateFor(search) })), signal);
+    signal?.throwIfAborted();
+    onProgress?.(++steps / SOLVE_STEPS);
+    return outcomes;
+  };
+  const open = () => searches.filter(search => search.rate === null);
+
+  (await step(searches, () => 0)).forEach((outcome, i) => {
+    if (!searches[i].ok(outcome)) searches[i].rate = 0;
+  });
+  let pending = open();
+  (await step(pending, () => MAX_RATE)).forEach((outcome, i) => {
+    if (pending[i].ok(outcome)) pending[i].rate = MAX_RATE;
+  });
+  // Every open search started from the same bounds, so they all narrow together
+  pending = open();
+  while (pending.length > 0 && pending[0].hi - pending[0].lo > TOLERANCE) {
+    const outcomes = await step(pending, search => (search.lo + search.hi) / 2);
+    pending.forEach((search, i) => {
+      const mid = (search.lo + search.hi) / 2;
+      if (search.ok(outcomes[i])) search.lo = mid;
+      else search.hi = mid;
+    });
+  }
+  pending.forEach(search => { search.rate = search.lo; });
+
+  return startYears.map((startYear, i) => ({
+    startYear,
+    cape: capeData[startYear] ?? null,
+    safeMax: searches[2 * i].rate!,
+    perfectRate: searches[2 * i + 1].rate!,
+  }));
+}
+
+/**
+ * Minimum and median SAFEMAX, plus the rate a least-squares fit of SAFEMAX
+ * against the earnings yield (1 / CAPE) predicts at `currentCape`.
+ */
+export function summarizeSafeMax(rows: StartYearRates[], currentCape: number | null | undefined) {
+  const rates = rows.map(r => r.safeMax);
+  const worst = rows.reduce<StartYearRates | null>((min, r) => (min === null || r.safeMax < min.safeMax ? r : min), null);
+  const fit = fitRateToCape(rows);
+  return {
+    min: worst?.safeMax ?? NaN,
+    minYear: worst?.startYear ?? null,
+    median: percentile(rates, 0.5),
+    fit,
+    estimate: fit && currentCape ? fit.intercept + fit.slope / currentCape : null,
+  };
+}
+
+// Most recent CAPE reading, used as "today's" valuation.
+export function latestCape(capeData: { [year: number]: number }): { year: number; cape: number } | null {
+  const years = Object.keys(capeData).map(Number);
+  if (years.length === 0) return null;
+  const year = Math.max(...years);
+  return { year, cape: capeData[year] };
+}
+
+// Linear fit of SAFEMAX = intercept + slope / CAPE over the start years with CAPE data.
+export function fitRateToCape(rows: StartYearRates[]): { slope: number; intercept: number } | null {
+  const points = rows.filter(r => r.cape !== null && r.cape > 0).map(r => ({ x: 1 / r.cape!, y: r.safeMax }));
+  if (points.length < 2) return null;
+  const meanX = points.reduce((s, p) => s + p.x, 0) / points.length;
+  const meanY = points.reduce((s, p) => s + p.y, 0) / points.length;
+  const sxx = points.reduce((s, p) => s + (p.x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+  const slope = points.reduce((s, p) => s + (p.x - meanX) * (p.y - meanY), 0) / sxx;
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+// Rate paths for the S&P 500 and Nasdaq 100 tabs.
+export function indexRatePaths(
+  indexReturns: { year: number; returnPct: number }[],
+  inflation: { year: number; inflationPct: number }[],
+  settings: Omit<IndexSimulationSettings, "mode" | "startYear" | "numRuns" | "seed" | "withdrawRate">,
+): (startYear: number) => RatePath {
+  return startYear => rate => {
+    const [run] = runIndexSimulation(indexReturns, inflation, { ...settings, withdrawRate: rate * 100, mode: "actual-seq", startYear, numRuns: 1, seed: "" });
+    return { endingBalance: run.balances[run.balances.length - 1], failed: run.failedYear !== null };
+  };
+}
+
+// Runs rate paths one at a time on the calling thread, which is quick enough for a single index.
+export const pathEvaluator = (pathFor: (startYear: number) => RatePath): RateEvaluator =>
+  async points => points.map(({ startYear, rate }) => pathFor(startYear)(rate));
+
+/**
+ * Rate paths for a portfolio job, using the 4% rule's inflation-adjusted
+ * withdrawals in place of the job's rule. Each point is its own one-run job
+ * and `run` runs a batch of them, on the worker pool in the app.
+ */
+export function portfolioRateEvaluator(
+  job: SimulationJob,
+  run: (jobs: SimulationJob[], signal?: AbortSignal) => Promise<PortfolioRunResult[][]> | PortfolioRunResult[][],
+): RateEvaluator {
+  const { startBalance } = job.withdrawal.settings;
+  return async (points, signal) => {
+    const runs = await run(points.map(({ startYear, rate }) => ({
+      ...job,
+      yearSamples: [Array.from({ length: job.horizon }, (_, i) => startYear + i)],
+      inflationYearSamples: undefined, // history runs in step
+      bitcoinDraws: undefined,
+      withdrawal: {
+        ...job.withdrawal,
+        strategy: "fourPercentRule",
+        settings: { ...job.withdrawal.settings, initialWithdrawalAmount: rate * startBalance },
+      },
+    })), signal);
+    return runs.map(([result]) => ({ endingBalance: result.balances[job.horizon].total, failed: result.failedYear !== null }));
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MARKET_DATA } from '../data/marketData';
+import { defaultScenario, migrateScenario, runScenario, runsToCsv, summarizeRuns } from './scenario';
+import type { RunResult } from './simulation';
+import { completeStartYears } from './simulationJob';
+
+const scenario = { ...defaultScenario(2000), numRuns: 20, seed: 3, horizon: 10 };
+
+describe('runScenario', () => {
+  it('runs the index engine for the S&P 500 tab', () => {
+    const runs = runScenario('sp500', { ...scenario, mode: 'actual-seq', startYear: 2000 }, DEFAULT_MARKET_DATA);
+    expect(runs).toHaveLength(1);
+    expect(runs[0].balances).toHaveLength(11);
+    expect(runs[0].withdrawals[0]).toBe(40000);
+  });
+
+  it('runs the portfolio engine reproducibly for a seed', () => {
+    const a = runScenario('drawdown', scenario, DEFAULT_MARKET_DATA);
+    const b = runScenario('drawdown', scenario, DEFAULT_MARKET_DATA);
+    expect(a).toHaveLength(20);
+    expect(a).toEqual(b);
+  });
+
+  it('runs the portfolio engine on the parametric model', () => {
+    const parametric = { ...scenario, mode: 'parametric-t' as const };
+    const runs = runScenario('portfolio', parametric, DEFAULT_MARKET_DATA);
+    expect(runs).toHaveLength(20);
+    expect(runs).toEqual(runScenario('portfolio', parametric, DEFAULT_MARKET_DATA));
+    const haircut = runScenario('portfolio', { ...parametric, returnModelOverrides: { means: { spy: -0.05, qqq: -0.05 } } }, DEFAULT_MARKET_DATA);
+    expect(summarizeRuns(haircut).medianEndingBalance).toBeLessThan(summarizeRuns(runs).medianEndingBalance);
+  });
+
+  it('reports taxes and after-tax spending when taxes are enabled', () => {
+    const taxed = runScenario('drawdown', { ...scenario, taxes: { ...scenario.taxes, enabled: true, sourcingOrder: ['traditional' as const] } }, DEFAULT_MARKET_DATA);
+    const { taxes } = summarizeRuns(taxed);
+    expect(taxes?.medianLifetimeTaxes).toBeGreaterThan(0);
+    expect(taxes?.medianFirstYearAfterTax).toBeLessThan(40000);
+    expect(summarizeRuns(runScenario('drawdown', scenario, DEFAULT_MARKET_DATA)).taxes).toBeNull();
+    expect(runsToCsv(taxed).split('\n')[0]).toMatch(/^run,year,balance,withdrawal,tax,afterTaxWithdrawal,/);
+  });
+
+  it('conditions start years on the current CAPE among those with a full horizon after them', () => {
+    const runs = runScenario('sp500', { ...scenario, mode: 'cape-conditioned', currentCape: 20, inflationAdjust: false }, DEFAULT_MARKET_DATA);
+    const complete = new Set(completeStartYears(DEFAULT_MARKET_DATA.sp500.map(d => d.year), scenario.horizon));
+    const similar = Object.entries(DEFAULT_MARKET_DATA.cape)
+      .filter(([year, cape]) => complete.has(Number(year)) && Math.abs(Math.log(cape / 20)) <= Math.log(1.2))
+      .map(([year]) => Number(year));
+    expect(similar.length).toBeGreaterThanOrEqual(5);
+    const firstYearReturns = new Set(similar.map(y => 1 + DEFAULT_MARKET_DATA.sp500.find(d => d.year === y)!.returnPct / 100));
+    expect(runs.length).toBeGreaterThan(0);
+    for (const run of runs as RunResult[]) {
+      const mult = run.balances[1] / (run.balances[0] - run.withdrawals[0]);
+      expect([...firstYearReturns].some(m => Math.abs(m - mult) < 1e-9)).toBe(true);
+    }
+    expect(runScenario('sp500', { ...scenario, mode: 'cape-conditioned', horizon: 500 }, DEFAULT_MARKET_DATA)).toEqual([]);
+  });
+
+  it("runs nothing at today's high CAPE rather than conditioning on cheaper markets", () => {
+    const dear = { ...scenario, mode: 'cape-conditioned' as const, currentCape: 36, horizon: 30 };
+    expect(runScenario('sp500', dear, DEFAULT_MARKET_DATA)).toEqual([]);
+    expect(runScenario('portfolio', dear, DEFAULT_MARKET_DATA)).toEqual([]);
+  });
+
+  it('limits complete cohorts to the years with data for every held asset', () => {
+    const complete = { ...scenario, completeCohorts: true, horizon: 20 };
+    expect(runScenario('portfolio', complete, DEFAULT_MARKET_DATA)).toHaveLength(20);
+    const btcYears = DEFAULT_MARKET_DATA.bitcoin.length;
+    expect(runScenario('portfolio', { ...complete, holdings: { ...complete.holdings, spy: 350_000, bitcoin: 100_000 }, horizon: btcYears + 1 }, DEFAULT_MARKET_DATA)).toEqual([]);
+  });
+
+  it('uses overridden data series', () => {
+    const flat = DEFAULT_MARKET_DATA.sp500.map(d => ({ year: d.year, returnPct: 0 }));
+    const [run] = runScenario('sp500', { ...scenario, mode: 'actual-seq', inflationAdjust: false }, { ...DEFAULT_MARKET_DATA, sp500: flat });
+    expect(run.balances[10]).toBe(600000);
+  });
+});
+
+describe('summarizeRuns', () => {
+  it('reports success rate and ending balance percentiles', () => {
+    const summary = summarizeRuns([
+      { balances: [100, 50], withdrawals: [10], failedYear: null },
+      { balances: [100, 0], withdrawals: [10], failedYear: 1 },
+    ]);
+    expect(summary.runs).toBe(2);
+    expect(summary.successRate).toBe(0.5);
+    expect(summary.medianEndingBalance).toBe(25);
+  });
+});
+
+describe('runsToCsv', () => {
+  it('writes one row per run and year with asset columns for portfolio runs', () => {
+    const csv = runsToCsv([{
+      balances: [
+        { total: 100, cash: 10, spy: 90, qqq: 0, bitcoin: 0, bonds: 0 },
+        { total: 95, cash: 0, spy: 95, qqq: 0, bitcoin: 0, bonds: 0 },
+      ],
+      withdrawals: [10],
+      failedYear: null,
+      guardrailTriggers: [],
+      turnover: [0],
+    }]);
+    expect(csv.trim().split('\n')).toEqual([
+      'run,year,balance,withdrawal,cash,spy,qqq,bitcoin,bonds',
+      '1,0,100,10,10,90,0,0,0',
+      '1,1,95,,0,95,0,0,0',
+    ]);
+  });
+});
+
+describe('migrateScenario', () => {
+  it('folds the per-asset fields of older profiles into holdings', () => {
+    const migrated = migrateScenario({ cash: 10, spy: 20, qqq: 30, bitcoin: 0, bonds: 40, horizon: 25 });
+    expect(migrated).toEqual({ horizon: 25, holdings: { cash: 10, spy: 20, qqq: 30, bitcoin: 0, bonds: 40 } });
+    const current = { holdings: { cash: 5, gold: 5 } };
+    expect(migrateScenario(current)).toBe(current);
+  });
+});
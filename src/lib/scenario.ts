@@ -0,0 +1,232 @@
+import type { MarketData } from "../data/marketData";
+import { DEFAULT_CASH_REFILL, DEFAULT_THREE_BUCKET, type CashRefillOptions, type ThreeBucketOptions } from "./buckets";
+import { capeStartYears } from "./capeConditioning";
+import { DEFAULT_CASH_YIELD, type CashYieldOptions } from "./cashYield";
+import { DEFAULT_BITCOIN_BACKFILL, drawBitcoinBackfill, type BitcoinBackfillOptions } from "./bitcoin";
+import { DEFAULT_DRAWDOWN_STRATEGY, type DrawdownStrategy } from "./drawdown";
+import { runIndexSimulation } from "./indexSimulation";
+import { streamSeed } from "./random";
+import { DEFAULT_REBALANCE, type RebalanceOptions } from "./rebalancing";
+import { latestCape } from "./safemax";
+import { fitRegimeModel, isSyntheticMode, pathGenerator, withTransitions } from "./regimeModel";
+import { applyOverrides, fitReturnModel, syntheticYears, type ReturnModelOverrides } from "./returnModel";
+import { DEFAULT_BLOCK_LENGTH, calculateDrawdownStats, percentile, type AssetHoldings, type PortfolioRunResult, type RunResult, type SimulationMode } from "./simulation";
+import { assetsOf, heldAssets, holdingsTotal } from "./assets";
+import type { IncomeStream } from "./income";
+import type { CashFlowEvent } from "./cashFlows";
+import { DEFAULT_TAX_OPTIONS, taxSummary, type TaxOptions } from "./taxes";
+import { buildReturnTable, portfolioYears, recordedYears, runSimulationJob, sampleYears, startYearPool } from "./simulationJob";
+import { DEFAULT_WITHDRAWAL_RULE_PARAMS, type DrawdownStrategies, type WithdrawalRuleParams } from "./withdrawals";
+
+// The settings of one profile, as App stores them in localStorage under `profile_<name>`.
+export interface Scenario {
+  startBalance: number;
+  holdings: AssetHoldings; // portfolio amount per asset id, see ASSET_CLASSES
+  drawdownStrategy: DrawdownStrategy;
+  drawdownWithdrawalStrategy: DrawdownStrategies;
+  withdrawalRuleParams: WithdrawalRuleParams;
+  cashRefill: CashRefillOptions;
+  threeBucket: ThreeBucketOptions;
+  rebalance: RebalanceOptions;
+  cashYield: CashYieldOptions;
+  bitcoinBackfill: BitcoinBackfillOptions; // Bitcoin returns for years before its record
+  horizon: number;
+  startAge: number; // age in the first year of retirement
+  incomeStreams: IncomeStream[]; // Social Security, pensions and other income that pays part of the spending
+  cashFlows: CashFlowEvent[]; // one-off or recurring expenses and windfalls on top of the withdrawal
+  withdrawRate: number; // % of the starting balance
+  initialWithdrawalAmount: number;
+  isFirstWithdrawLocked: boolean;
+  inflationAdjust: boolean;
+  inflationRate: number;
+  useHistoricalInflation: boolean;
+  decorrelateInflation: boolean; // draw inflation years apart from the return years
+  completeCohorts: boolean; // random starts only where a full horizon of real data follows, so runs never wrap around
+  mode: SimulationMode;
+  numRuns: number;
+  seed: number | "";
+  blockLength: number; // years, for the block and stationary bootstrap
+  returnModelOverrides: ReturnModelOverrides; // edits to the fitted model of the parametric modes
+  currentCape: number | null; // valuation the CAPE-conditioned mode matches; null uses the latest CAPE on record
+  regimeTransitions: number[][] | null; // edited regime transition weights; null uses the estimate from history
+  taxes: TaxOptions; // account split, filing status and withdrawal sourcing, when taxes are modelled
+  startYear: number;
+}
+
+export function defaultScenario(startYear: number): Scenario {
+  return {
+    startBalance: 1_000_000,
+    holdings: { cash: 100_000, spy: 450_000, qqq: 450_000, bitcoin: 0, bonds: 0 },
+    drawdownStrategy: DEFAULT_DRAWDOWN_STRATEGY,
+    drawdownWithdrawalStrategy: "fourPercentRule",
+    withdrawalRuleParams: DEFAULT_WITHDRAWAL_RULE_PARAMS,
+    cashRefill: DEFAULT_CASH_REFILL,
+    threeBucket: DEFAULT_THREE_BUCKET,
+    rebalance: DEFAULT_REBALANCE,
+    cashYield: DEFAULT_CASH_YIELD,
+    bitcoinBackfill: DEFAULT_BITCOIN_BACKFILL,
+    horizon: 30,
+    startAge: 65,
+    incomeStreams: [],
+    cashFlows: [],
+    withdrawRate: 4,
+    initialWithdrawalAmount: Math.round(1_000_000 * (4 / 100)),
+    isFirstWithdrawLocked: false,
+    inflationAdjust: true,
+    inflationRate: 0.02,
+    useHistoricalInflation: true,
+    decorrelateInflation: false,
+    completeCohorts: false,
+    mode: "actual-seq-random-start",
+    numRuns: 1000,
+    seed: "",
+    blockLength: DEFAULT_BLOCK_LENGTH,
+    returnModelOverrides: {},
+    currentCape: null,
+    regimeTransitions: null,
+    taxes: DEFAULT_TAX_OPTIONS,
+    startYear,
+  };
+}
+
+const LEGACY_HOLDINGS = ["cash", "spy", "qqq", "bitcoin", "bonds"];
+
+/**
+ * A stored profile as a partial Scenario. Profiles saved before the
+ * portfolio could hold any asset class kept one field per asset (`cash`,
+ * `spy`, ...); those are folded into `holdings`.
+ */
+export function migrateScenario(stored: Record<string, unknown>): Partial<Scenario> {
+  if (stored.holdings || !LEGACY_HOLDINGS.some(k => typeof stored[k] === "number")) return stored as Partial<Scenario>;
+  const rest = Object.fromEntries(Object.entries(stored).filter(([k]) => !LEGACY_HOLDINGS.includes(k)));
+  const holdings = Object.fromEntries(LEGACY_HOLDINGS.map(k => [k, typeof stored[k] === "number" ? stored[k] : 0]));
+  return { ...rest, holdings } as Partial<Scenario>;
+}
+
+export type ScenarioTab = "sp500" | "nasdaq100" | "portfolio" | "drawdown";
+
+/**
+ * Runs the engine behind a tab for a scenario. The index tabs simulate
+ * `startBalance` in a single index; the portfolio and drawdown tabs simulate
+ * the allocation with the selected withdrawal rule and drawdown order.
+ */
+export function runScenario(tab: ScenarioTab, scenario: Scenario, data: MarketData): RunResult[] | PortfolioRunResult[] {
+  const currentCape = scenario.currentCape ?? latestCape(data.cape)?.cape;
+  const generate = isSyntheticMode(scenario.mode)
+    ? pathGenerator(
+      scenario.mode,
+      applyOverrides(fitReturnModel(data), scenario.returnModelOverrides),
+      withTransitions(fitRegimeModel(data), scenario.regimeTransitions),
+    )
+    : null;
+  if (tab === "sp500" || tab === "nasdaq100") {
+    const returns = tab === "sp500" ? data.sp500 : data.nasdaq100;
+    const synthetic = generate ? { generate, asset: tab === "sp500" ? "spy" as const : "qqq" as const } : undefined;
+    const startYears = scenario.mode === "cape-conditioned"
+      ? capeStartYears(returns.map(d => d.year).sort((a, b) => a - b), data.cape, currentCape, scenario.horizon)
+      : undefined;
+    return runIndexSimulation(returns, data.inflation, { ...scenario, synthetic, startYears });
+  }
+
+  const { holdings, horizon } = scenario;
+  const held = heldAssets(holdings);
+  const holdsBitcoin = held.includes("bitcoin");
+  const years = recordedYears(portfolioYears(data, held), data, holdsBitcoin && scenario.bitcoinBackfill.method === "exclude");
+  const returnsByYear = buildReturnTable(data, years, holdsBitcoin, scenario.cashYield, scenario.bitcoinBackfill);
+  const inflationByYear = scenario.useHistoricalInflation ? new Map(data.inflation.map(d => [d.year, d.inflationPct / 100])) : undefined;
+  const inflationYears = data.inflation.map(d => d.year).sort((a, b) => a - b);
+  const realYears = recordedYears(years, data, holdsBitcoin);
+  const startYears = startYearPool(
+    scenario.mode === "cape-conditioned" ? capeStartYears(years, data.cape, currentCape, horizon, realYears) : years,
+    horizon,
+    scenario.completeCohorts,
+    realYears,
+  );
+  const history = generate
+    ? syntheticYears(generate, horizon, scenario.numRuns, scenario.seed, returnsByYear, inflationByYear, holdsBitcoin)
+    : {
+      yearSamples: sampleYears(scenario.mode, years, horizon, scenario.numRuns, scenario.seed, scenario.startYear, scenario.blockLength, startYears),
+      returnsByYear,
+      inflationByYear,
+      inflationYearSamples: scenario.useHistoricalInflation && scenario.decorrelateInflation
+        ? sampleYears(scenario.mode, inflationYears, horizon, scenario.numRuns, streamSeed(scenario.seed, 1), scenario.startYear, scenario.blockLength, startYearPool(inflationYears, horizon, scenario.completeCohorts))
+        : undefined,
+    };
+  return runSimulationJob({
+    ...history,
+    bitcoinDraws: !generate && holdsBitcoin ? drawBitcoinBackfill(history.yearSamples, realYears, scenario.bitcoinBackfill, streamSeed(scenario.seed, 2)) : undefined,
+    initial: holdings,
+    horizon,
+    withdrawal: {
+      strategy: scenario.drawdownWithdrawalStrategy,
+      params: scenario.withdrawalRuleParams,
+      settings: {
+        startBalance: holdingsTotal(holdings),
+        initialWithdrawalAmount: scenario.initialWithdrawalAmount,
+        inflationAdjust: scenario.inflationAdjust,
+        inflationRate: scenario.inflationRate,
+        capeData: data.cape,
+      },
+    },
+    options: {
+      drawdownStrategy: scenario.drawdownStrategy,
+      cashRefill: scenario.cashRefill,
+      threeBucket: scenario.threeBucket,
+      rebalance: scenario.rebalance,
+      taxes: scenario.taxes,
+      startAge: scenario.startAge,
+      income: scenario.incomeStreams,
+      cashFlows: scenario.cashFlows,
+    },
+  });
+}
+
+const totalBalances = (run: RunResult | PortfolioRunResult): number[] =>
+  (run.balances as (number | { total: number })[]).map(b => (typeof b === "number" ? b : b.total));
+
+export function summarizeRuns(runs: RunResult[] | PortfolioRunResult[]) {
+  const totals = runs.map(run => ({ ...run, balances: totalBalances(run) }));
+  const endingBalances = totals.map(run => run.balances[run.balances.length - 1]);
+  return {
+    runs: runs.length,
+    successRate: runs.filter(run => run.failedYear === null).length / Math.max(1, runs.length),
+    medianEndingBalance: percentile(endingBalances, 0.5),
+    p10EndingBalance: percentile(endingBalances, 0.1),
+    p90EndingBalance: percentile(endingBalances, 0.9),
+    ...calculateDrawdownStats(totals),
+    taxes: "taxes" in (runs[0] ?? {}) ? taxSummary(runs as PortfolioRunResult[]) : null,
+  };
+}
+
+/**
+ * One CSV row per run and year. `withdrawal` is taken at the start of the
+ * year, so the final year-end row has none. Portfolio runs add a column per
+ * asset they hold, runs with income streams or cash-flow events what those
+ * paid or cost, and taxed runs the year's tax, after-tax spending and RMD.
+ */
+export function runsToCsv(runs: RunResult[] | PortfolioRunResult[]): string {
+  const isPortfolio = runs.length > 0 && typeof runs[0].balances[0] !== "number";
+  const assets = isPortfolio ? assetsOf((runs as PortfolioRunResult[])[0].balances[0]) : [];
+  const taxed = isPortfolio && (runs as PortfolioRunResult[])[0].taxes !== undefined;
+  const hasIncome = runs.length > 0 && runs[0].income !== undefined;
+  const hasCashFlows = runs.length > 0 && runs[0].cashFlows !== undefined;
+  const lines = [["run", "year", "balance", "withdrawal", ...(hasIncome ? ["income"] : []), ...(hasCashFlows ? ["cashFlow"] : []), ...(taxed ? ["tax", "afterTaxWithdrawal", "rmd"] : []), ...assets].join(",")];
+  runs.forEach((run, r) => {
+    const totals = totalBalances(run);
+    totals.forEach((total, y) => {
+      const row: (string | number)[] = [r + 1, y, total, run.withdrawals[y] ?? ""];
+      if (hasIncome) row.push(run.income?.[y] ?? "");
+      if (hasCashFlows) row.push(run.cashFlows?.[y] ?? "");
+      if (taxed) {
+        const { taxes, afterTaxWithdrawals, rmds } = run as PortfolioRunResult;
+        row.push(taxes?.[y] ?? "", afterTaxWithdrawals?.[y] ?? "", rmds?.[y] ?? "");
+      }
+      if (isPortfolio) {
+        const holdings = (run as PortfolioRunResult).balances[y];
+        row.push(...assets.map(a => holdings[a]));
+      }
+      lines.push(row.join(","));
+    });
+  });
+  return lines.join("\n") + "\n";
+}
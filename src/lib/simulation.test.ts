@@ -1,7 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { simulateFourPercentRuleRatchetUp, simulateGuytonKlinger, simulateCapeBased } from './simulation';
+import { simulatePortfolio, blockBootstrapSample, stationaryBootstrapSample } from './simulation';
+import { rngFromSeed } from './random';
 
-describe('simulateFourPercentRuleRatchetUp', () => {
+describe('4% rule with upward reset', () => {
   const initialSpy = 1000000;
   const horizon = 5;
   const initialWithdrawalAmount = 40000;
@@ -15,15 +16,11 @@ describe('simulateFourPercentRuleRatchetUp', () => {
   };
 
   it('should ratchet up withdrawal amount when balance increases', () => {
-    const result = simulateFourPercentRuleRatchetUp(
-      returns.up, returns.up, returns.up, returns.up,
-      0, initialSpy, 0, 0, 0,
+    const result = simulatePortfolio(
+      { spy: returns.up, qqq: returns.up, bitcoin: returns.up, bonds: returns.up },
+      { cash: 0, spy: initialSpy, qqq: 0, bitcoin: 0, bonds: 0 },
       horizon,
-      initialWithdrawalAmount,
-      withdrawalRate,
-      true, // inflationAdjust
-      inflationRate,
-      undefined
+      { strategy: 'fourPercentRuleUpwardReset', initialWithdrawalAmount, withdrawalRate, inflationAdjust: true, inflationRate }
     );
 
     // Year 0 withdrawal is 40000
@@ -38,15 +35,11 @@ describe('simulateFourPercentRuleRatchetUp', () => {
   });
 
   it('should only adjust for inflation when balance decreases', () => {
-    const result = simulateFourPercentRuleRatchetUp(
-      returns.down, returns.down, returns.down, returns.down,
-      0, initialSpy, 0, 0, 0,
+    const result = simulatePortfolio(
+      { spy: returns.down, qqq: returns.down, bitcoin: returns.down, bonds: returns.down },
+      { cash: 0, spy: initialSpy, qqq: 0, bitcoin: 0, bonds: 0 },
       horizon,
-      initialWithdrawalAmount,
-      withdrawalRate,
-      true, // inflationAdjust
-      inflationRate,
-      undefined
+      { strategy: 'fourPercentRuleUpwardReset', initialWithdrawalAmount, withdrawalRate, inflationAdjust: true, inflationRate }
     );
 
     // Year 0 withdrawal is 40000
@@ -61,15 +54,11 @@ describe('simulateFourPercentRuleRatchetUp', () => {
 
   it('should not reduce spending when ratchet-up amount is lower than inflation-adjusted amount', () => {
     const returnsForThisTest = [1.05, 1.0, 1.0, 1.0, 1.0];
-    const result = simulateFourPercentRuleRatchetUp(
-      returnsForThisTest, returnsForThisTest, returnsForThisTest, returnsForThisTest,
-      0, initialSpy, 0, 0, 0,
+    const result = simulatePortfolio(
+      { spy: returnsForThisTest, qqq: returnsForThisTest, bitcoin: returnsForThisTest, bonds: returnsForThisTest },
+      { cash: 0, spy: initialSpy, qqq: 0, bitcoin: 0, bonds: 0 },
       horizon,
-      initialWithdrawalAmount,
-      withdrawalRate,
-      true,
-      inflationRate,
-      undefined
+      { strategy: 'fourPercentRuleUpwardReset', initialWithdrawalAmount, withdrawalRate, inflationAdjust: true, inflationRate }
     );
 
     // Year 0 withdrawal is 40000
@@ -83,7 +72,7 @@ describe('simulateFourPercentRuleRatchetUp', () => {
   });
 });
 
-describe('simulateGuytonKlinger', () => {
+describe('Guyton-Klinger rule', () => {
   const initialBalance = 1000000;
   const horizon = 5;
   const initialWithdrawalRate = 0.04;
@@ -94,15 +83,14 @@ describe('simulateGuytonKlinger', () => {
   };
 
   it('should skip inflation adjustment on negative return when withdrawal rate is above initial', () => {
-    const result = simulateGuytonKlinger(
-      returns.down, returns.down, returns.down, returns.down,
-      0, initialBalance, 0, 0, 0,
+    const result = simulatePortfolio(
+      { spy: returns.down, qqq: returns.down, bitcoin: returns.down, bonds: returns.down },
+      { cash: 0, spy: initialBalance, qqq: 0, bitcoin: 0, bonds: 0 },
       horizon,
-      initialWithdrawalRate,
-      inflationRate,
-      true,
-      0.2, 0.2, 0.1, 0.1,
-      undefined
+      {
+        strategy: 'guytonKlinger', initialWithdrawalRate, inflationRate, inflationAdjust: true,
+        guardrailUpper: 0.2, guardrailLower: 0.2, cutPercentage: 0.1, raisePercentage: 0.1,
+      }
     );
 
     // Year 0 withdrawal: 1_000_000 * 0.04 = 40_000
@@ -113,15 +101,16 @@ describe('simulateGuytonKlinger', () => {
   });
 
   it('should apply inflation adjustment on negative return when withdrawal rate is below initial', () => {
-    const result = simulateGuytonKlinger(
-      [0.95, 0.95, 0.95, 0.95, 0.95], [0.95, 0.95, 0.95, 0.95, 0.95], [0.95, 0.95, 0.95, 0.95, 0.95], [0.95, 0.95, 0.95, 0.95, 0.95],
-      0, initialBalance, 0, 0, 0,
+    const result = simulatePortfolio(
+      { spy: [0.95, 0.95, 0.95, 0.95, 0.95], qqq: [0.95, 0.95, 0.95, 0.95, 0.95], bitcoin: [0.95, 0.95, 0.95, 0.95, 0.95], bonds: [0.95, 0.95, 0.95, 0.95, 0.95] },
+      { cash: 0, spy: initialBalance, qqq: 0, bitcoin: 0, bonds: 0 },
       horizon,
-      0.04, // Lower initial withdrawal rate
-      inflationRate,
-      true,
-      0.2, 0.2, 0.1, 0.1,
-      undefined
+      {
+        strategy: 'guytonKlinger',
+        initialWithdrawalRate: 0.04, // Lower initial withdrawal rate
+        inflationRate, inflationAdjust: true,
+        guardrailUpper: 0.2, guardrailLower: 0.2, cutPercentage: 0.1, raisePercentage: 0.1,
+      }
     );
 
     // Year 0 withdrawal: 1_000_000 * 0.04 = 40_000
@@ -132,7 +121,7 @@ describe('simulateGuytonKlinger', () => {
   });
 });
 
-describe('simulateCapeBased', () => {
+describe('CAPE-based rule', () => {
   const initialBalance = 1000000;
   const horizon = 5;
   const basePercentage = 0.02;
@@ -148,14 +137,11 @@ describe('simulateCapeBased', () => {
   const returns = [1.0, 1.0, 1.0, 1.0, 1.0]; // No returns for simplicity
 
   it('should use the correct CAPE value for each year in the simulation', () => {
-    const result = simulateCapeBased(
-      returns, returns, returns, returns,
-      0, initialBalance, 0, 0, 0,
+    const result = simulatePortfolio(
+      { spy: returns, qqq: returns, bitcoin: returns, bonds: returns },
+      { cash: 0, spy: initialBalance, qqq: 0, bitcoin: 0, bonds: 0 },
       horizon,
-      basePercentage,
-      capeFraction,
-      capeData,
-      yearSample
+      { strategy: 'capeBased', basePercentage, capeFraction, capeData, yearSample }
     );
 
     // Year 0 withdrawal rate: 0.02 + 0.5 * (1/40) = 0.0325
@@ -168,3 +154,31 @@ describe('simulateCapeBased', () => {
     expect(result.withdrawals[1]).toBeCloseTo(35475);
   });
 });
+
+describe('block bootstrap samplers', () => {
+  const years = Array.from({ length: 30 }, (_, i) => 1990 + i);
+  // Places where the sample jumps instead of continuing to the next year (2019 continues to 1990)
+  const breaks = (sample: number[]) => sample.slice(1).filter((y, i) => (y - sample[i] + 30) % 30 !== 1).length;
+
+  it('draws fixed-length runs of consecutive years', () => {
+    const sample = blockBootstrapSample(years, 20, 5, rngFromSeed(1));
+    expect(sample).toHaveLength(20);
+    for (let i = 0; i < 20; i += 5) {
+      expect(sample.slice(i, i + 5)).toEqual(Array.from({ length: 5 }, (_, j) => sample[i] + j));
+    }
+  });
+
+  it('caps the block length at the history length', () => {
+    expect(blockBootstrapSample([1, 2, 3], 6, 10, rngFromSeed(2))).toEqual([1, 2, 3, 1, 2, 3]);
+  });
+
+  it('draws runs averaging the mean block length, wrapping at the end', () => {
+    const rng = rngFromSeed(3);
+    let total = 0;
+    for (let i = 0; i < 500; i++) total += breaks(stationaryBootstrapSample(years, 40, 8, rng));
+    // About one restart every 8 years, so roughly 39 / 8 breaks per sample
+    expect(total / 500).toBeGreaterThan(3.5);
+    expect(total / 500).toBeLessThan(6.5);
+    expect(breaks(stationaryBootstrapSample(years, 40, 1, rngFromSeed(4)))).toBeGreaterThan(20);
+  });
+});
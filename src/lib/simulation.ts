@@ -1,26 +1,89 @@
+import type { Rng } from "./random";
+import {
+  createEquityTracker,
+  refillCashBucket,
+  createBucketTracker,
+  drawFromBuckets,
+  cascadeBuckets,
+  type CashRefillOptions,
+  type ThreeBucketOptions,
+} from "./buckets";
+import { allocationWeights, rebalanceHoldings, drawTowardTarget, type RebalanceOptions } from "./rebalancing";
+import { DEFAULT_DRAWDOWN_STRATEGY, sellForWithdrawal, type DrawdownStrategy } from "./drawdown";
+import { createWithdrawalPlanner, type WithdrawalRule } from "./withdrawals";
+import { assetsOf, emptyHoldings, holdingsTotal } from "./assets";
+import { incomeFor, type IncomeStream } from "./income";
+import { cashFlowFor, type CashFlowEvent } from "./cashFlows";
+import { createAccounts, depositToTaxable, federalIncomeTax, requiredMinimumDistribution, scaleAccounts, withdrawFromAccounts, type TaxOptions } from "./taxes";
+
 // Helper: convert percent to multiplier
 export const pctToMult = (pct: number) => 1 + pct / 100;
 
+// How the years of each run are drawn from history, or generated from a fitted model (parametric-*)
+export type SimulationMode =
+  | "actual-seq"
+  | "actual-seq-random-start"
+  | "random-shuffle"
+  | "bootstrap"
+  | "block-bootstrap"
+  | "stationary-bootstrap"
+  | "cape-conditioned"
+  | "regime-switching"
+  | "parametric-normal"
+  | "parametric-lognormal"
+  | "parametric-t";
+
+export const DEFAULT_BLOCK_LENGTH = 5; // years
+
 // Simulation engine
 export type RunResult = {
   balances: number[]; // length horizon+1 including year 0
   failedYear: number | null; // first year that ends <= 0 (1-based), else null
   withdrawals: number[];
+  income?: number[]; // what income streams paid toward each year's spending, when there are any
+  cashFlows?: number[]; // net expenses (positive) or windfalls (negative) from cash-flow events each year, when there are any
 };
 
-export function bootstrapSample<T>(arr: T[], n: number): T[] {
+export function bootstrapSample<T>(arr: T[], n: number, rng: Rng = Math.random): T[] {
   const out: T[] = [];
   for (let i = 0; i < n; i++) {
-    const j = Math.floor(Math.random() * arr.length);
+    const j = Math.floor(rng() * arr.length);
     out.push(arr[j]);
   }
   return out;
 }
 
-export function shuffle<T>(arr: T[]): T[] {
+// Moving block bootstrap: runs of `blockLength` consecutive items, each from a random start.
+export function blockBootstrapSample<T>(arr: T[], n: number, blockLength: number, rng: Rng = Math.random): T[] {
+  const length = Math.max(1, Math.min(Math.round(blockLength), arr.length));
+  const out: T[] = [];
+  while (out.length < n) {
+    const start = Math.floor(rng() * (arr.length - length + 1));
+    for (let i = 0; i < length && out.length < n; i++) out.push(arr[start + i]);
+  }
+  return out;
+}
+
+/**
+ * Stationary bootstrap (Politis & Romano): like the block bootstrap, but each
+ * block's length is random with mean `meanBlockLength`, and blocks wrap from
+ * the last item back to the first, so every item is equally likely.
+ */
+export function stationaryBootstrapSample<T>(arr: T[], n: number, meanBlockLength: number, rng: Rng = Math.random): T[] {
+  const restart = 1 / Math.max(1, meanBlockLength);
+  const out: T[] = [];
+  let idx = Math.floor(rng() * arr.length);
+  for (let i = 0; i < n; i++) {
+    if (i > 0) idx = rng() < restart ? Math.floor(rng() * arr.length) : (idx + 1) % arr.length;
+    out.push(arr[idx]);
+  }
+  return out;
+}
+
+export function shuffle<T>(arr: T[], rng: Rng = Math.random): T[] {
   const a = arr.slice();
   for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [a[i], a[j]] = [a[j], a[i]];
   }
   return a;
@@ -68,676 +131,169 @@ export function calculateDrawdownStats(sims: RunResult[]) {
   };
 }
 
+// Amount held in each asset, keyed by asset id (see ASSET_CLASSES). Cash is always one of them.
+export type AssetHoldings = Record<string, number>;
+
 // Custom RunResult for portfolio simulation
 export type PortfolioRunResult = {
-  balances: { total: number; cash: number; spy: number; qqq: number; bitcoin: number; bonds: number }[];
+  balances: ({ total: number } & AssetHoldings)[];
   withdrawals: number[];
   failedYear: number | null;
   guardrailTriggers: number[];
+  turnover: number[]; // share of the portfolio traded by rebalancing each year
+  taxes?: number[]; // federal income tax on each year's withdrawal, when taxes are modelled
+  afterTaxWithdrawals?: number[]; // what is left of each year's withdrawal and income to spend, when taxes are modelled
+  rmds?: number[]; // required minimum distribution from the traditional account each year, when taxes are modelled
+  income?: number[]; // what income streams paid toward each year's spending, when there are any
+  cashFlows?: number[]; // net expenses (positive) or windfalls (negative) from cash-flow events each year, when there are any
 };
 
-export function simulateGuytonKlinger(
-  spyReturns: number[],
-  qqqReturns: number[],
-  bitcoinReturns: number[],
-  bondReturns: number[],
-  initialCash: number,
-  initialSpy: number,
-  initialQqq: number,
-  initialBitcoin: number,
-  initialBonds: number,
-  horizon: number,
-  initialWithdrawalRate: number,
-  inflationRate: number,
-  inflationAdjust: boolean,
-  guardrailUpper: number,
-  guardrailLower: number,
-  cutPercentage: number,
-  raisePercentage: number,
-  inflationRates?: number[],
-): PortfolioRunResult {
-  const balances = new Array(horizon + 1).fill(0).map(() => ({ total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 }));
-  const withdrawals: number[] = new Array(horizon).fill(0);
-  const guardrailTriggers: number[] = [];
-  let cash = initialCash;
-  let spy = initialSpy;
-  let qqq = initialQqq;
-  let bitcoin = initialBitcoin;
-  let bonds = initialBonds;
-  const startBalance = initialCash + initialSpy + initialQqq + initialBitcoin + initialBonds;
-  let withdrawalAmount = startBalance * initialWithdrawalRate;
-
-  balances[0] = { total: startBalance, cash, spy, qqq, bitcoin, bonds };
-  let failedYear: number | null = null;
-
-  for (let y = 0; y < horizon; y++) {
-    withdrawals[y] = withdrawalAmount;
-
-    // Drawdown from cash first
-    const fromCash = Math.min(withdrawalAmount, cash);
-    cash -= fromCash;
-    let remainingWithdrawal = withdrawalAmount - fromCash;
-
-    if (remainingWithdrawal > 0) {
-      const fromSpy = Math.min(remainingWithdrawal, spy);
-      spy -= fromSpy;
-      remainingWithdrawal -= fromSpy;
-
-      if (remainingWithdrawal > 0) {
-        const fromQqq = Math.min(remainingWithdrawal, qqq);
-        qqq -= fromQqq;
-        remainingWithdrawal -= fromQqq;
-      }
-
-      if (remainingWithdrawal > 0) {
-        const fromBitcoin = Math.min(remainingWithdrawal, bitcoin);
-        bitcoin -= fromBitcoin;
-        remainingWithdrawal -= fromBitcoin;
-      }
-
-      if (remainingWithdrawal > 0) {
-        const fromBonds = Math.min(remainingWithdrawal, bonds);
-        bonds -= fromBonds;
-      }
-    }
-
-    const totalBeforeGrowth = cash + spy + qqq + bitcoin + bonds;
-    if (totalBeforeGrowth <= 0 && failedYear === null) {
-      failedYear = y + 1;
-      for (let i = y + 1; i <= horizon; i++) {
-        balances[i] = { total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 };
-      }
-      break;
-    }
-
-    // Apply market returns
-    const portfolioBeforeGrowth = totalBeforeGrowth;
-    spy *= spyReturns[y];
-    qqq *= qqqReturns[y];
-    bitcoin *= bitcoinReturns[y];
-    bonds *= bondReturns[y];
-    const portfolioAfterGrowth = cash + spy + qqq + bitcoin + bonds;
-    const lastYearReturn = (portfolioAfterGrowth / portfolioBeforeGrowth) - 1;
-
-    const totalAfterGrowth = cash + spy + qqq + bitcoin + bonds;
-    balances[y + 1] = { total: totalAfterGrowth, cash, spy, qqq, bitcoin, bonds };
-
-    // Determine next year's withdrawal amount
-    let nextWithdrawalAmount = withdrawalAmount;
-
-    // Inflation adjustment
-    const currentWithdrawalRate = withdrawalAmount / totalAfterGrowth;
-    if (inflationAdjust) {
-      const rate = inflationRates ? inflationRates[y] : inflationRate;
-      if (lastYearReturn >= 0 || currentWithdrawalRate <= initialWithdrawalRate) {
-        nextWithdrawalAmount *= (1 + rate);
-      }
-    }
-
-    // Guardrail adjustments
-    if (y < horizon - 15) { // Longevity rule
-      if (currentWithdrawalRate > initialWithdrawalRate * (1 + guardrailLower)) {
-        nextWithdrawalAmount *= (1 - cutPercentage);
-        guardrailTriggers.push(y + 1);
-      } else if (currentWithdrawalRate < initialWithdrawalRate * (1 - guardrailUpper)) {
-        nextWithdrawalAmount *= (1 + raisePercentage);
-        guardrailTriggers.push(y + 1);
-      }
-    }
-    withdrawalAmount = nextWithdrawalAmount;
-  }
-
-  return { balances, withdrawals, failedYear, guardrailTriggers };
-}
-
-export function simulateFloorAndCeiling(
-  spyReturns: number[],
-  qqqReturns: number[],
-  bitcoinReturns: number[],
-  bondReturns: number[],
-  initialCash: number,
-  initialSpy: number,
-  initialQqq: number,
-  initialBitcoin: number,
-  initialBonds: number,
-  horizon: number,
-  initialWithdrawalRate: number,
-  inflationRate: number,
-  inflationAdjust: boolean,
-  floor: number,
-  ceiling: number,
-  inflationRates?: number[],
-): PortfolioRunResult {
-  const balances = new Array(horizon + 1).fill(0).map(() => ({ total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 }));
-  const withdrawals: number[] = new Array(horizon).fill(0);
-  let cash = initialCash;
-  let spy = initialSpy;
-  let qqq = initialQqq;
-  let bitcoin = initialBitcoin;
-  let bonds = initialBonds;
-  const startBalance = initialCash + initialSpy + initialQqq + initialBitcoin + initialBonds;
-  const initialWithdrawalAmount = startBalance * initialWithdrawalRate;
-  let withdrawalAmount = initialWithdrawalAmount;
-
-  balances[0] = { total: startBalance, cash, spy, qqq, bitcoin, bonds };
-  let failedYear: number | null = null;
-
-  let cumulativeInflation = 1;
-  for (let y = 0; y < horizon; y++) {
-    // Determine withdrawal amount
-    let currentWithdrawal = balances[y].total * initialWithdrawalRate;
-    const floorAmount = initialWithdrawalAmount * (1 - floor);
-    const ceilingAmount = initialWithdrawalAmount * (1 + ceiling);
-
-    currentWithdrawal = Math.max(currentWithdrawal, floorAmount);
-    currentWithdrawal = Math.min(currentWithdrawal, ceilingAmount);
-
-    if (inflationAdjust) {
-      currentWithdrawal *= cumulativeInflation;
-    }
-
-    withdrawalAmount = currentWithdrawal;
-    withdrawals[y] = withdrawalAmount;
-
-    // Drawdown from cash first
-    const fromCash = Math.min(withdrawalAmount, cash);
-    cash -= fromCash;
-    let remainingWithdrawal = withdrawalAmount - fromCash;
-
-    if (remainingWithdrawal > 0) {
-      const fromSpy = Math.min(remainingWithdrawal, spy);
-      spy -= fromSpy;
-      remainingWithdrawal -= fromSpy;
-
-      if (remainingWithdrawal > 0) {
-        const fromQqq = Math.min(remainingWithdrawal, qqq);
-        qqq -= fromQqq;
-        remainingWithdrawal -= fromQqq;
-      }
-
-      if (remainingWithdrawal > 0) {
-        const fromBitcoin = Math.min(remainingWithdrawal, bitcoin);
-        bitcoin -= fromBitcoin;
-        remainingWithdrawal -= fromBitcoin;
-      }
-
-      if (remainingWithdrawal > 0) {
-        const fromBonds = Math.min(remainingWithdrawal, bonds);
-        bonds -= fromBonds;
-      }
-    }
-
-    if (inflationAdjust) {
-      const rate = inflationRates ? inflationRates[y] : inflationRate;
-      cumulativeInflation *= (1 + rate);
-    }
-
-    const totalBeforeGrowth = cash + spy + qqq + bitcoin + bonds;
-    if (totalBeforeGrowth <= 0 && failedYear === null) {
-      failedYear = y + 1;
-      for (let i = y + 1; i <= horizon; i++) {
-        balances[i] = { total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 };
-      }
-      break;
-    }
-
-    // Apply market returns
-    spy *= spyReturns[y];
-    qqq *= qqqReturns[y];
-    bitcoin *= bitcoinReturns[y];
-    bonds *= bondReturns[y];
-
-    const totalAfterGrowth = cash + spy + qqq + bitcoin + bonds;
-    balances[y + 1] = { total: totalAfterGrowth, cash, spy, qqq, bitcoin, bonds };
-  }
-
-  return { balances, withdrawals, failedYear, guardrailTriggers: [] };
-}
-
-export function simulateFourPercentRuleRatchetUp(
-  spyReturns: number[],
-  qqqReturns: number[],
-  bitcoinReturns: number[],
-  bondReturns: number[],
-  initialCash: number,
-  initialSpy: number,
-  initialQqq: number,
-  initialBitcoin: number,
-  initialBonds: number,
-  horizon: number,
-  initialWithdrawalAmount: number,
-  withdrawalRate: number,
-  inflationAdjust: boolean,
-  inflationRate: number,
-  inflationRates?: number[],
-): PortfolioRunResult {
-  const balances = new Array(horizon + 1).fill(0).map(() => ({ total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 }));
-  const withdrawals: number[] = new Array(horizon).fill(0);
-  let cash = initialCash;
-  let spy = initialSpy;
-  let qqq = initialQqq;
-  let bitcoin = initialBitcoin;
-  let bonds = initialBonds;
-  const startBalance = initialCash + initialSpy + initialQqq + initialBitcoin + initialBonds;
-
-  balances[0] = { total: startBalance, cash, spy, qqq, bitcoin, bonds };
-  let failedYear: number | null = null;
-
-  let withdrawalAmount = initialWithdrawalAmount;
-
-  for (let y = 0; y < horizon; y++) {
-    withdrawals[y] = withdrawalAmount;
-
-    // Drawdown from cash first
-    const fromCash = Math.min(withdrawalAmount, cash);
-    cash -= fromCash;
-    let remainingWithdrawal = withdrawalAmount - fromCash;
-
-    if (remainingWithdrawal > 0) {
-      const fromSpy = Math.min(remainingWithdrawal, spy);
-      spy -= fromSpy;
-      remainingWithdrawal -= fromSpy;
-
-      if (remainingWithdrawal > 0) {
-        const fromQqq = Math.min(remainingWithdrawal, qqq);
-        qqq -= fromQqq;
-        remainingWithdrawal -= fromQqq;
-      }
-
-      if (remainingWithdrawal > 0) {
-        const fromBitcoin = Math.min(remainingWithdrawal, bitcoin);
-        bitcoin -= fromBitcoin;
-        remainingWithdrawal -= fromBitcoin;
-      }
-
-      if (remainingWithdrawal > 0) {
-        const fromBonds = Math.min(remainingWithdrawal, bonds);
-        bonds -= fromBonds;
-      }
-    }
-
-    const totalBeforeGrowth = cash + spy + qqq + bitcoin + bonds;
-    if (totalBeforeGrowth <= 0 && failedYear === null) {
-      failedYear = y + 1;
-      for (let i = y + 1; i <= horizon; i++) {
-        balances[i] = { total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 };
-      }
-      break;
-    }
-
-    // Apply market returns
-    spy *= spyReturns[y];
-    qqq *= qqqReturns[y];
-    bitcoin *= bitcoinReturns[y];
-    bonds *= bondReturns[y];
-
-    const totalAfterGrowth = cash + spy + qqq + bitcoin + bonds;
-    balances[y + 1] = { total: totalAfterGrowth, cash, spy, qqq, bitcoin, bonds };
-
-    // Determine next year's withdrawal amount
-    const lastYearBalance = balances[y].total;
-    const endOfYearBalance = balances[y+1].total;
-
-    let nextWithdrawalAmount = withdrawalAmount;
-    if (inflationAdjust) {
-      const rate = inflationRates ? inflationRates[y] : inflationRate;
-      nextWithdrawalAmount *= (1 + rate);
-    }
-
-    if (endOfYearBalance > lastYearBalance) {
-      const ratchetWithdrawal = endOfYearBalance * withdrawalRate;
-      nextWithdrawalAmount = Math.max(nextWithdrawalAmount, ratchetWithdrawal);
-    }
-
-    withdrawalAmount = nextWithdrawalAmount;
-  }
-
-  return { balances, withdrawals, failedYear, guardrailTriggers: [] };
+// Yearly return multipliers for each asset, indexed by simulated year. An asset without a series, cash included, earns nothing.
+export type AssetReturnSeries = Partial<Record<string, number[]>>;
+
+export interface SimulationOptions {
+  drawdownStrategy?: DrawdownStrategy;
+  inflationRates?: number[];
+  cashRefill?: CashRefillOptions;
+  threeBucket?: ThreeBucketOptions;
+  rebalance?: RebalanceOptions;
+  taxes?: TaxOptions;
+  startAge?: number; // age in the first simulated year; without it no RMDs are taken and no income is paid
+  income?: IncomeStream[];
+  cashFlows?: CashFlowEvent[];
 }
 
-export function simulateFourPercentRule(
-  spyReturns: number[],
-  qqqReturns: number[],
-  bitcoinReturns: number[],
-  bondReturns: number[],
-  initialCash: number,
-  initialSpy: number,
-  initialQqq: number,
-  initialBitcoin: number,
-  initialBonds: number,
+/**
+ * Runs one retirement path: any withdrawal rule combined with any drawdown
+ * order. Each year withdraws at the start, sells to fund it, applies returns,
+ * then refills or rebalances the buckets. The rule sets the year's spending;
+ * income streams pay what they can of it and the portfolio withdrawal is the
+ * rest, so `withdrawals` is only the portfolio's share. Income beyond the
+ * spending is spent, not saved. Cash-flow events add their expenses to the
+ * withdrawal; a windfall beyond it is invested in the starting allocation.
+ * Bucket refills stay sized to the regular withdrawal.
+ * With taxes on, each withdrawal is also taken from the accounts in their
+ * sourcing order and taxed, with the brackets indexed by the run's inflation,
+ * along with the taxable part of the income; the tax comes out of the
+ * spending. Once RMDs begin, at least the RMD leaves the traditional account:
+ * any excess over the withdrawal is taxed and the rest reinvested in the
+ * taxable account, so the tax on it is the one thing that lowers the portfolio.
+ */
+export function simulatePortfolio(
+  returns: AssetReturnSeries,
+  initial: AssetHoldings,
   horizon: number,
-  initialWithdrawalAmount: number,
-  inflationAdjust: boolean,
-  inflationRate: number,
-  inflationRates?: number[],
+  rule: WithdrawalRule,
+  options: SimulationOptions = {},
 ): PortfolioRunResult {
-  const balances = new Array(horizon + 1).fill(0).map(() => ({ total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 }));
+  const { cashRefill, threeBucket, rebalance, startAge } = options;
+  const incomeStreams = startAge === undefined ? [] : options.income ?? [];
+  const events = options.cashFlows ?? [];
+  const taxOptions = options.taxes?.enabled ? options.taxes : undefined;
+  const drawdownStrategy = options.drawdownStrategy ?? DEFAULT_DRAWDOWN_STRATEGY;
+  const assets = assetsOf(initial);
+  const balances = new Array(horizon + 1).fill(0).map(() => ({ total: 0, ...emptyHoldings(initial) }));
   const withdrawals: number[] = new Array(horizon).fill(0);
-  let cash = initialCash;
-  let spy = initialSpy;
-  let qqq = initialQqq;
-  let bitcoin = initialBitcoin;
-  let bonds = initialBonds;
-  const startBalance = initialCash + initialSpy + initialQqq + initialBitcoin + initialBonds;
+  const turnover: number[] = new Array(horizon).fill(0);
+  let holdings: AssetHoldings = { ...initial };
+  const startBalance = holdingsTotal(initial);
 
-  balances[0] = { total: startBalance, cash, spy, qqq, bitcoin, bonds };
+  balances[0] = { total: startBalance, ...holdings };
   let failedYear: number | null = null;
-
-  let withdrawalAmount = initialWithdrawalAmount;
+  const planner = createWithdrawalPlanner(rule, startBalance, horizon, options.inflationRates);
+  const equityTracker = createEquityTracker();
+  const bucketTracker = createBucketTracker();
+  const targetWeights = allocationWeights(initial);
+  const taxes: number[] = new Array(horizon).fill(0);
+  const afterTaxWithdrawals: number[] = new Array(horizon).fill(0);
+  const rmds: number[] = new Array(horizon).fill(0);
+  let accounts = taxOptions && createAccounts(startBalance, taxOptions);
+  const income: number[] = new Array(horizon).fill(0);
+  const cashFlows: number[] = new Array(horizon).fill(0);
+  let priceIndex = 1; // inflation since the first year, which scales the tax brackets, inflation-linked income and real events
+  const inflationFor = (y: number) => options.inflationRates?.[y] ?? ("inflationRate" in rule ? rule.inflationRate : 0);
 
   for (let y = 0; y < horizon; y++) {
-    const currentWithdrawal = withdrawalAmount;
-    withdrawals[y] = currentWithdrawal;
-
-    if (inflationAdjust) {
-      const rate = inflationRates ? inflationRates[y] : inflationRate;
-      withdrawalAmount *= (1 + rate);
-    }
-
-    // Drawdown from cash first
-    const fromCash = Math.min(currentWithdrawal, cash);
-    cash -= fromCash;
-    let remainingWithdrawal = currentWithdrawal - fromCash;
-
-    if (remainingWithdrawal > 0) {
-      const fromSpy = Math.min(remainingWithdrawal, spy);
-      spy -= fromSpy;
-      remainingWithdrawal -= fromSpy;
-
-      if (remainingWithdrawal > 0) {
-        const fromQqq = Math.min(remainingWithdrawal, qqq);
-        qqq -= fromQqq;
-        remainingWithdrawal -= fromQqq;
-      }
-
-      if (remainingWithdrawal > 0) {
-        const fromBitcoin = Math.min(remainingWithdrawal, bitcoin);
-        bitcoin -= fromBitcoin;
-        remainingWithdrawal -= fromBitcoin;
-      }
-
-      if (remainingWithdrawal > 0) {
-        const fromBonds = Math.min(remainingWithdrawal, bonds);
-        bonds -= fromBonds;
-      }
-    }
-
-    const totalBeforeGrowth = cash + spy + qqq + bitcoin + bonds;
-    if (totalBeforeGrowth <= 0 && failedYear === null) {
-      failedYear = y + 1;
-      for (let i = y + 1; i <= horizon; i++) {
-        balances[i] = { total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 };
-      }
-      break;
+    const yearReturns = Object.fromEntries(assets.map(a => [a, returns[a]?.[y] ?? 1]));
+    const startOfYear = balances[y].total;
+    const spending = planner.amountFor(y, startOfYear);
+    const paid = incomeFor(incomeStreams, (startAge ?? 0) + y, priceIndex);
+    income[y] = paid.total;
+    const regular = Math.max(0, spending - paid.total);
+    cashFlows[y] = cashFlowFor(events, y, priceIndex);
+    const withdrawal = Math.max(0, regular + cashFlows[y]);
+    const deposit = Math.max(0, -(regular + cashFlows[y]));
+    withdrawals[y] = withdrawal;
+
+    if (threeBucket?.enabled) {
+      holdings = drawFromBuckets(holdings, withdrawal);
+    } else if (rebalance?.mode === "withdrawals") {
+      holdings = drawTowardTarget(holdings, withdrawal, targetWeights);
+    } else {
+      holdings = sellForWithdrawal(holdings, withdrawal, drawdownStrategy, yearReturns);
     }
 
-    // Apply market returns
-    spy *= spyReturns[y];
-    qqq *= qqqReturns[y];
-    bitcoin *= bitcoinReturns[y];
-    bonds *= bondReturns[y];
-
-    const totalAfterGrowth = cash + spy + qqq + bitcoin + bonds;
-    balances[y + 1] = { total: totalAfterGrowth, cash, spy, qqq, bitcoin, bonds };
-  }
-
-  return { balances, withdrawals, failedYear, guardrailTriggers: [] };
-}
-
-export function simulatePrincipalProtectionRule(
-  spyReturns: number[],
-  qqqReturns: number[],
-  bitcoinReturns: number[],
-  bondReturns: number[],
-  initialCash: number,
-  initialSpy: number,
-  initialQqq: number,
-  initialBitcoin: number,
-  initialBonds: number,
-  horizon: number,
-  initialWithdrawalAmount: number,
-  inflationAdjust: boolean,
-  inflationRate: number,
-  inflationRates?: number[],
-): PortfolioRunResult {
-  const balances = new Array(horizon + 1).fill(0).map(() => ({ total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 }));
-  const withdrawals: number[] = new Array(horizon).fill(0);
-  let cash = initialCash;
-  let spy = initialSpy;
-  let qqq = initialQqq;
-  let bitcoin = initialBitcoin;
-  let bonds = initialBonds;
-  const startBalance = initialCash + initialSpy + initialQqq + initialBitcoin + initialBonds;
-
-  balances[0] = { total: startBalance, cash, spy, qqq, bitcoin, bonds };
-  let failedYear: number | null = null;
-
-  let withdrawalAmount = initialWithdrawalAmount;
-
-  for (let y = 0; y < horizon; y++) {
-    let currentWithdrawal = 0;
-    if (balances[y].total >= startBalance) {
-      currentWithdrawal = withdrawalAmount;
-      if (inflationAdjust) {
-        const rate = inflationRates ? inflationRates[y] : inflationRate;
-        withdrawalAmount *= (1 + rate);
-      }
-    }
-
-    withdrawals[y] = currentWithdrawal;
-
-    // Drawdown from cash first
-    const fromCash = Math.min(currentWithdrawal, cash);
-    cash -= fromCash;
-    let remainingWithdrawal = currentWithdrawal - fromCash;
-
-    if (remainingWithdrawal > 0) {
-      const fromSpy = Math.min(remainingWithdrawal, spy);
-      spy -= fromSpy;
-      remainingWithdrawal -= fromSpy;
-
-      if (remainingWithdrawal > 0) {
-        const fromQqq = Math.min(remainingWithdrawal, qqq);
-        qqq -= fromQqq;
-        remainingWithdrawal -= fromQqq;
-      }
-
-      if (remainingWithdrawal > 0) {
-        const fromBitcoin = Math.min(remainingWithdrawal, bitcoin);
-        bitcoin -= fromBitcoin;
-        remainingWithdrawal -= fromBitcoin;
-      }
-
-      if (remainingWithdrawal > 0) {
-        const fromBonds = Math.min(remainingWithdrawal, bonds);
-        bonds -= fromBonds;
-      }
-    }
-
-    const totalBeforeGrowth = cash + spy + qqq + bitcoin + bonds;
-    if (totalBeforeGrowth <= 0 && failedYear === null) {
-      failedYear = y + 1;
-      for (let i = y + 1; i <= horizon; i++) {
-        balances[i] = { total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 };
+    let afterWithdrawal = holdingsTotal(holdings);
+    if (taxOptions && accounts) {
+      const funded = startOfYear - afterWithdrawal;
+      if (startAge !== undefined) {
+        rmds[y] = requiredMinimumDistribution(accounts.balances.traditional, startAge + y, taxOptions.rmdStartAge);
+      }
+      const drawn = withdrawFromAccounts(accounts, funded, taxOptions.sourcingOrder, rmds[y]);
+      const ordinary = drawn.ordinary + paid.taxable;
+      taxes[y] = federalIncomeTax(ordinary, drawn.gains, taxOptions.filingStatus, priceIndex);
+      const spendingTax = drawn.excess > 0
+        ? federalIncomeTax(ordinary - drawn.excess, drawn.gains, taxOptions.filingStatus, priceIndex)
+        : taxes[y];
+      const excessTax = taxes[y] - spendingTax;
+      accounts = depositToTaxable(drawn.state, drawn.excess - excessTax);
+      afterTaxWithdrawals[y] = funded + paid.total - spendingTax;
+      if (excessTax > 0 && afterWithdrawal > 0) {
+        const factor = Math.max(0, afterWithdrawal - excessTax) / afterWithdrawal;
+        holdings = Object.fromEntries(assetsOf(holdings).map(a => [a, holdings[a] * factor]));
+        afterWithdrawal = holdingsTotal(holdings);
       }
-      break;
     }
-
-    // Apply market returns
-    spy *= spyReturns[y];
-    qqq *= qqqReturns[y];
-    bitcoin *= bitcoinReturns[y];
-    bonds *= bondReturns[y];
-
-    const totalAfterGrowth = cash + spy + qqq + bitcoin + bonds;
-    balances[y + 1] = { total: totalAfterGrowth, cash, spy, qqq, bitcoin, bonds };
-  }
-
-  return { balances, withdrawals, failedYear, guardrailTriggers: [] };
-}
-
-export function simulateFixedPercentage(
-  spyReturns: number[],
-  qqqReturns: number[],
-  bitcoinReturns: number[],
-  bondReturns: number[],
-  initialCash: number,
-  initialSpy: number,
-  initialQqq: number,
-  initialBitcoin: number,
-  initialBonds: number,
-  horizon: number,
-  withdrawalRate: number,
-): PortfolioRunResult {
-  const balances = new Array(horizon + 1).fill(0).map(() => ({ total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 }));
-  const withdrawals: number[] = new Array(horizon).fill(0);
-  let cash = initialCash;
-  let spy = initialSpy;
-  let qqq = initialQqq;
-  let bitcoin = initialBitcoin;
-  let bonds = initialBonds;
-  const startBalance = initialCash + initialSpy + initialQqq + initialBitcoin + initialBonds;
-
-  balances[0] = { total: startBalance, cash, spy, qqq, bitcoin, bonds };
-  let failedYear: number | null = null;
-
-  for (let y = 0; y < horizon; y++) {
-    const withdrawalAmount = balances[y].total * withdrawalRate;
-    withdrawals[y] = withdrawalAmount;
-
-    // Drawdown from cash first
-    const fromCash = Math.min(withdrawalAmount, cash);
-    cash -= fromCash;
-    let remainingWithdrawal = withdrawalAmount - fromCash;
-
-    if (remainingWithdrawal > 0) {
-      const fromSpy = Math.min(remainingWithdrawal, spy);
-      spy -= fromSpy;
-      remainingWithdrawal -= fromSpy;
-
-      if (remainingWithdrawal > 0) {
-        const fromQqq = Math.min(remainingWithdrawal, qqq);
-        qqq -= fromQqq;
-        remainingWithdrawal -= fromQqq;
-      }
-
-      if (remainingWithdrawal > 0) {
-        const fromBitcoin = Math.min(remainingWithdrawal, bitcoin);
-        bitcoin -= fromBitcoin;
-        remainingWithdrawal -= fromBitcoin;
-      }
-
-      if (remainingWithdrawal > 0) {
-        const fromBonds = Math.min(remainingWithdrawal, bonds);
-        bonds -= fromBonds;
-      }
+    if (deposit > 0) {
+      const weights = holdingsTotal(targetWeights) > 0 ? targetWeights : { ...emptyHoldings(initial), cash: 1 };
+      holdings = Object.fromEntries(assets.map(a => [a, holdings[a] + deposit * (weights[a] ?? 0)]));
+      afterWithdrawal = holdingsTotal(holdings);
+      if (accounts) accounts = depositToTaxable(accounts, deposit);
     }
-
-    const totalBeforeGrowth = cash + spy + qqq + bitcoin + bonds;
-    if (totalBeforeGrowth <= 0 && failedYear === null) {
+    if (afterWithdrawal <= 0 && failedYear === null) {
       failedYear = y + 1;
       for (let i = y + 1; i <= horizon; i++) {
-        balances[i] = { total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 };
+        balances[i] = { total: 0, ...emptyHoldings(initial) };
       }
       break;
     }
 
     // Apply market returns
-    spy *= spyReturns[y];
-    qqq *= qqqReturns[y];
-    bitcoin *= bitcoinReturns[y];
-    bonds *= bondReturns[y];
-
-    const totalAfterGrowth = cash + spy + qqq + bitcoin + bonds;
-    balances[y + 1] = { total: totalAfterGrowth, cash, spy, qqq, bitcoin, bonds };
-  }
-
-  return { balances, withdrawals, failedYear, guardrailTriggers: [] };
-}
-
-export function simulateCapeBased(
-  spyReturns: number[],
-  qqqReturns: number[],
-  bitcoinReturns: number[],
-  bondReturns: number[],
-  initialCash: number,
-  initialSpy: number,
-  initialQqq: number,
-  initialBitcoin: number,
-  initialBonds: number,
-  horizon: number,
-  basePercentage: number,
-  capeFraction: number,
-  capeData: { [year: number]: number },
-  yearSample: number[]
-): PortfolioRunResult {
-  const balances = new Array(horizon + 1).fill(0).map(() => ({ total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 }));
-  const withdrawals: number[] = new Array(horizon).fill(0);
-  let cash = initialCash;
-  let spy = initialSpy;
-  let qqq = initialQqq;
-  let bitcoin = initialBitcoin;
-  let bonds = initialBonds;
-  const startBalance = initialCash + initialSpy + initialQqq + initialBitcoin + initialBonds;
-
-  balances[0] = { total: startBalance, cash, spy, qqq, bitcoin, bonds };
-  let failedYear: number | null = null;
-
-  for (let y = 0; y < horizon; y++) {
-    const currentYear = yearSample[y];
-    const cape = capeData[currentYear] || 25; // Default to 25 if no data
-    const capeYield = 1 / cape;
-    const withdrawalRate = basePercentage + capeFraction * capeYield;
-    const withdrawalAmount = balances[y].total * withdrawalRate;
-
-    withdrawals[y] = withdrawalAmount;
-
-    // Drawdown from cash first
-    const fromCash = Math.min(withdrawalAmount, cash);
-    cash -= fromCash;
-    let remainingWithdrawal = withdrawalAmount - fromCash;
-
-    if (remainingWithdrawal > 0) {
-      const fromSpy = Math.min(remainingWithdrawal, spy);
-      spy -= fromSpy;
-      remainingWithdrawal -= fromSpy;
-
-      if (remainingWithdrawal > 0) {
-        const fromQqq = Math.min(remainingWithdrawal, qqq);
-        qqq -= fromQqq;
-        remainingWithdrawal -= fromQqq;
-      }
-
-      if (remainingWithdrawal > 0) {
-        const fromBitcoin = Math.min(remainingWithdrawal, bitcoin);
-        bitcoin -= fromBitcoin;
-        remainingWithdrawal -= fromBitcoin;
-      }
-
-      if (remainingWithdrawal > 0) {
-        const fromBonds = Math.min(remainingWithdrawal, bonds);
-        bonds -= fromBonds;
-      }
+    holdings = Object.fromEntries(assets.map(a => [a, holdings[a] * yearReturns[a]]));
+    if (threeBucket?.enabled) {
+      holdings = cascadeBuckets(holdings, regular, yearReturns, bucketTracker, threeBucket);
+    } else {
+      holdings = refillCashBucket(holdings, regular, yearReturns, equityTracker, cashRefill);
+      const rebalanced = rebalanceHoldings(holdings, targetWeights, rebalance);
+      holdings = rebalanced.holdings;
+      turnover[y] = rebalanced.turnover;
     }
 
-    const totalBeforeGrowth = cash + spy + qqq + bitcoin + bonds;
-    if (totalBeforeGrowth <= 0 && failedYear === null) {
-      failedYear = y + 1;
-      for (let i = y + 1; i <= horizon; i++) {
-        balances[i] = { total: 0, cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 0 };
-      }
-      break;
-    }
-
-    // Apply market returns
-    spy *= spyReturns[y];
-    qqq *= qqqReturns[y];
-    bitcoin *= bitcoinReturns[y];
-    bonds *= bondReturns[y];
-
-    const totalAfterGrowth = cash + spy + qqq + bitcoin + bonds;
-    balances[y + 1] = { total: totalAfterGrowth, cash, spy, qqq, bitcoin, bonds };
+    const endOfYear = holdingsTotal(holdings);
+    balances[y + 1] = { total: endOfYear, ...holdings };
+    planner.afterYear(y, { startOfYear, afterWithdrawal, endOfYear });
+    if (accounts) accounts = scaleAccounts(accounts, endOfYear);
+    priceIndex *= 1 + inflationFor(y);
   }
 
-  return { balances, withdrawals, failedYear, guardrailTriggers: [] };
+  return {
+    balances,
+    withdrawals,
+    failedYear,
+    guardrailTriggers: planner.guardrailTriggers,
+    turnover,
+    ...(taxOptions ? { taxes, afterTaxWithdrawals, rmds } : {}),
+    ...(incomeStreams.length > 0 ? { income } : {}),
+    ...(events.length > 0 ? { cashFlows } : {}),
+  };
 }
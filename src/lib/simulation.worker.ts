@@ -0,0 +1,7 @@
+import { runSimulationJob } from "./simulationJob";
+import type { SimulationRequest, SimulationResponse } from "./simulationPool";
+
+self.onmessage = (e: MessageEvent<SimulationRequest>) => {
+  const response: SimulationResponse = { id: e.data.id, runs: runSimulationJob(e.data.job) };
+  self.postMessage(response);
+};
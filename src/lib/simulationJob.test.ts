@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { sampleYears, startYearPool, runSimulationJob, splitJob, type SimulationJob } from './simulationJob';
+import { DEFAULT_WITHDRAWAL_RULE_PARAMS } from './withdrawals';
+
+const years = [2000, 2001, 2002, 2003];
+
+describe('sampleYears', () => {
+  it('returns the single historical sequence from the start year', () => {
+    expect(sampleYears('actual-seq', years, 2, 100, '', 2001)).toEqual([[2001, 2002]]);
+  });
+
+  it('draws the same samples for the same seed', () => {
+    const a = sampleYears('bootstrap', years, 3, 5, 42, 2000);
+    const b = sampleYears('bootstrap', years, 3, 5, 42, 2000);
+    expect(a).toHaveLength(5);
+    expect(a).toEqual(b);
+  });
+
+  it('keeps consecutive years together in the block bootstrap', () => {
+    const [sample] = sampleYears('block-bootstrap', years, 4, 1, 5, 2000, 2);
+    expect(sample[1]).toBe(sample[0] + 1);
+    expect(sample[3]).toBe(sample[2] + 1);
+  });
+
+  it('starts CAPE-conditioned runs only in the given years and follows history from there', () => {
+    const samples = sampleYears('cape-conditioned', years, 2, 50, 8, 2000, undefined, [2001]);
+    expect(samples.every(s => s[0] === 2001 && s[1] === 2002)).toBe(true);
+  });
+
+  it('wraps random-start runs past the last year unless the start years rule it out', () => {
+    const wrapped = sampleYears('actual-seq-random-start', years, 3, 50, 8, 2000);
+    expect(wrapped).toContainEqual([2003, 2000, 2001]);
+    const complete = sampleYears('actual-seq-random-start', years, 3, 50, 8, 2000, undefined, startYearPool(years, 3, true));
+    expect(complete.every(s => s[2] === s[0] + 2)).toBe(true);
+    expect(sampleYears('actual-seq-random-start', years, 5, 50, 8, 2000, undefined, startYearPool(years, 5, true))).toEqual([]);
+  });
+});
+
+describe('startYearPool', () => {
+  it('keeps every candidate unless limited to complete cohorts', () => {
+    expect(startYearPool(years, 3, false)).toEqual(years);
+    expect(startYearPool(years, 3, true)).toEqual([2000, 2001]);
+  });
+
+  it('measures completeness against the real years, e.g. an asset with a shorter record', () => {
+    expect(startYearPool(years, 2, true, [2001, 2002, 2003])).toEqual([2001, 2002]);
+  });
+});
+
+describe('runSimulationJob', () => {
+  const job: SimulationJob = {
+    yearSamples: sampleYears('bootstrap', years, 3, 7, 1, 2000),
+    returnsByYear: new Map(years.map((y, i) => [y, { spy: 1 + i / 10 - 0.1, qqq: 1, bitcoin: 1, bonds: 1.02, cash: 1 }])),
+    inflationByYear: new Map(years.map(y => [y, 0.03])),
+    initial: { cash: 50000, spy: 800000, qqq: 0, bitcoin: 0, bonds: 150000 },
+    horizon: 3,
+    withdrawal: {
+      strategy: 'fourPercentRule',
+      params: DEFAULT_WITHDRAWAL_RULE_PARAMS,
+      settings: { startBalance: 1000000, initialWithdrawalAmount: 40000, inflationAdjust: true, inflationRate: 0, capeData: {} },
+    },
+    options: {},
+  };
+
+  it('applies historical inflation by calendar year', () => {
+    const [run] = runSimulationJob(job);
+    expect(run.withdrawals[1]).toBeCloseTo(41200);
+  });
+
+  it('reads inflation from separate year samples when given', () => {
+    const [run] = runSimulationJob({
+      ...job,
+      yearSamples: [[2000, 2001, 2002]],
+      inflationYearSamples: [[2003, 2003, 2003]],
+      inflationByYear: new Map([[2000, 0], [2001, 0], [2002, 0], [2003, 0.1]]),
+    });
+    expect(run.withdrawals[1]).toBeCloseTo(44000);
+  });
+
+  it("uses each run's own Bitcoin draws in place of the table's", () => {
+    const holding = { ...job, yearSamples: [[2000, 2001, 2002], [2000, 2001, 2002]], initial: { cash: 0, spy: 0, qqq: 0, bitcoin: 1000000, bonds: 0 } };
+    const runs = runSimulationJob({ ...holding, bitcoinDraws: [[2, null, null], [0.5, null, null]] });
+    expect(runs[0].balances[1].total).toBeGreaterThan(runs[1].balances[1].total);
+    expect(runs[0].balances[1].total).toBeGreaterThan(1000000);
+    expect(runs[1].balances[1].total).toBeLessThan(600000);
+  });
+
+  it('gives the same runs when split into chunks', () => {
+    const chunks = splitJob(job, 3);
+    expect(chunks.map(c => c.yearSamples.length)).toEqual([3, 3, 1]);
+    expect(chunks.flatMap(runSimulationJob)).toEqual(runSimulationJob(job));
+  });
+});
@@ -0,0 +1,202 @@
+import {
+  pctToMult,
+  bootstrapSample,
+  blockBootstrapSample,
+  stationaryBootstrapSample,
+  shuffle,
+  simulatePortfolio,
+  DEFAULT_BLOCK_LENGTH,
+  type AssetHoldings,
+  type PortfolioRunResult,
+  type SimulationMode,
+  type SimulationOptions,
+} from "./simulation";
+import { withdrawalRuleFor, type DrawdownStrategies, type WithdrawalRuleParams, type WithdrawalSettings } from "./withdrawals";
+import { rngFromSeed } from "./random";
+import { backfillBitcoinReturn, DEFAULT_BITCOIN_BACKFILL, type BitcoinBackfillOptions } from "./bitcoin";
+import { cashReturnMultiplier, type CashYieldOptions } from "./cashYield";
+import type { MarketData } from "../data/marketData";
+import { ASSET_CLASSES, assetClass, assetReturns } from "./assets";
+
+// Return multipliers for each asset (cash included), keyed by calendar year.
+export type YearReturnTable = Map<number, Record<string, number>>;
+
+type PortfolioData = Pick<MarketData, "sp500" | "nasdaq100" | "bonds"> & Partial<MarketData>;
+
+/**
+ * Years with SPY, QQQ and bond data, and with data for every other held
+ * asset but Bitcoin, which buildReturnTable fills in (see recordedYears).
+ * A held asset without any series does not limit the years.
+ */
+export function portfolioYears(data: PortfolioData, held: string[] = []): number[] {
+  const limits = [data.nasdaq100, data.bonds, ...held.filter(id => id !== "bitcoin").map(id => assetReturns(data, id))]
+    .filter(series => series.length > 0)
+    .map(series => new Set(series.map(d => d.year)));
+  return Array.from(new Set(data.sp500.map(d => d.year)))
+    .filter(y => limits.every(years => years.has(y)))
+    .sort((a, b) => a - b);
+}
+
+// The held asset whose record starts latest, when it starts after the SPY/QQQ/bond years, e.g. TIPS from 1998.
+export function historyLimit(data: PortfolioData, held: string[]): { asset: string; year: number } | null {
+  const first = portfolioYears(data)[0];
+  let limit: { asset: string; year: number } | null = null;
+  for (const id of held.filter(id => id !== "bitcoin")) {
+    const years = assetReturns(data, id).map(d => d.year);
+    if (years.length === 0) continue;
+    const year = Math.min(...years);
+    if (year > first && (!limit || year > limit.year)) limit = { asset: assetClass(id, data.custom).short, year };
+  }
+  return limit;
+}
+
+/**
+ * Return multipliers for every asset in `years`, custom ones included. Bitcoin falls back to its
+ * backfill method outside its record while it is held and earns nothing
+ * while it is not; any other missing year earns nothing.
+ */
+export function buildReturnTable(
+  data: Pick<MarketData, "sp500" | "nasdaq100" | "bitcoin" | "bonds" | "tbills"> & Partial<MarketData>,
+  years: number[],
+  holdsBitcoin: boolean,
+  cashYield: CashYieldOptions,
+  bitcoinBackfill: BitcoinBackfillOptions = DEFAULT_BITCOIN_BACKFILL,
+): YearReturnTable {
+  const map: YearReturnTable = new Map();
+  const invested = [...ASSET_CLASSES.filter(a => a.series).map(a => a.id), ...(data.custom ?? []).map(a => a.id)];
+  const returnsMaps = new Map(invested.map(id => [id, new Map(assetReturns(data, id).map(d => [d.year, pctToMult(d.returnPct)]))]));
+  const btcReturnsMap = returnsMaps.get("bitcoin")!;
+  const tbillReturnsMap = new Map(data.tbills.filter(d => d.returnPct != null).map(d => [d.year, pctToMult(d.returnPct)]));
+  for (const year of years) {
+    const cash = cashReturnMultiplier(year, tbillReturnsMap, cashYield);
+    const returns: Record<string, number> = { cash };
+    for (const id of invested) returns[id] = returnsMaps.get(id)!.get(year) ?? 1.0;
+    returns.bitcoin = holdsBitcoin ? (btcReturnsMap.get(year) ?? backfillBitcoinReturn(year, btcReturnsMap, cash, bitcoinBackfill)) : 1.0;
+    map.set(year, returns);
+  }
+  return map;
+}
+
+/**
+ * Everything needed to run a batch of portfolio simulations. Plain data only,
+ * so a job can be posted to a worker as-is.
+ */
+export interface SimulationJob {
+  yearSamples: number[][]; // calendar years behind each run
+  returnsByYear: YearReturnTable;
+  inflationByYear?: Map<number, number>; // historical inflation; the rule's fixed rate applies when omitted
+  inflationYearSamples?: number[][]; // years inflation is read from, when drawn apart from the returns; defaults to yearSamples
+  bitcoinDraws?: (number | null)[][]; // Bitcoin's multiplier in each run's backfilled years, in place of the table's (see drawBitcoinBackfill)
+  initial: AssetHoldings;
+  horizon: number;
+  withdrawal: { strategy: DrawdownStrategies; params: WithdrawalRuleParams; settings: WithdrawalSettings };
+  options: Omit<SimulationOptions, "inflationRates">;
+}
+
+// Start years followed by a full horizon of history, e.g. 1946–1996 for 30 years of 1946–2025 data.
+export function completeStartYears(years: number[], horizon: number): number[] {
+  const available = new Set(years);
+  return years
+    .filter(start => Array.from({ length: horizon }, (_, i) => start + i).every(y => available.has(y)))
+    .sort((a, b) => a - b);
+}
+
+// Years with each held asset's own data; buildReturnTable fills in Bitcoin outside its record.
+// Also drops those years from portfolio runs when Bitcoin's backfill method is "exclude".
+export function recordedYears(years: number[], data: Pick<MarketData, "bitcoin">, holdsBitcoin: boolean): number[] {
+  if (!holdsBitcoin) return years;
+  const btcYears = new Set(data.bitcoin.map(d => d.year));
+  return years.filter(y => btcYears.has(y));
+}
+
+/**
+ * Start years for the random-start modes: every one of `candidates`, or with
+ * `completeOnly` just the complete cohorts, those followed by a full horizon
+ * of `realYears`. Runs from them never wrap around to the start of the data
+ * or lean on filled-in years such as Bitcoin before 2011.
+ */
+export function startYearPool(candidates: number[], horizon: number, completeOnly: boolean, realYears: number[] = candidates): number[] {
+  if (!completeOnly) return candidates;
+  const complete = new Set(completeStartYears(realYears, horizon));
+  return candidates.filter(y => complete.has(y));
+}
+
+/**
+ * Picks the calendar years for each run. Uses the seeded generator so the
+ * samples, and therefore the results, are reproducible. Each sampled year
+ * carries every asset's return and inflation, so the block modes keep whole
+ * multi-year stretches of history together. The random-start and
+ * CAPE-conditioned modes run actual sequences from a start year drawn from
+ * `startYears` (see startYearPool), wrapping around past the last year; with
+ * no start years there are no runs.
+ */
+export function sampleYears(
+  mode: SimulationMode,
+  years: number[],
+  horizon: number,
+  numRuns: number,
+  seed: number | "",
+  startYear: number,
+  blockLength = DEFAULT_BLOCK_LENGTH,
+  startYears = years,
+): number[][] {
+  if (mode === "actual-seq") {
+    let startIdx = years.indexOf(startYear);
+    if (startIdx === -1) startIdx = 0;
+    return [years.slice(startIdx, startIdx + horizon)];
+  }
+
+  if ((mode === "actual-seq-random-start" || mode === "cape-conditioned") && startYears.length === 0) return [];
+
+  const rng = rngFromSeed(seed);
+  const samples: number[][] = [];
+  for (let i = 0; i < numRuns; i++) {
+    if (mode === "bootstrap") {
+      samples.push(bootstrapSample(years, horizon, rng));
+    } else if (mode === "block-bootstrap") {
+      samples.push(blockBootstrapSample(years, horizon, blockLength, rng));
+    } else if (mode === "stationary-bootstrap") {
+      samples.push(stationaryBootstrapSample(years, horizon, blockLength, rng));
+    } else if (mode === "random-shuffle") {
+      const shuffled = shuffle(years, rng);
+      samples.push(Array.from({ length: horizon }, (_, j) => shuffled[j % shuffled.length]));
+    } else {
+      const startIdx = Math.max(0, years.indexOf(startYears[Math.floor(rng() * startYears.length)]));
+      samples.push(Array.from({ length: horizon }, (_, j) => years[(startIdx + j) % years.length]));
+    }
+  }
+  return samples;
+}
+
+export function runSimulationJob(job: SimulationJob): PortfolioRunResult[] {
+  const { returnsByYear, inflationByYear, initial, horizon, withdrawal, options } = job;
+  return job.yearSamples.map((yearSample, run) => {
+    const inflationYears = job.inflationYearSamples?.[run] ?? yearSample;
+    const draws = job.bitcoinDraws?.[run];
+    const yearReturns = yearSample.map((y, i) => {
+      const draw = draws?.[i];
+      return draw == null ? returnsByYear.get(y)! : { ...returnsByYear.get(y)!, bitcoin: draw };
+    });
+    return simulatePortfolio(
+      Object.fromEntries(Object.keys(initial).map(a => [a, yearReturns.map(r => r[a] ?? 1)])),
+      initial,
+      horizon,
+      withdrawalRuleFor(withdrawal.strategy, withdrawal.params, { ...withdrawal.settings, yearSample }),
+      { ...options, inflationRates: inflationByYear ? inflationYears.map(y => inflationByYear.get(y) ?? 0) : undefined },
+    );
+  });
+}
+
+// Splits a job into smaller jobs of at most `chunkSize` runs each, in run order.
+export function splitJob(job: SimulationJob, chunkSize: number): SimulationJob[] {
+  const chunks: SimulationJob[] = [];
+  for (let i = 0; i < job.yearSamples.length; i += chunkSize) {
+    chunks.push({
+      ...job,
+      yearSamples: job.yearSamples.slice(i, i + chunkSize),
+      inflationYearSamples: job.inflationYearSamples?.slice(i, i + chunkSize),
+      bitcoinDraws: job.bitcoinDraws?.slice(i, i + chunkSize),
+    });
+  }
+  return chunks;
+}
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSimulationPool } from './simulationPool';
+import { runSimulationJob, splitJob, type SimulationJob } from './simulationJob';
+import { DEFAULT_WITHDRAWAL_RULE_PARAMS } from './withdrawals';
+
+// A worker whose script never loads: every message it is sent comes back as an error.
+class BrokenWorker {
+  static created = 0;
+  onmessage: ((e: MessageEvent) => void) | null = null;
+  onerror: ((e: { preventDefault: () => void }) => void) | null = null;
+  terminated = false;
+  constructor() {
+    BrokenWorker.created++;
+  }
+  postMessage() {
+    setTimeout(() => this.onerror?.({ preventDefault: () => {} }));
+  }
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const years = [2000, 2001, 2002];
+const job: SimulationJob = {
+  yearSamples: Array.from({ length: 6 }, () => years),
+  returnsByYear: new Map(years.map(y => [y, { spy: 1.05, qqq: 1, bitcoin: 1, bonds: 1.02, cash: 1 }])),
+  initial: { cash: 50000, spy: 800000, qqq: 0, bitcoin: 0, bonds: 150000 },
+  horizon: 3,
+  withdrawal: {
+    strategy: 'fourPercentRule',
+    params: DEFAULT_WITHDRAWAL_RULE_PARAMS,
+    settings: { startBalance: 1000000, initialWithdrawalAmount: 40000, inflationAdjust: true, inflationRate: 0.03, capeData: {} },
+  },
+  options: {},
+};
+
+const runAll = (pool: ReturnType<typeof createSimulationPool>, chunks: SimulationJob[]) =>
+  new Promise<unknown[][]>(resolve => {
+    const results: unknown[][] = new Array(chunks.length);
+    let remaining = chunks.length;
+    pool.run(chunks, (index, runs) => {
+      results[index] = runs;
+      if (--remaining === 0) resolve(results);
+    });
+  });
+
+describe('createSimulationPool', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('stops starting workers once one fails and runs later jobs on the main thread', async () => {
+    BrokenWorker.created = 0;
+    vi.stubGlobal('Worker', BrokenWorker);
+    const pool = createSimulationPool(2);
+    const chunks = splitJob(job, 2);
+
+    expect((await runAll(pool, chunks)).flat()).toEqual(runSimulationJob(job));
+    const created = BrokenWorker.created;
+    expect(created).toBeLessThanOrEqual(2);
+
+    expect((await runAll(pool, chunks)).flat()).toEqual(runSimulationJob(job));
+    expect(BrokenWorker.created).toBe(created);
+  });
+});
@@ -0,0 +1,93 @@
+import type { PortfolioRunResult } from "./simulation";
+import { runSimulationJob, type SimulationJob } from "./simulationJob";
+
+export type SimulationRequest = { id: number; job: SimulationJob };
+export type SimulationResponse = { id: number; runs: PortfolioRunResult[] };
+
+type Task = {
+  id: number;
+  index: number;
+  job: SimulationJob;
+  batch: { cancelled: boolean; onChunk: (index: number, runs: PortfolioRunResult[]) => void };
+};
+
+export interface SimulationPool {
+  /**
+   * Queues the chunks of a job. `onChunk` receives each chunk's runs with its
+   * index as soon as a worker finishes it. Returns a function that cancels the
+   * chunks still waiting and drops results that arrive afterwards.
+   */
+  run: (chunks: SimulationJob[], onChunk: (index: number, runs: PortfolioRunResult[]) => void) => () => void;
+  size: number;
+}
+
+export function createSimulationPool(size: number): SimulationPool {
+  const workers: Worker[] = [];
+  const idle: Worker[] = [];
+  const busy = new Map<Worker, Task>();
+  let queue: Task[] = [];
+  let nextId = 0;
+  let failed = false; // a worker failed to load or crashed, so no more are started
+
+  // Runs a chunk on the main thread, after the current call returns like a worker's reply would
+  const runHere = (task: Task) => setTimeout(() => {
+    if (!task.batch.cancelled) task.batch.onChunk(task.index, runSimulationJob(task.job));
+  });
+
+  const finish = (worker: Worker, runs: () => PortfolioRunResult[]) => {
+    const task = busy.get(worker);
+    busy.delete(worker);
+    idle.push(worker);
+    if (task && !task.batch.cancelled) task.batch.onChunk(task.index, runs());
+    dispatch();
+  };
+
+  const spawn = () => {
+    const worker = new Worker(new URL("./simulation.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (e: MessageEvent<SimulationResponse>) => finish(worker, () => e.data.runs);
+    // A worker that fails to load or crashes is dropped and leaves its chunk to the main thread;
+    // the same failure would only repeat, so the pool stops starting workers
+    worker.onerror = (e) => {
+      e.preventDefault();
+      const task = busy.get(worker);
+      busy.delete(worker);
+      workers.splice(workers.indexOf(worker), 1);
+      if (idle.includes(worker)) idle.splice(idle.indexOf(worker), 1);
+      worker.terminate();
+      failed = true;
+      if (task) runHere(task);
+      dispatch();
+    };
+    workers.push(worker);
+    idle.push(worker);
+  };
+
+  const dispatch = () => {
+    while (queue.length > 0) {
+      if (idle.length === 0 && workers.length < size && !failed) spawn();
+      const worker = idle.pop();
+      if (!worker) {
+        // With every worker gone the main thread runs the rest; otherwise they wait for a worker
+        if (workers.length === 0) queue.splice(0).forEach(runHere);
+        return;
+      }
+      const task = queue.shift()!;
+      busy.set(worker, task);
+      const request: SimulationRequest = { id: task.id, job: task.job };
+      worker.postMessage(request);
+    }
+  };
+
+  return {
+    size,
+    run: (chunks, onChunk) => {
+      const batch = { cancelled: false, onChunk };
+      queue.push(...chunks.map((job, index) => ({ id: nextId++, index, job, batch })));
+      dispatch();
+      return () => {
+        batch.cancelled = true;
+        queue = queue.filter(t => t.batch !== batch);
+      };
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { runSimulationJob, type SimulationJob } from './simulationJob';
+import { DEFAULT_WITHDRAWAL_RULE_PARAMS } from './withdrawals';
+import { mixAllocation, summarizeCell, sweepCells } from './sweep';
+
+const job: SimulationJob = {
+  yearSamples: [[2000, 2001], [2001, 2000]],
+  returnsByYear: new Map([
+    [2000, { spy: 1.2, qqq: 1.3, bitcoin: 1, bonds: 1.02, cash: 1 }],
+    [2001, { spy: 0.8, qqq: 0.7, bitcoin: 1, bonds: 1.04, cash: 1 }],
+  ]),
+  initial: { cash: 100_000, spy: 300_000, qqq: 300_000, bitcoin: 0, bonds: 300_000 },
+  horizon: 2,
+  withdrawal: {
+    strategy: 'fourPercentRule',
+    params: DEFAULT_WITHDRAWAL_RULE_PARAMS,
+    settings: { startBalance: 1_000_000, initialWithdrawalAmount: 40_000, inflationAdjust: false, inflationRate: 0, capeData: {} },
+  },
+  options: {},
+};
+
+describe('mixAllocation', () => {
+  it('keeps cash and the equity proportions while moving the equity/bond split', () => {
+    expect(mixAllocation(job.initial, 0.5)).toEqual({ cash: 100_000, spy: 225_000, qqq: 225_000, bitcoin: 0, bonds: 450_000 });
+  });
+
+  it('moves cash to a share of the whole portfolio when one is chosen', () => {
+    expect(mixAllocation(job.initial, 0.5, 0.2)).toEqual({ cash: 200_000, spy: 200_000, qqq: 200_000, bitcoin: 0, bonds: 400_000 });
+    expect(mixAllocation(job.initial, 1, 0)).toEqual({ cash: 0, spy: 500_000, qqq: 500_000, bitcoin: 0, bonds: 0 });
+  });
+
+  it('puts new equity in SPY when the portfolio holds none', () => {
+    expect(mixAllocation({ cash: 0, spy: 0, qqq: 0, bitcoin: 0, bonds: 1000 }, 0.3)).toEqual({ cash: 0, spy: 300, qqq: 0, bitcoin: 0, bonds: 700 });
+  });
+});
+
+describe('sweepCells', () => {
+  it('builds one job per rate and mix over the same year samples', () => {
+    const cells = sweepCells(job, [3, 5], [0, 1]);
+    expect(cells).toHaveLength(4);
+    expect(cells.every(c => c.job.yearSamples === job.yearSamples)).toBe(true);
+    expect(cells.map(c => c.job.withdrawal.settings.initialWithdrawalAmount)).toEqual([30_000, 50_000, 30_000, 50_000]);
+    expect(cells[3].job.initial).toEqual({ cash: 100_000, spy: 450_000, qqq: 450_000, bitcoin: 0, bonds: 0 });
+  });
+
+  it('summarizes success and the median ending balance', () => {
+    const [cell] = sweepCells(job, [4], [0]);
+    const runs = runSimulationJob(cell.job);
+    const summary = summarizeCell(runs);
+    expect(summary.successRate).toBe(1);
+    expect(summary.medianEndingBalance).toBeCloseTo((runs[0].balances[2].total + runs[1].balances[2].total) / 2);
+  });
+});
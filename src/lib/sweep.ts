@@ -0,0 +1,71 @@
+import { percentile, type AssetHoldings, type PortfolioRunResult } from "./simulation";
+import type { SimulationJob } from "./simulationJob";
+import { assetRole, holdingsTotal, investedAssets } from "./assets";
+
+export const SWEEP_RATES = [3, 3.5, 4, 4.5, 5, 5.5, 6]; // % of the starting balance
+export const SWEEP_EQUITY_SHARES = [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1]; // of the non-cash holdings
+export const SWEEP_CASH_SHARES = [0, 0.05, 0.1, 0.15, 0.2, 0.3]; // of the whole portfolio
+
+export type SweepCell = { rate: number; equityShare: number; allocation: AssetHoldings; job: SimulationJob };
+export type SweepSummary = { successRate: number; medianEndingBalance: number };
+
+/**
+ * Re-splits `holdings` so `equityShare` of everything but cash sits in
+ * equities (stocks and alternatives) and the rest in bonds. Cash keeps its
+ * amount unless `cashShare` sets it as a share of the whole portfolio. Each
+ * side keeps its proportions, e.g. the SPY/QQQ/Bitcoin mix (all SPY, or all
+ * Treasuries, when that side is empty).
+ */
+export function mixAllocation(holdings: AssetHoldings, equityShare: number, cashShare?: number): AssetHoldings {
+  const invested = investedAssets(holdings);
+  const bonds = invested.filter(id => assetRole(id) === "bond");
+  const equities = invested.filter(id => assetRole(id) !== "bond");
+  const sum = (ids: string[]) => ids.reduce((s, id) => s + holdings[id], 0);
+  const cash: AssetHoldings = cashShare === undefined ? {} : { cash: Math.round(holdingsTotal(holdings) * cashShare) };
+  const rest = cashShare === undefined ? sum(equities) + sum(bonds) : holdingsTotal(holdings) - cash.cash;
+  const equity = Math.round(rest * equityShare);
+  return {
+    ...holdings,
+    ...cash,
+    ...split(holdings, equities, equity, "spy"),
+    ...split(holdings, bonds, rest - equity, "bonds"),
+  };
+}
+
+// Spreads `amount` over `ids` in their current proportions, rounded to whole dollars with the total kept exact.
+function split(holdings: AssetHoldings, ids: string[], amount: number, fallback: string): AssetHoldings {
+  const total = ids.reduce((s, id) => s + holdings[id], 0);
+  if (total <= 0) return { ...Object.fromEntries(ids.map(id => [id, 0])), [fallback]: amount };
+  const parts = Object.fromEntries(ids.map(id => [id, Math.round((amount * holdings[id]) / total)]));
+  parts[ids[0]] += amount - ids.reduce((s, id) => s + parts[id], 0);
+  return parts;
+}
+
+/**
+ * One job per grid cell. Every cell reuses the job's year samples and
+ * inflation so cells differ only by rate and mix; `cashShare` holds cash at
+ * that share of the portfolio in every cell, otherwise cash keeps its amount.
+ */
+export function sweepCells(job: SimulationJob, rates = SWEEP_RATES, equityShares = SWEEP_EQUITY_SHARES, cashShare?: number): SweepCell[] {
+  const { startBalance } = job.withdrawal.settings;
+  return equityShares.flatMap(equityShare => {
+    const allocation = mixAllocation(job.initial, equityShare, cashShare);
+    return rates.map(rate => ({
+      rate,
+      equityShare,
+      allocation,
+      job: {
+        ...job,
+        initial: allocation,
+        withdrawal: { ...job.withdrawal, settings: { ...job.withdrawal.settings, initialWithdrawalAmount: Math.round(startBalance * rate / 100) } },
+      },
+    }));
+  });
+}
+
+export function summarizeCell(runs: PortfolioRunResult[]): SweepSummary {
+  return {
+    successRate: runs.length === 0 ? 0 : runs.filter(r => r.failedYear === null).length / runs.length,
+    medianEndingBalance: percentile(runs.map(r => r.balances[r.balances.length - 1].total), 0.5),
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { createAccounts, DEFAULT_TAX_OPTIONS, federalIncomeTax, requiredMinimumDistribution, withdrawFromAccounts } from './taxes';
+import { simulatePortfolio } from './simulation';
+
+describe('federalIncomeTax', () => {
+  it('taxes ordinary income through the brackets after the standard deduction', () => {
+    expect(federalIncomeTax(100_000, 0, 'married')).toBeCloseTo(2_385 + 0.12 * (68_500 - 23_850));
+    expect(federalIncomeTax(20_000, 0, 'single')).toBeCloseTo(0.1 * 4_250);
+  });
+
+  it('stacks long-term gains on top of ordinary income', () => {
+    expect(federalIncomeTax(0, 120_000, 'married')).toBe(0);
+    expect(federalIncomeTax(80_000, 50_000, 'married')).toBeCloseTo(2_385 + 0.12 * (48_500 - 23_850) + 0.15 * 1_800);
+  });
+
+  it('scales every threshold with inflation', () => {
+    expect(federalIncomeTax(200_000, 0, 'married', 2)).toBeCloseTo(2 * federalIncomeTax(100_000, 0, 'married'));
+  });
+});
+
+describe('accounts', () => {
+  const options = { ...DEFAULT_TAX_OPTIONS, enabled: true, accounts: { taxable: 50, traditional: 50, roth: 0, hsa: 0 }, taxableBasisPct: 60 };
+
+  it('takes withdrawals in the sourcing order and realises gains over the cost basis', () => {
+    const drawn = withdrawFromAccounts(createAccounts(200, options), 150, ['taxable', 'traditional']);
+    expect(drawn.gains).toBeCloseTo(40);
+    expect(drawn.ordinary).toBeCloseTo(50);
+    expect(drawn.state.balances).toEqual({ taxable: 0, traditional: 50, roth: 0, hsa: 0 });
+    expect(drawn.state.taxableBasis).toBeCloseTo(0);
+  });
+
+  it('reports taxes and after-tax spending without changing the balances', () => {
+    const run = (accounts: typeof options.accounts) => simulatePortfolio(
+      { spy: [1, 1, 1] },
+      { cash: 0, spy: 1_000_000 },
+      3,
+      { strategy: 'fourPercentRule', initialWithdrawalAmount: 40_000, inflationAdjust: false, inflationRate: 0 },
+      { taxes: { ...options, accounts } },
+    );
+    const traditional = run({ taxable: 0, traditional: 100, roth: 0, hsa: 0 });
+    expect(traditional.taxes).toEqual([850, 850, 850].map(t => expect.closeTo(t)));
+    expect(traditional.afterTaxWithdrawals![0]).toBeCloseTo(39_150);
+    const roth = run({ taxable: 0, traditional: 0, roth: 100, hsa: 0 });
+    expect(roth.taxes).toEqual([0, 0, 0]);
+    expect(roth.balances).toEqual(traditional.balances);
+  });
+});
+
+describe('required minimum distributions', () => {
+  it('divides the balance by the Uniform Lifetime Table period from the start age', () => {
+    expect(requiredMinimumDistribution(265_000, 72, 73)).toBe(0);
+    expect(requiredMinimumDistribution(265_000, 73, 73)).toBeCloseTo(10_000);
+    expect(requiredMinimumDistribution(100_000, 125, 73)).toBe(50_000);
+  });
+
+  it('takes the RMD from the traditional account first and reports the excess', () => {
+    const options = { ...DEFAULT_TAX_OPTIONS, enabled: true, accounts: { taxable: 50, traditional: 50, roth: 0, hsa: 0 } };
+    const drawn = withdrawFromAccounts(createAccounts(200, options), 10, ['taxable', 'traditional'], 30);
+    expect(drawn.taken).toEqual({ taxable: 0, traditional: 30, roth: 0, hsa: 0 });
+    expect(drawn.excess).toBe(20);
+  });
+
+  it('reinvests the after-tax excess, so only its tax lowers the portfolio', () => {
+    const taxes = { ...DEFAULT_TAX_OPTIONS, enabled: true, accounts: { taxable: 0, traditional: 100, roth: 0, hsa: 0 } };
+    const run = (startAge?: number) => simulatePortfolio(
+      { spy: [1, 1] },
+      { cash: 0, spy: 1_000_000 },
+      2,
+      { strategy: 'fourPercentRule', initialWithdrawalAmount: 10_000, inflationAdjust: false, inflationRate: 0 },
+      { taxes, startAge },
+    );
+    const forced = run(80);
+    const rmd = 1_000_000 / 20.2;
+    expect(forced.rmds![0]).toBeCloseTo(rmd);
+    expect(forced.taxes![0]).toBeCloseTo(federalIncomeTax(rmd, 0, 'married'));
+    expect(forced.afterTaxWithdrawals![0]).toBe(10_000);
+    expect(forced.balances[1].total).toBeCloseTo(990_000 - forced.taxes![0]);
+    expect(run().rmds).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,210 @@
+import { percentile, type PortfolioRunResult } from "./simulation";
+
+// Where the money sits for tax purposes. Each account holds the same asset mix as the whole portfolio.
+export type AccountType = "taxable" | "traditional" | "roth" | "hsa";
+
+export const ACCOUNT_TYPES: { id: AccountType; label: string }[] = [
+  { id: "taxable", label: "Taxable brokerage" },
+  { id: "traditional", label: "Traditional IRA/401(k)" },
+  { id: "roth", label: "Roth" },
+  { id: "hsa", label: "HSA" },
+];
+
+export type FilingStatus = "single" | "married";
+
+export type AccountBalances = Record<AccountType, number>;
+
+export interface TaxOptions {
+  enabled: boolean;
+  filingStatus: FilingStatus;
+  accounts: AccountBalances; // % of the starting portfolio in each account
+  taxableBasisPct: number; // cost basis as a % of the taxable account's starting value
+  sourcingOrder: AccountType[]; // accounts withdrawals are taken from, first to last
+  rmdStartAge: number; // age required minimum distributions begin: 73, or 75 if born in 1960 or later
+}
+
+export const DEFAULT_TAX_OPTIONS: TaxOptions = {
+  enabled: false,
+  filingStatus: "married",
+  accounts: { taxable: 20, traditional: 70, roth: 10, hsa: 0 },
+  taxableBasisPct: 60,
+  sourcingOrder: ["taxable", "traditional", "roth", "hsa"],
+  rmdStartAge: 73,
+};
+
+// Federal tax law for this tax year, indexed by the simulated inflation in later years.
+export const TAX_YEAR = 2025;
+
+// Top of each bracket; the last one has no top.
+type Brackets = { rate: number; upTo: number }[];
+
+export const ORDINARY_BRACKETS: Record<FilingStatus, Brackets> = {
+  single: [
+    { rate: 0.1, upTo: 11_925 },
+    { rate: 0.12, upTo: 48_475 },
+    { rate: 0.22, upTo: 103_350 },
+    { rate: 0.24, upTo: 197_300 },
+    { rate: 0.32, upTo: 250_525 },
+    { rate: 0.35, upTo: 626_350 },
+    { rate: 0.37, upTo: Infinity },
+  ],
+  married: [
+    { rate: 0.1, upTo: 23_850 },
+    { rate: 0.12, upTo: 96_950 },
+    { rate: 0.22, upTo: 206_700 },
+    { rate: 0.24, upTo: 394_600 },
+    { rate: 0.32, upTo: 501_050 },
+    { rate: 0.35, upTo: 751_600 },
+    { rate: 0.37, upTo: Infinity },
+  ],
+};
+
+// Long-term capital gains rates, by taxable income including the gains.
+export const CAPITAL_GAINS_BRACKETS: Record<FilingStatus, Brackets> = {
+  single: [
+    { rate: 0, upTo: 48_350 },
+    { rate: 0.15, upTo: 533_400 },
+    { rate: 0.2, upTo: Infinity },
+  ],
+  married: [
+    { rate: 0, upTo: 96_700 },
+    { rate: 0.15, upTo: 600_050 },
+    { rate: 0.2, upTo: Infinity },
+  ],
+};
+
+export const STANDARD_DEDUCTION: Record<FilingStatus, number> = { single: 15_750, married: 31_500 };
+
+// Tax on the part of [from, to) of taxable income that falls in each bracket.
+function bracketTax(brackets: Brackets, index: number, from: number, to: number): number {
+  let tax = 0;
+  let lower = 0;
+  for (const { rate, upTo } of brackets) {
+    const upper = upTo * index;
+    tax += rate * Math.max(0, Math.min(to, upper) - Math.max(from, lower));
+    lower = upper;
+  }
+  return tax;
+}
+
+/**
+ * Federal income tax on a year's ordinary income and long-term gains. The
+ * standard deduction comes off ordinary income first; gains stack on top
+ * and are taxed at the capital gains rates. `index` scales every threshold
+ * for inflation since the tax year (1.1 after 10% cumulative inflation).
+ */
+export function federalIncomeTax(ordinary: number, gains: number, status: FilingStatus, index = 1): number {
+  const deduction = STANDARD_DEDUCTION[status] * index;
+  const taxableOrdinary = Math.max(0, ordinary - deduction);
+  const taxableGains = Math.max(0, gains - Math.max(0, deduction - ordinary));
+  return bracketTax(ORDINARY_BRACKETS[status], index, 0, taxableOrdinary)
+    + bracketTax(CAPITAL_GAINS_BRACKETS[status], index, taxableOrdinary, taxableOrdinary + taxableGains);
+}
+
+// IRS Uniform Lifetime Table (in force from 2022): the distribution period for each age from 72. From 120 on it is 2.
+export const UNIFORM_LIFETIME_TABLE = [
+  27.4, 26.5, 25.5, 24.6, 23.7, 22.9, 22.0, 21.1, 20.2, 19.4, // 72–81
+  18.5, 17.7, 16.8, 16.0, 15.2, 14.4, 13.7, 12.9, 12.2, 11.5, // 82–91
+  10.8, 10.1, 9.5, 8.9, 8.4, 7.8, 7.3, 6.8, 6.4, 6.0, // 92–101
+  5.6, 5.2, 4.9, 4.6, 4.3, 4.1, 3.9, 3.7, 3.5, 3.4, // 102–111
+  3.3, 3.1, 3.0, 2.9, 2.8, 2.7, 2.5, 2.3, // 112–119
+];
+
+export const distributionPeriod = (age: number): number =>
+  UNIFORM_LIFETIME_TABLE[Math.max(0, Math.floor(age) - 72)] ?? 2;
+
+// The least that must leave the traditional account in a year, from its balance at the end of the year before.
+export function requiredMinimumDistribution(balance: number, age: number, rmdStartAge: number): number {
+  if (age < rmdStartAge || balance <= 0) return 0;
+  return balance / distributionPeriod(age);
+}
+
+// Account balances and the taxable account's cost basis during a run.
+export interface AccountState {
+  balances: AccountBalances;
+  taxableBasis: number;
+}
+
+// Splits a starting portfolio over the accounts by their shares, which need not add to exactly 100%.
+export function createAccounts(total: number, options: TaxOptions): AccountState {
+  const shares = options.accounts;
+  const sum = ACCOUNT_TYPES.reduce((s, a) => s + Math.max(0, shares[a.id]), 0);
+  const balances = Object.fromEntries(
+    ACCOUNT_TYPES.map(a => [a.id, sum > 0 ? (total * Math.max(0, shares[a.id])) / sum : a.id === "taxable" ? total : 0]),
+  ) as AccountBalances;
+  return { balances, taxableBasis: balances.taxable * (options.taxableBasisPct / 100) };
+}
+
+export const accountsTotal = (state: AccountState): number => ACCOUNT_TYPES.reduce((s, a) => s + state.balances[a.id], 0);
+
+/**
+ * Takes `amount` from the accounts in the sourcing order (any account left
+ * out of the order comes last). Traditional withdrawals are ordinary income;
+ * taxable sales realise the gain over their share of the cost basis. Roth and
+ * HSA money comes out tax-free, the HSA assuming qualified medical spending.
+ * A required minimum distribution comes out of the traditional account first,
+ * whatever the order; whatever it pays beyond `amount` is the `excess`.
+ */
+export function withdrawFromAccounts(
+  state: AccountState,
+  amount: number,
+  order: AccountType[],
+  rmd = 0,
+): { state: AccountState; taken: AccountBalances; ordinary: number; gains: number; excess: number } {
+  const balances = { ...state.balances };
+  const forced = Math.min(rmd, balances.traditional);
+  balances.traditional -= forced;
+  const taken: AccountBalances = { taxable: 0, traditional: forced, roth: 0, hsa: 0 };
+  let taxableBasis = state.taxableBasis;
+  let gains = 0;
+  let remaining = amount - forced;
+  const sequence = [...order, ...ACCOUNT_TYPES.map(a => a.id).filter(id => !order.includes(id))];
+  for (const account of sequence) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, balances[account]);
+    if (take <= 0) continue;
+    if (account === "taxable") {
+      const basisSold = taxableBasis * (take / balances.taxable);
+      gains += take - basisSold;
+      taxableBasis -= basisSold;
+    }
+    balances[account] -= take;
+    taken[account] += take;
+    remaining -= take;
+  }
+  // Realised losses are not carried forward or set against other income
+  return {
+    state: { balances, taxableBasis },
+    taken,
+    ordinary: taken.traditional,
+    gains: Math.max(0, gains),
+    excess: Math.max(0, forced - amount),
+  };
+}
+
+// Adds money to the taxable account at full cost basis, as when an RMD beyond spending is reinvested.
+export function depositToTaxable(state: AccountState, amount: number): AccountState {
+  return { balances: { ...state.balances, taxable: state.balances.taxable + amount }, taxableBasis: state.taxableBasis + amount };
+}
+
+// Scales every account to a new portfolio total, as they all share its asset mix. Cost basis does not grow.
+export function scaleAccounts(state: AccountState, total: number): AccountState {
+  const current = accountsTotal(state);
+  const factor = current > 0 ? total / current : 0;
+  const balances = Object.fromEntries(ACCOUNT_TYPES.map(a => [a.id, state.balances[a.id] * factor])) as AccountBalances;
+  return { balances, taxableBasis: state.taxableBasis };
+}
+
+/**
+ * Medians across runs of the lifetime tax bill, the first year's after-tax
+ * spending and lifetime after-tax spending; null when the runs were not taxed.
+ */
+export function taxSummary(runs: PortfolioRunResult[]): { medianLifetimeTaxes: number; medianFirstYearAfterTax: number; medianLifetimeAfterTax: number } | null {
+  if (runs.length === 0 || !runs[0].taxes) return null;
+  const sum = (xs: number[] = []) => xs.reduce((s, x) => s + x, 0);
+  return {
+    medianLifetimeTaxes: percentile(runs.map(r => sum(r.taxes)), 0.5),
+    medianFirstYearAfterTax: percentile(runs.map(r => r.afterTaxWithdrawals?.[0] ?? 0), 0.5),
+    medianLifetimeAfterTax: percentile(runs.map(r => sum(r.afterTaxWithdrawals)), 0.5),
+  };
+}
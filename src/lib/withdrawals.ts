@@ -0,0 +1,203 @@
+// Rule that sets how much is withdrawn each year.
+export type DrawdownStrategies =
+  | "guytonKlinger"
+  | "floorAndCeiling"
+  | "capeBased"
+  | "fixedPercentage"
+  | "principalProtectionRule"
+  | "fourPercentRule"
+  | "fourPercentRuleUpwardReset";
+
+// Tunable parameters for the rules that have them.
+export interface WithdrawalRuleParams {
+  guytonKlinger: { guardrailUpper: number; guardrailLower: number; cutPercentage: number; raisePercentage: number };
+  floorAndCeiling: { floor: number; ceiling: number };
+  capeBased: { basePercentage: number; capeFraction: number };
+  fixedPercentage: { withdrawalRate: number };
+}
+
+export const DEFAULT_WITHDRAWAL_RULE_PARAMS: WithdrawalRuleParams = {
+  guytonKlinger: { guardrailUpper: 0.06, guardrailLower: 0.03, cutPercentage: 0.1, raisePercentage: 0.1 },
+  floorAndCeiling: { floor: 0.3, ceiling: 0.3 },
+  capeBased: { basePercentage: 0.02, capeFraction: 0.5 },
+  fixedPercentage: { withdrawalRate: 0.04 },
+};
+
+// A fully specified withdrawal rule for one simulated run.
+export type WithdrawalRule =
+  | { strategy: "fourPercentRule"; initialWithdrawalAmount: number; inflationAdjust: boolean; inflationRate: number }
+  | { strategy: "fourPercentRuleUpwardReset"; initialWithdrawalAmount: number; withdrawalRate: number; inflationAdjust: boolean; inflationRate: number }
+  | { strategy: "principalProtectionRule"; initialWithdrawalAmount: number; inflationAdjust: boolean; inflationRate: number }
+  | ({ strategy: "guytonKlinger"; initialWithdrawalRate: number; inflationAdjust: boolean; inflationRate: number } & WithdrawalRuleParams["guytonKlinger"])
+  | ({ strategy: "floorAndCeiling"; initialWithdrawalRate: number; inflationAdjust: boolean; inflationRate: number } & WithdrawalRuleParams["floorAndCeiling"])
+  | { strategy: "fixedPercentage"; withdrawalRate: number }
+  | ({ strategy: "capeBased"; capeData: { [year: number]: number }; yearSample: number[] } & WithdrawalRuleParams["capeBased"]);
+
+// Withdrawal settings shared by every rule.
+export type WithdrawalSettings = {
+  startBalance: number;
+  initialWithdrawalAmount: number;
+  inflationAdjust: boolean;
+  inflationRate: number;
+  capeData: { [year: number]: number };
+};
+
+/**
+ * Builds the rule for a run from the selected strategy, its parameters and the
+ * shared withdrawal settings. `yearSample` is the calendar year behind each
+ * simulated year and is only needed by the CAPE-based rule.
+ */
+export function withdrawalRuleFor(
+  strategy: DrawdownStrategies,
+  params: WithdrawalRuleParams,
+  settings: WithdrawalSettings & { yearSample: number[] },
+): WithdrawalRule {
+  const { startBalance, initialWithdrawalAmount, inflationAdjust, inflationRate } = settings;
+  const initialWithdrawalRate = startBalance > 0 ? initialWithdrawalAmount / startBalance : 0;
+  switch (strategy) {
+    case "guytonKlinger":
+      return { strategy, initialWithdrawalRate, inflationAdjust, inflationRate, ...params.guytonKlinger };
+    case "floorAndCeiling":
+      return { strategy, initialWithdrawalRate, inflationAdjust, inflationRate, ...params.floorAndCeiling };
+    case "capeBased":
+      return { strategy, capeData: settings.capeData, yearSample: settings.yearSample, ...params.capeBased };
+    case "fixedPercentage":
+      return { strategy, ...params.fixedPercentage };
+    case "fourPercentRuleUpwardReset":
+      return { strategy, initialWithdrawalAmount, withdrawalRate: initialWithdrawalRate, inflationAdjust, inflationRate };
+    case "principalProtectionRule":
+    case "fourPercentRule":
+      return { strategy, initialWithdrawalAmount, inflationAdjust, inflationRate };
+  }
+}
+
+// Balances the rule sees when it updates after a simulated year.
+export type YearEnd = {
+  startOfYear: number; // total before the withdrawal
+  afterWithdrawal: number; // total after the withdrawal, before returns
+  endOfYear: number; // total after returns
+};
+
+export type WithdrawalPlanner = {
+  /** Amount to withdraw at the start of year `y`, given the portfolio total at that point. */
+  amountFor: (y: number, startOfYear: number) => number;
+  /** Updates the rule's state once year `y` has played out. */
+  afterYear: (y: number, balances: YearEnd) => void;
+  guardrailTriggers: number[];
+};
+
+/**
+ * Tracks a withdrawal rule's state across a run. `inflationRates` overrides
+ * the rule's fixed inflation rate year by year.
+ */
+export function createWithdrawalPlanner(
+  rule: WithdrawalRule,
+  startBalance: number,
+  horizon: number,
+  inflationRates?: number[],
+): WithdrawalPlanner {
+  const guardrailTriggers: number[] = [];
+  const inflationFor = (y: number, fallback: number) => (inflationRates ? inflationRates[y] : fallback);
+
+  switch (rule.strategy) {
+    case "fourPercentRule": {
+      let withdrawalAmount = rule.initialWithdrawalAmount;
+      return {
+        amountFor: () => withdrawalAmount,
+        afterYear: (y) => {
+          if (rule.inflationAdjust) withdrawalAmount *= 1 + inflationFor(y, rule.inflationRate);
+        },
+        guardrailTriggers,
+      };
+    }
+    case "fourPercentRuleUpwardReset": {
+      let withdrawalAmount = rule.initialWithdrawalAmount;
+      return {
+        amountFor: () => withdrawalAmount,
+        afterYear: (y, { startOfYear, endOfYear }) => {
+          let next = withdrawalAmount;
+          if (rule.inflationAdjust) next *= 1 + inflationFor(y, rule.inflationRate);
+          if (endOfYear > startOfYear) next = Math.max(next, endOfYear * rule.withdrawalRate);
+          withdrawalAmount = next;
+        },
+        guardrailTriggers,
+      };
+    }
+    case "principalProtectionRule": {
+      let withdrawalAmount = rule.initialWithdrawalAmount;
+      return {
+        // Only withdraw while the portfolio is at or above where it started
+        amountFor: (y, startOfYear) => {
+          if (startOfYear < startBalance) return 0;
+          const current = withdrawalAmount;
+          if (rule.inflationAdjust) withdrawalAmount *= 1 + inflationFor(y, rule.inflationRate);
+          return current;
+        },
+        afterYear: () => {},
+        guardrailTriggers,
+      };
+    }
+    case "guytonKlinger": {
+      let withdrawalAmount = startBalance * rule.initialWithdrawalRate;
+      return {
+        amountFor: () => withdrawalAmount,
+        afterYear: (y, { afterWithdrawal, endOfYear }) => {
+          const lastYearReturn = endOfYear / afterWithdrawal - 1;
+          const currentWithdrawalRate = withdrawalAmount / endOfYear;
+          let next = withdrawalAmount;
+
+          // Inflation adjustment is skipped after a losing year that left the rate above its start
+          if (rule.inflationAdjust && (lastYearReturn >= 0 || currentWithdrawalRate <= rule.initialWithdrawalRate)) {
+            next *= 1 + inflationFor(y, rule.inflationRate);
+          }
+
+          // Guardrails stop applying in the last 15 years (longevity rule)
+          if (y < horizon - 15) {
+            if (currentWithdrawalRate > rule.initialWithdrawalRate * (1 + rule.guardrailLower)) {
+              next *= 1 - rule.cutPercentage;
+              guardrailTriggers.push(y + 1);
+            } else if (currentWithdrawalRate < rule.initialWithdrawalRate * (1 - rule.guardrailUpper)) {
+              next *= 1 + rule.raisePercentage;
+              guardrailTriggers.push(y + 1);
+            }
+          }
+          withdrawalAmount = next;
+        },
+        guardrailTriggers,
+      };
+    }
+    case "floorAndCeiling": {
+      const initialWithdrawalAmount = startBalance * rule.initialWithdrawalRate;
+      const floorAmount = initialWithdrawalAmount * (1 - rule.floor);
+      const ceilingAmount = initialWithdrawalAmount * (1 + rule.ceiling);
+      let cumulativeInflation = 1;
+      return {
+        amountFor: (y, startOfYear) => {
+          let current = Math.min(Math.max(startOfYear * rule.initialWithdrawalRate, floorAmount), ceilingAmount);
+          if (rule.inflationAdjust) {
+            current *= cumulativeInflation;
+            cumulativeInflation *= 1 + inflationFor(y, rule.inflationRate);
+          }
+          return current;
+        },
+        afterYear: () => {},
+        guardrailTriggers,
+      };
+    }
+    case "fixedPercentage":
+      return {
+        amountFor: (_, startOfYear) => startOfYear * rule.withdrawalRate,
+        afterYear: () => {},
+        guardrailTriggers,
+      };
+    case "capeBased":
+      return {
+        amountFor: (y, startOfYear) => {
+          const cape = rule.capeData[rule.yearSample[y]] || 25; // Default to 25 if no data
+          return startOfYear * (rule.basePercentage + rule.capeFraction * (1 / cape));
+        },
+        afterYear: () => {},
+        guardrailTriggers,
+      };
+  }
+}